@@ -7,7 +7,16 @@
 
 import { Command } from 'commander';
 import { AnchorStore } from '../store/anchor-store.js';
-import type { CommitmentType, CommitmentQuery } from '../types.js';
+import { encodeCommitmentProofString, decodeCommitmentProofString } from '../encoding/binary.js';
+import { renderFields } from '../schemas/registry.js';
+import type {
+  AnchorStrategy,
+  AttachmentRef,
+  CommitmentType,
+  CommitmentQuery,
+  TreeMode,
+  TreeVersion,
+} from '../types.js';
 
 const program = new Command();
 
@@ -23,15 +32,33 @@ program
 program
   .command('init')
   .description('Initialize a new anchor store')
+  .option('--tree-version <version>', 'Tree algorithm: 1 (legacy) or 2 (RFC 6962)')
+  .option('--tree-mode <mode>', 'Tree storage: full or mmr (peaks only, version 2)')
   .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
   .action(async (options) => {
     try {
-      const store = await AnchorStore.open(options.dataDir);
+      let treeVersion: TreeVersion | undefined;
+      if (options.treeVersion) {
+        treeVersion = parseInt(options.treeVersion, 10) as TreeVersion;
+        if (treeVersion !== 1 && treeVersion !== 2) {
+          console.error('❌ Invalid tree version. Must be 1 or 2');
+          process.exit(1);
+        }
+      }
+      
+      const treeMode = options.treeMode as TreeMode | undefined;
+      if (treeMode && treeMode !== 'full' && treeMode !== 'mmr') {
+        console.error('❌ Invalid tree mode. Must be full or mmr');
+        process.exit(1);
+      }
+      
+      const store = await AnchorStore.open(options.dataDir, { treeVersion, treeMode });
       const publicKey = store.getPublicKey();
       
       console.log('✅ Anchor store initialized');
       console.log(`📁 Data directory: ${store.getDataDir()}`);
       console.log(`🔑 Public key: ${publicKey}`);
+      console.log(`🌳 Tree version: ${store.getTreeVersion()} (${store.getTreeMode()})`);
       
       store.close();
     } catch (error) {
@@ -52,6 +79,13 @@ program
   .requiredOption('-c, --content <content>', 'Content of the commitment')
   .option('-p, --counterparty <id>', 'Counterparty peer ID or address')
   .option('-m, --metadata <json>', 'Additional metadata as JSON')
+  .option('--supersedes <id>', 'ID of an earlier commitment this one amends')
+  .option('--salted', 'Commit each payload field as a salted hash (for prove --disclose)')
+  .option('--recipient <pubkey...>', 'Encrypt content and metadata to these public keys')
+  .option('--due <date>', 'Deadline for fulfillment (ISO 8601 date/time)')
+  .option('--schema <id>', 'Schema the metadata must match (see: bsv-anchors schemas)')
+  .option('--attach <file...>', 'Store files as attachments and commit to their hashes')
+  .option('--tag <tag...>', 'Tags for grouping and filtering')
   .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
   .action(async (options) => {
     try {
@@ -63,6 +97,22 @@ program
         process.exit(1);
       }
       
+      const dueAt = options.due !== undefined ? Date.parse(options.due) : undefined;
+      if (Number.isNaN(dueAt)) {
+        console.error(`❌ Invalid due date: ${options.due}`);
+        process.exit(1);
+      }
+      
+      let attachments: AttachmentRef[] | undefined;
+      if (options.attach) {
+        const { readFileSync } = await import('fs');
+        const { basename } = await import('path');
+        attachments = [];
+        for (const file of options.attach as string[]) {
+          attachments.push(await store.addAttachment(readFileSync(file), { name: basename(file) }));
+        }
+      }
+      
       const commitment = await store.commit({
         type: options.type as CommitmentType,
         payload: {
@@ -70,15 +120,37 @@ program
           content: options.content,
           counterparty: options.counterparty,
           metadata: options.metadata ? JSON.parse(options.metadata) : undefined,
+          tags: options.tag,
+          attachments,
         },
+        supersedes: options.supersedes,
+        salted: options.salted,
+        recipients: options.recipient,
+        dueAt,
+        schema: options.schema,
       });
       
       console.log('✅ Commitment created');
       console.log(`   ID: ${commitment.id}`);
       console.log(`   Type: ${commitment.type}`);
       console.log(`   Subject: ${commitment.payload.subject}`);
+      if (commitment.payload.tags) {
+        console.log(`   Tags: ${commitment.payload.tags.join(', ')}`);
+      }
       console.log(`   Leaf hash: ${commitment.leafHash}`);
       console.log(`   Tree index: ${commitment.treeIndex}`);
+      if (options.supersedes) {
+        console.log(`   Supersedes: ${options.supersedes}`);
+      }
+      if (options.recipient) {
+        console.log(`   Encrypted to: ${options.recipient.length} recipient(s) and this store`);
+      }
+      if (dueAt !== undefined) {
+        console.log(`   Due: ${new Date(dueAt).toISOString()}`);
+      }
+      for (const attachment of attachments ?? []) {
+        console.log(`   Attachment: ${attachment.name} (${attachment.size} bytes, sha256 ${attachment.hash})`);
+      }
       
       const unanchored = await store.getUnanchoredCount();
       if (unanchored > 0) {
@@ -92,6 +164,104 @@ program
     }
   });
 
+// ============================================================================
+// Revoke Command
+// ============================================================================
+
+program
+  .command('revoke <commitment-id>')
+  .description('Revoke a commitment (appends a signed revocation; history is kept)')
+  .requiredOption('-r, --reason <reason>', 'Why the commitment is being revoked')
+  .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
+  .action(async (commitmentId, options) => {
+    try {
+      const store = await AnchorStore.open(options.dataDir);
+      
+      const revocation = await store.revoke(commitmentId, options.reason);
+      
+      console.log('✅ Commitment revoked');
+      console.log(`   Revoked: ${commitmentId}`);
+      console.log(`   Revocation ID: ${revocation.id}`);
+      console.log(`   Reason: ${options.reason}`);
+      console.log(`   Leaf hash: ${revocation.leafHash}`);
+      
+      console.log(`\n💡 Run 'bsv-anchors anchor' to anchor the revocation.`);
+      
+      store.close();
+    } catch (error) {
+      console.error('❌ Failed to revoke commitment:', error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Fulfill Command
+// ============================================================================
+
+program
+  .command('fulfill <commitment-id>')
+  .description('Record that a commitment was carried out (appends a signed fulfillment)')
+  .option('--txid <txid>', 'Transaction that settled it, e.g. a payment')
+  .option('-n, --note <note>', 'Other evidence, e.g. a link to the delivered work')
+  .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
+  .action(async (commitmentId, options) => {
+    try {
+      const store = await AnchorStore.open(options.dataDir);
+      
+      const fulfillment = await store.fulfill(commitmentId, { txid: options.txid, note: options.note });
+      const original = await store.get(commitmentId);
+      
+      console.log('✅ Commitment fulfilled');
+      console.log(`   Fulfilled: ${commitmentId}`);
+      console.log(`   Fulfillment ID: ${fulfillment.id}`);
+      if (options.txid) {
+        console.log(`   Evidence txid: ${options.txid}`);
+      }
+      if (original?.fulfillment?.late) {
+        console.log('   ⚠️  Fulfilled after the deadline');
+      }
+      console.log(`   Leaf hash: ${fulfillment.leafHash}`);
+      
+      console.log(`\n💡 Run 'bsv-anchors anchor' to anchor the fulfillment.`);
+      
+      store.close();
+    } catch (error) {
+      console.error('❌ Failed to fulfill commitment:', error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Decrypt Command
+// ============================================================================
+
+program
+  .command('decrypt <commitment-id>')
+  .description('Decrypt an encrypted commitment with this store\'s key')
+  .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
+  .action(async (commitmentId, options) => {
+    try {
+      const store = await AnchorStore.open(options.dataDir);
+      
+      const payload = await store.decrypt(commitmentId);
+      
+      console.log(`🔓 ${commitmentId}`);
+      console.log(`   Subject: ${payload.subject}`);
+      console.log(`   Content: ${payload.content}`);
+      if (payload.counterparty) {
+        console.log(`   Counterparty: ${payload.counterparty}`);
+      }
+      if (payload.metadata) {
+        console.log(`   Metadata: ${JSON.stringify(payload.metadata)}`);
+      }
+      
+      store.close();
+    } catch (error) {
+      console.error('❌ Failed to decrypt commitment:', error);
+      process.exit(1);
+    }
+  });
+
 // ============================================================================
 // List Command
 // ============================================================================
@@ -102,6 +272,15 @@ program
   .option('-t, --type <type>', 'Filter by type')
   .option('-s, --subject <subject>', 'Filter by subject (substring)')
   .option('-p, --counterparty <id>', 'Filter by counterparty')
+  .option('--revoked', 'Only revoked commitments')
+  .option('--active', 'Only commitments that are not revoked')
+  .option('--latest', 'Only the latest version of amended commitments')
+  .option('--schema <id>', 'Filter by schema')
+  .option('--overdue', 'Only commitments past their deadline and not fulfilled, revoked or superseded')
+  .option('--fulfilled', 'Only fulfilled commitments')
+  .option('--unfulfilled', 'Only commitments that are not fulfilled')
+  .option('--tag <tag...>', 'Only commitments with all of these tags')
+  .option('-w, --where <filter>', `Filter on metadata and tags, e.g. "metadata.priceSats >= 100 and tags contains 'billing'"`)
   .option('-n, --limit <number>', 'Maximum results', '20')
   .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
   .action(async (options) => {
@@ -112,6 +291,13 @@ program
         type: options.type as CommitmentType,
         subject: options.subject,
         counterparty: options.counterparty,
+        revoked: options.revoked ? true : options.active ? false : undefined,
+        latestOnly: options.latest,
+        schema: options.schema,
+        fulfilled: options.fulfilled ? true : options.unfulfilled ? false : undefined,
+        overdue: options.overdue,
+        tags: options.tag,
+        where: options.where,
         limit: parseInt(options.limit, 10),
       };
       
@@ -131,7 +317,40 @@ program
           if (c.payload.counterparty) {
             console.log(`   Counterparty: ${c.payload.counterparty}`);
           }
+          if (c.payload.tags) {
+            console.log(`   Tags: ${c.payload.tags.join(', ')}`);
+          }
+          if (c.payload.metadata?.supersedes) {
+            console.log(`   Supersedes: ${c.payload.metadata.supersedes}`);
+          }
+          for (const attachment of c.payload.attachments ?? []) {
+            console.log(`   Attachment: ${attachment.name ?? attachment.hash} (${attachment.size} bytes)`);
+          }
+          const schema = typeof c.payload.metadata?.schema === 'string'
+            ? store.getSchema(c.payload.metadata.schema)
+            : null;
+          if (schema) {
+            console.log(`   Schema: ${schema.id}`);
+            for (const field of renderFields(schema, c.payload.metadata)) {
+              console.log(`     ${field.label}: ${field.value}`);
+            }
+          }
           console.log(`   Created: ${date}`);
+          if (typeof c.payload.metadata?.dueAt === 'number') {
+            const dueAt = c.payload.metadata.dueAt;
+            const overdue = dueAt < Date.now() && !c.fulfillment && !c.revocation && !c.supersededBy;
+            console.log(`   Due: ${new Date(dueAt).toISOString()}${overdue ? ' ⚠️  overdue' : ''}`);
+          }
+          if (c.fulfillment) {
+            const evidence = c.fulfillment.evidence.txid ?? c.fulfillment.evidence.note;
+            console.log(`   Fulfilled: ${new Date(c.fulfillment.timestamp).toISOString()}${c.fulfillment.late ? ' (late)' : ''}${evidence ? ` (${evidence})` : ''}`);
+          }
+          if (c.revocation) {
+            console.log(`   Revoked: ${new Date(c.revocation.timestamp).toISOString()} (${c.revocation.reason})`);
+          }
+          if (c.supersededBy) {
+            console.log(`   Superseded by: ${c.supersededBy}`);
+          }
           console.log('');
         }
       }
@@ -143,6 +362,182 @@ program
     }
   });
 
+// ============================================================================
+// Search Command
+// ============================================================================
+
+program
+  .command('search <words...>')
+  .description('Search commitments by subject, content and metadata, best matches first')
+  .option('-t, --type <type>', 'Filter by type')
+  .option('--latest', 'Only the latest version of amended commitments')
+  .option('--tag <tag...>', 'Only commitments with all of these tags')
+  .option('-w, --where <filter>', 'Filter on metadata and tags (see: bsv-anchors list --help)')
+  .option('-n, --limit <number>', 'Maximum results', '10')
+  .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
+  .action(async (words: string[], options) => {
+    try {
+      const store = await AnchorStore.open(options.dataDir);
+      
+      const results = await store.search(words.join(' '), {
+        type: options.type as CommitmentType,
+        latestOnly: options.latest,
+        tags: options.tag,
+        where: options.where,
+        limit: parseInt(options.limit, 10),
+      });
+      
+      if (results.length === 0) {
+        console.log('No commitments found.');
+      } else {
+        console.log(`Found ${results.length} commitment(s), best matches first:\n`);
+        
+        for (const { commitment: c, snippet } of results) {
+          console.log(`🔎 ${c.id}`);
+          console.log(`   Type: ${c.type}`);
+          console.log(`   Subject: ${c.payload.subject}`);
+          console.log(`   Match: ${snippet}`);
+          console.log(`   Created: ${new Date(c.timestamp).toISOString()}`);
+          if (c.revocation) {
+            console.log(`   Revoked: ${new Date(c.revocation.timestamp).toISOString()} (${c.revocation.reason})`);
+          }
+          console.log('');
+        }
+      }
+      
+      store.close();
+    } catch (error) {
+      console.error('❌ Search failed:', error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Index Command
+// ============================================================================
+
+program
+  .command('index [path]')
+  .description('Index a metadata path for --where filters, or list indexed paths')
+  .option('--drop', 'Drop the index on the path instead')
+  .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
+  .action(async (path, options) => {
+    try {
+      const store = await AnchorStore.open(options.dataDir);
+      
+      if (!path) {
+        for (const indexed of await store.getMetadataIndexes()) {
+          console.log(`🗂️  ${indexed}`);
+        }
+      } else if (options.drop) {
+        const dropped = await store.dropMetadataIndex(path);
+        console.log(dropped ? `✅ Dropped index on ${path}` : `${path} is not indexed.`);
+      } else {
+        const created = await store.indexMetadata(path);
+        console.log(created ? `✅ Indexed ${path}` : `${path} is already indexed.`);
+      }
+      
+      store.close();
+    } catch (error) {
+      console.error('❌ Index failed:', error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Attachment Commands
+// ============================================================================
+
+program
+  .command('attachment <hash>')
+  .description('Fetch an attachment blob by its SHA-256')
+  .option('-o, --output <file>', 'Output file (default: stdout)')
+  .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
+  .action(async (hash, options) => {
+    try {
+      const store = await AnchorStore.open(options.dataDir);
+      
+      const data = await store.getAttachment(hash);
+      if (!data) {
+        console.error(`❌ Attachment not found: ${hash}`);
+        process.exit(1);
+      }
+      
+      if (options.output) {
+        const { writeFileSync } = await import('fs');
+        writeFileSync(options.output, data);
+        console.log(`✅ Attachment written to ${options.output}`);
+      } else {
+        process.stdout.write(data);
+      }
+      
+      store.close();
+    } catch (error) {
+      console.error('❌ Failed to fetch attachment:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('gc')
+  .description('Delete attachment blobs that no commitment references')
+  .option('--min-age-hours <hours>', 'Keep blobs stored more recently than this', '1')
+  .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
+  .action(async (options) => {
+    try {
+      const store = await AnchorStore.open(options.dataDir);
+      
+      const { removed, freedBytes } = await store.gcAttachments({
+        minAgeMs: parseFloat(options.minAgeHours) * 3_600_000,
+      });
+      
+      console.log(`🧹 Removed ${removed.length} unreferenced attachment(s), freeing ${freedBytes} bytes`);
+      
+      store.close();
+    } catch (error) {
+      console.error('❌ Failed to collect attachments:', error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Schemas Command
+// ============================================================================
+
+program
+  .command('schemas')
+  .description('List commitment schemas, or register a new one')
+  .option('--register <file>', 'Register the schema defined in a JSON file')
+  .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
+  .action(async (options) => {
+    try {
+      const store = await AnchorStore.open(options.dataDir);
+      
+      if (options.register) {
+        const { readFileSync } = await import('fs');
+        const schema = JSON.parse(readFileSync(options.register, 'utf-8'));
+        store.registerSchema(schema);
+        console.log(`✅ Registered schema ${schema.id}`);
+        store.close();
+        return;
+      }
+      
+      for (const schema of store.listSchemas()) {
+        console.log(`📐 ${schema.id} (${schema.type})`);
+        console.log(`   ${schema.description}`);
+        for (const [name, field] of Object.entries(schema.fields)) {
+          console.log(`     ${name}: ${field.type}${field.required ? ' (required)' : ''} — ${field.label}`);
+        }
+        console.log('');
+      }
+      
+      store.close();
+    } catch (error) {
+      console.error('❌ Failed to list schemas:', error);
+      process.exit(1);
+    }
+  });
+
 // ============================================================================
 // Status Command
 // ============================================================================
@@ -196,12 +591,44 @@ program
   .command('prove <commitment-id>')
   .description('Generate a Merkle proof for a commitment')
   .option('-o, --output <file>', 'Output file (default: stdout)')
+  .option('--compact', 'Output compact base64url encoding instead of JSON')
+  .option('--not-revoked', 'Include proof the commitment is not revoked as of the latest anchor')
+  .option('--disclose <fields>', 'Reveal only these payload fields of a salted commitment (comma-separated)')
+  .option('--attachments', 'Bundle the referenced attachments (JSON output only)')
   .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
   .action(async (commitmentId, options) => {
     try {
       const store = await AnchorStore.open(options.dataDir);
       
-      const proof = await store.prove(commitmentId);
+      if (options.disclose) {
+        const redacted = await store.proveRedacted(commitmentId, options.disclose.split(','));
+        if (!redacted) {
+          console.error('❌ Could not generate proof. Commitment may not exist or be anchored yet.');
+          process.exit(1);
+        }
+        
+        const redactedJson = JSON.stringify(redacted, null, 2);
+        if (options.output) {
+          const { writeFileSync } = await import('fs');
+          writeFileSync(options.output, redactedJson);
+          console.log(`✅ Redacted proof written to ${options.output}`);
+        } else {
+          console.log(redactedJson);
+        }
+        
+        store.close();
+        return;
+      }
+      
+      if (options.attachments && options.compact) {
+        console.error('❌ Attachments can only be bundled in JSON proofs.');
+        process.exit(1);
+      }
+      
+      const proof = await store.prove(commitmentId, {
+        notRevoked: options.notRevoked,
+        attachments: options.attachments,
+      });
       
       if (!proof) {
         console.error('❌ Could not generate proof.');
@@ -210,7 +637,9 @@ program
         process.exit(1);
       }
       
-      const proofJson = JSON.stringify(proof, null, 2);
+      const proofJson = options.compact
+        ? encodeCommitmentProofString(proof)
+        : JSON.stringify(proof, null, 2);
       
       if (options.output) {
         const { writeFileSync } = await import('fs');
@@ -233,25 +662,34 @@ program
 
 program
   .command('verify <proof-file>')
-  .description('Verify a commitment proof')
+  .description('Verify a commitment proof (JSON or compact encoding)')
   .option('-k, --public-key <hex>', 'Public key to verify signature (optional)')
   .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
   .action(async (proofFile, options) => {
     try {
       const { readFileSync } = await import('fs');
-      const proofJson = readFileSync(proofFile, 'utf-8');
-      const proof = JSON.parse(proofJson);
+      const proofText = readFileSync(proofFile, 'utf-8').trim();
+      const proof = proofText.startsWith('{')
+        ? JSON.parse(proofText)
+        : decodeCommitmentProofString(proofText);
+      
+      // Redacted proofs carry the hashes of their withheld fields
+      const redacted = proof.commitment.withheld !== undefined;
       
       let isValid: boolean;
       let verificationLevel: string;
       
       if (options.publicKey) {
         // Full verification with signature
-        isValid = await AnchorStore.verify(proof, options.publicKey);
+        isValid = redacted
+          ? await AnchorStore.verifyRedacted(proof, options.publicKey)
+          : await AnchorStore.verify(proof, options.publicKey);
         verificationLevel = 'Full (inclusion + signature)';
       } else {
         // Inclusion-only verification
-        isValid = await AnchorStore.verifyInclusion(proof);
+        isValid = redacted
+          ? await AnchorStore.verifyRedactedInclusion(proof)
+          : await AnchorStore.verifyInclusion(proof);
         verificationLevel = 'Inclusion only (signature not verified)';
       }
       
@@ -262,7 +700,13 @@ program
         console.log('📋 Commitment:');
         console.log(`   ID: ${proof.commitment.id}`);
         console.log(`   Type: ${proof.commitment.type}`);
-        console.log(`   Subject: ${proof.commitment.payload.subject}`);
+        console.log(`   Subject: ${proof.commitment.payload.subject ?? '(withheld)'}`);
+        if (redacted) {
+          console.log(`   Withheld fields: ${Object.keys(proof.commitment.withheld).join(', ') || '(none)'}`);
+        }
+        if (proof.attachments) {
+          console.log(`   Attachments: ${Object.keys(proof.attachments).length} bundled, hashes match`);
+        }
         console.log('');
         console.log('⚓ Anchor:');
         console.log(`   TXID: ${proof.anchor.txid}`);
@@ -498,6 +942,258 @@ program
     }
   });
 
+// ============================================================================
+// Strategy Command
+// ============================================================================
+
+program
+  .command('strategy [strategy]')
+  .description('Show or set the automatic anchoring strategy (manual|time|count|importance)')
+  .option('--interval <hours>', 'Time strategy: hours between anchors')
+  .option('--threshold <count>', 'Count strategy: unanchored commitments before anchoring')
+  .option('--types <types>', 'Importance strategy: comma-separated types to anchor immediately')
+  .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
+  .action(async (strategy, options) => {
+    try {
+      const store = await AnchorStore.open(options.dataDir);
+      
+      if (strategy) {
+        store.setAnchorStrategy({
+          anchorStrategy: strategy as AnchorStrategy,
+          anchorIntervalHours: options.interval ? parseFloat(options.interval) : undefined,
+          anchorThreshold: options.threshold ? parseInt(options.threshold, 10) : undefined,
+          immediateTypes: options.types ? options.types.split(',') as CommitmentType[] : undefined,
+        });
+        console.log('✅ Anchoring strategy updated');
+      }
+      
+      const settings = store.getAnchorStrategy();
+      console.log(`⏱️  Strategy: ${settings.anchorStrategy}`);
+      if (settings.anchorIntervalHours !== undefined) {
+        console.log(`   Interval: ${settings.anchorIntervalHours} hour(s)`);
+      }
+      if (settings.anchorThreshold !== undefined) {
+        console.log(`   Threshold: ${settings.anchorThreshold} commitment(s)`);
+      }
+      if (settings.immediateTypes) {
+        console.log(`   Immediate types: ${settings.immediateTypes.join(', ')}`);
+      }
+      
+      store.close();
+    } catch (error) {
+      console.error('❌ Failed to update strategy:', error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Audit Command
+// ============================================================================
+
+program
+  .command('audit')
+  .description('Check tree integrity against commitments and anchors')
+  .option('--repair', 'Rebuild leaf hashes, tree nodes and tree state from commitments')
+  .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
+  .action(async (options) => {
+    try {
+      const store = await AnchorStore.open(options.dataDir, { repairTree: false });
+      const report = await store.audit({ repair: options.repair });
+      store.close();
+      
+      console.log(`🔍 Audited ${report.commitmentCount} commitment(s) and ${report.anchorCount} anchor(s)\n`);
+      
+      if (report.issues.length === 0) {
+        console.log('✅ No issues found');
+        return;
+      }
+      
+      for (const issue of report.issues) {
+        const marker = issue.repairable ? '🔧' : '❌';
+        console.log(`${marker} [${issue.kind}] ${issue.message}`);
+      }
+      console.log('');
+      
+      const unrepairable = report.issues.filter(issue => !issue.repairable).length;
+      
+      if (report.repaired) {
+        console.log('✅ Rebuilt leaf hashes, tree nodes and tree state');
+      } else if (options.repair && report.issues.some(issue => issue.kind === 'tree_index')) {
+        console.log('⚠️  Not repaired: tree indices are out of sequence');
+      } else if (!options.repair && unrepairable < report.issues.length) {
+        console.log('💡 Run with --repair to rebuild derived tables');
+      }
+      
+      if (unrepairable > 0) {
+        console.log(`${unrepairable} issue(s) cannot be repaired automatically`);
+      }
+      if (unrepairable > 0 || !report.repaired) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('❌ Audit failed:', error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Export & Import Commands
+// ============================================================================
+
+program
+  .command('export <file>')
+  .description('Export the whole store as a signed bundle for another host')
+  .option('--passphrase <passphrase>', 'Include the identity key, encrypted with this passphrase')
+  .option('--attachments', 'Include the referenced attachment blobs')
+  .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
+  .action(async (file, options) => {
+    try {
+      const store = await AnchorStore.open(options.dataDir);
+      const bundle = await store.exportBundle({
+        passphrase: options.passphrase,
+        attachments: options.attachments,
+      });
+      store.close();
+      
+      const { writeFileSync } = await import('fs');
+      writeFileSync(file, JSON.stringify(bundle, null, 2), { mode: 0o600 });
+      
+      console.log(`✅ Exported ${bundle.commitments.length} commitment(s) and ${bundle.anchors.length} anchor(s) to ${file}`);
+      console.log(`   Signed by: ${bundle.publicKey}`);
+      if (bundle.key) {
+        console.log('   Includes the encrypted identity key');
+      } else {
+        console.log('   Identity key not included (use --passphrase to include it)');
+      }
+    } catch (error) {
+      console.error('❌ Export failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('import <file>')
+  .description('Restore a bundle into an empty store, checking it against every anchor')
+  .option('--passphrase <passphrase>', 'Passphrase the bundled identity key was encrypted with')
+  .option('-k, --public-key <hex>', 'Only accept a bundle signed by this key')
+  .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
+  .action(async (file, options) => {
+    try {
+      const { readFileSync } = await import('fs');
+      const bundle = JSON.parse(readFileSync(file, 'utf-8'));
+      
+      const store = await AnchorStore.importBundle(bundle, options.dataDir, {
+        passphrase: options.passphrase,
+        publicKey: options.publicKey,
+      });
+      
+      console.log(`✅ Imported ${await store.count()} commitment(s) and ${(await store.listAnchors()).length} anchor(s)`);
+      console.log(`   Root: ${await store.getRoot() ?? '(empty)'}`);
+      console.log(`   Bundle signed by: ${bundle.publicKey}`);
+      if (!options.publicKey) {
+        console.log('   ⚠️  No --public-key given: check that this is the identity you expect');
+      }
+      if (store.getPublicKey() !== bundle.publicKey) {
+        console.log(`   ⚠️  This store signs with a different key: ${store.getPublicKey()}`);
+      }
+      
+      store.close();
+    } catch (error) {
+      console.error('❌ Import failed:', error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Backup & Restore Commands
+// ============================================================================
+
+program
+  .command('backup [file]')
+  .description('Back up the database while agents keep running')
+  .option('--retain <count>', 'Keep only this many backups in the backups folder')
+  .option('--list', 'List backups instead of taking one')
+  .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
+  .action(async (file, options) => {
+    try {
+      const { join } = await import('path');
+      const { listBackups, pruneBackups, BACKUP_DIR } = await import('../store/backup.js');
+      
+      const store = await AnchorStore.open(options.dataDir);
+      const backupDir = join(store.getDataDir(), BACKUP_DIR);
+      
+      if (options.list) {
+        store.close();
+        
+        const backups = listBackups(backupDir);
+        if (backups.length === 0) {
+          console.log('No backups yet.');
+          return;
+        }
+        for (const backup of backups) {
+          console.log(`💾 ${new Date(backup.createdAt).toISOString()}  ${backup.size} bytes  ${backup.path}`);
+        }
+        return;
+      }
+      
+      const backup = await store.backup(file);
+      store.close();
+      
+      console.log(`✅ Backed up to ${backup.path} (${backup.size} bytes)`);
+      
+      if (options.retain) {
+        const removed = pruneBackups(backupDir, parseInt(options.retain, 10));
+        if (removed.length > 0) {
+          console.log(`🧹 Removed ${removed.length} old backup(s)`);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Backup failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('restore [file]')
+  .description('Restore the database from a backup, checking it against its anchors')
+  .option('--at <date>', 'Restore the latest backup taken at or before this time (ISO 8601)')
+  .option('-d, --data-dir <path>', 'Data directory path', '~/.bsv-anchors')
+  .action(async (file, options) => {
+    try {
+      let backupPath = file;
+      
+      if (!backupPath) {
+        const { join } = await import('path');
+        const { findBackup, BACKUP_DIR } = await import('../store/backup.js');
+        
+        const at = options.at ? Date.parse(options.at) : Date.now();
+        if (Number.isNaN(at)) {
+          console.error(`❌ Invalid date: ${options.at}`);
+          process.exit(1);
+        }
+        
+        const backup = findBackup(join(options.dataDir, BACKUP_DIR), at);
+        if (!backup) {
+          console.error(`❌ No backup taken at or before ${new Date(at).toISOString()}`);
+          process.exit(1);
+        }
+        backupPath = backup.path;
+      }
+      
+      const store = await AnchorStore.restoreBackup(backupPath, options.dataDir);
+      
+      console.log(`✅ Restored ${backupPath}`);
+      console.log(`   Commitments: ${await store.count()}`);
+      console.log(`   Anchors: ${(await store.listAnchors()).length}, all matching the restored tree`);
+      console.log('   The replaced database was backed up first');
+      
+      store.close();
+    } catch (error) {
+      console.error('❌ Restore failed:', error);
+      process.exit(1);
+    }
+  });
+
 // ============================================================================
 // Wallet Command
 // ============================================================================
@@ -0,0 +1,206 @@
+/**
+ * bsv-anchors - Payload Encryption
+ * 
+ * ECIES over secp256k1, using the same identity keys as signing.
+ * Data is encrypted once with a random content key; that key is then
+ * wrapped for each recipient with a secret shared between a one-time
+ * ephemeral key and the recipient's public key.
+ */
+
+import * as secp from '@noble/secp256k1';
+import { sha256 } from '@noble/hashes/sha256';
+import { hkdf } from '@noble/hashes/hkdf';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import type { EncryptionEnvelope, PassphraseEnvelope } from '../types.js';
+import { getPublicKey } from './signing.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ENCRYPTION_SCHEME = 'ecies-secp256k1-aes256gcm';
+export const PASSPHRASE_SCHEME = 'scrypt-aes256gcm';
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const SALT_LENGTH = 16;
+
+// ============================================================================
+// Encryption & Decryption
+// ============================================================================
+
+/**
+ * Encrypt data so that any of the recipients can decrypt it.
+ * 
+ * @param plaintext - Data to encrypt
+ * @param recipientPublicKeys - Compressed secp256k1 public keys (hex)
+ * @returns Base64 ciphertext and the envelope needed to decrypt it
+ */
+export function encryptForRecipients(
+  plaintext: string,
+  recipientPublicKeys: string[]
+): { ciphertext: string; envelope: EncryptionEnvelope } {
+  const recipients = [...new Set(recipientPublicKeys)];
+  if (recipients.length === 0) {
+    throw new Error('At least one recipient is required');
+  }
+  
+  const contentKey = randomBytes(KEY_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const ciphertext = aesEncrypt(contentKey, iv, utf8ToBytes(plaintext));
+  
+  const ephemeralKey = secp.utils.randomPrivateKey();
+  const ephemeralPublicKey = bytesToHex(secp.getPublicKey(ephemeralKey, true));
+  
+  return {
+    ciphertext: Buffer.from(ciphertext).toString('base64'),
+    envelope: {
+      scheme: ENCRYPTION_SCHEME,
+      ephemeralPublicKey,
+      iv: bytesToHex(iv),
+      recipients: recipients.map(publicKey => {
+        const wrapKey = deriveWrapKey(ephemeralKey, publicKey, ephemeralPublicKey, publicKey);
+        const wrapIv = randomBytes(IV_LENGTH);
+        return {
+          publicKey,
+          encryptedKey: bytesToHex(wrapIv) + bytesToHex(aesEncrypt(wrapKey, wrapIv, contentKey)),
+        };
+      }),
+    },
+  };
+}
+
+/**
+ * Decrypt data encrypted with encryptForRecipients().
+ * 
+ * @param ciphertext - Base64 ciphertext
+ * @param envelope - Envelope returned with the ciphertext
+ * @param privateKeyHex - Private key of one of the recipients
+ * @returns The plaintext
+ */
+export function decryptWithKey(
+  ciphertext: string,
+  envelope: EncryptionEnvelope,
+  privateKeyHex: string
+): string {
+  if (envelope.scheme !== ENCRYPTION_SCHEME) {
+    throw new Error(`Unsupported encryption scheme: ${envelope.scheme}`);
+  }
+  
+  const publicKey = getPublicKey(privateKeyHex);
+  const recipient = envelope.recipients.find(r => r.publicKey === publicKey);
+  if (!recipient) {
+    throw new Error('This key is not a recipient of the encrypted data');
+  }
+  
+  try {
+    const wrapped = hexToBytes(recipient.encryptedKey);
+    const wrapKey = deriveWrapKey(
+      hexToBytes(privateKeyHex),
+      envelope.ephemeralPublicKey,
+      envelope.ephemeralPublicKey,
+      publicKey
+    );
+    const contentKey = aesDecrypt(wrapKey, wrapped.slice(0, IV_LENGTH), wrapped.slice(IV_LENGTH));
+    const plaintext = aesDecrypt(
+      contentKey,
+      hexToBytes(envelope.iv),
+      new Uint8Array(Buffer.from(ciphertext, 'base64'))
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error('Failed to decrypt: data or envelope has been tampered with');
+  }
+}
+
+// ============================================================================
+// Passphrase Encryption
+// ============================================================================
+
+/**
+ * Encrypt data with a key derived from a passphrase (scrypt).
+ */
+export function encryptWithPassphrase(plaintext: string, passphrase: string): PassphraseEnvelope {
+  if (!passphrase) {
+    throw new Error('Passphrase must not be empty');
+  }
+  
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const key = scryptSync(passphrase, salt, KEY_LENGTH);
+  
+  return {
+    scheme: PASSPHRASE_SCHEME,
+    salt: bytesToHex(salt),
+    iv: bytesToHex(iv),
+    ciphertext: Buffer.from(aesEncrypt(key, iv, utf8ToBytes(plaintext))).toString('base64'),
+  };
+}
+
+/**
+ * Decrypt data encrypted with encryptWithPassphrase().
+ */
+export function decryptWithPassphrase(envelope: PassphraseEnvelope, passphrase: string): string {
+  if (envelope.scheme !== PASSPHRASE_SCHEME) {
+    throw new Error(`Unsupported encryption scheme: ${envelope.scheme}`);
+  }
+  
+  try {
+    const key = scryptSync(passphrase, hexToBytes(envelope.salt), KEY_LENGTH);
+    const plaintext = aesDecrypt(
+      key,
+      hexToBytes(envelope.iv),
+      new Uint8Array(Buffer.from(envelope.ciphertext, 'base64'))
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error('Failed to decrypt: wrong passphrase or tampered data');
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Derive the key that wraps the content key for one recipient.
+ * ECDH is symmetric, so the sender (ephemeral private key, recipient public
+ * key) and the recipient (own private key, ephemeral public key) get the
+ * same secret. Both public keys are bound into the derivation.
+ */
+function deriveWrapKey(
+  privateKey: Uint8Array,
+  otherPublicKeyHex: string,
+  ephemeralPublicKeyHex: string,
+  recipientPublicKeyHex: string
+): Uint8Array {
+  let shared: Uint8Array;
+  try {
+    shared = secp.getSharedSecret(privateKey, otherPublicKeyHex, true).slice(1);
+  } catch {
+    throw new Error(`Invalid public key: ${otherPublicKeyHex}`);
+  }
+  
+  return hkdf(
+    sha256,
+    shared,
+    hexToBytes(ephemeralPublicKeyHex),
+    utf8ToBytes(`bsv-anchors/ecies/${recipientPublicKeyHex}`),
+    KEY_LENGTH
+  );
+}
+
+function aesEncrypt(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const body = Buffer.concat([cipher.update(data), cipher.final()]);
+  return new Uint8Array(Buffer.concat([body, cipher.getAuthTag()]));
+}
+
+function aesDecrypt(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(data.slice(data.length - TAG_LENGTH));
+  const body = data.slice(0, data.length - TAG_LENGTH);
+  return new Uint8Array(Buffer.concat([decipher.update(body), decipher.final()]));
+}
@@ -4,7 +4,16 @@ export {
   sign,
   verify,
   loadOrCreateKey,
+  saveKey,
   keyExists,
   type KeyPair,
   type StoredKey,
 } from './signing.js';
+export {
+  ENCRYPTION_SCHEME,
+  PASSPHRASE_SCHEME,
+  encryptForRecipients,
+  decryptWithKey,
+  encryptWithPassphrase,
+  decryptWithPassphrase,
+} from './encryption.js';
@@ -121,6 +121,16 @@ export function loadOrCreateKey(dataDir: string): KeyPair {
   
   // Create new key
   const keyPair = generateKeyPair();
+  saveKey(dataDir, keyPair);
+  
+  return keyPair;
+}
+
+/**
+ * Save a key pair as the identity key of a data directory.
+ */
+export function saveKey(dataDir: string, keyPair: KeyPair): void {
+  const keyPath = join(dataDir, KEY_FILE);
   
   // Ensure directory exists
   mkdirSync(dirname(keyPath), { recursive: true });
@@ -132,8 +142,6 @@ export function loadOrCreateKey(dataDir: string): KeyPair {
     keyType: 'secp256k1',
   };
   writeFileSync(keyPath, JSON.stringify(stored, null, 2), { mode: 0o600 });
-  
-  return keyPair;
 }
 
 /**
@@ -0,0 +1,492 @@
+/**
+ * bsv-anchors - Compact Binary Proof Encoding
+ * 
+ * Versioned binary form for Merkle and commitment proofs: raw 32-byte
+ * hashes, a bitfield for sibling positions and varint integers.
+ * 
+ * Layout: <kind:1> <format:1> <body>
+ */
+
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import type {
+  AnchorReference,
+  Commitment,
+  CommitmentProof,
+  MerkleProof,
+  SparseCommitmentProof,
+  TreeVersion,
+} from '../types.js';
+import { sortObjectKeys } from '../merkle/tree.js';
+
+// ============================================================================
+// Format Constants
+// ============================================================================
+
+/** Binary format version */
+export const PROOF_FORMAT_VERSION = 0x01;
+
+const KIND_MERKLE_PROOF = 0x01;
+const KIND_COMMITMENT_PROOF = 0x02;
+
+/** Anchor flags */
+const ANCHOR_HAS_BLOCK_HEIGHT = 0x01;
+const ANCHOR_ROOT_DIFFERS = 0x02;
+
+/** Commitment flags, set in the same byte as the anchor flags */
+const COMMITMENT_HAS_SIGNERS = 0x04;
+const COMMITMENT_HAS_GROUP = 0x08;
+const COMMITMENT_HAS_SALTS = 0x10;
+
+/** Proof flags, set in the same byte as the anchor flags */
+const ANCHOR_HAS_SPARSE_ROOT = 0x20;
+const PROOF_HAS_NOT_REVOKED = 0x40;
+
+/** Tagged string encodings */
+const STRING_HEX = 0x00;
+const STRING_UTF8 = 0x01;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Encode a Merkle proof to compact binary.
+ */
+export function encodeMerkleProof(proof: MerkleProof): Uint8Array {
+  const writer = new ByteWriter();
+  writer.byte(KIND_MERKLE_PROOF);
+  writer.byte(PROOF_FORMAT_VERSION);
+  writeMerkleProof(writer, proof);
+  return writer.finish();
+}
+
+/**
+ * Decode a Merkle proof from compact binary.
+ */
+export function decodeMerkleProof(data: Uint8Array): MerkleProof {
+  const reader = new ByteReader(data);
+  readHeader(reader, KIND_MERKLE_PROOF);
+  const proof = readMerkleProof(reader);
+  reader.end();
+  return proof;
+}
+
+/**
+ * Encode a commitment proof to compact binary.
+ */
+export function encodeCommitmentProof(proof: CommitmentProof): Uint8Array {
+  const writer = new ByteWriter();
+  writer.byte(KIND_COMMITMENT_PROOF);
+  writer.byte(PROOF_FORMAT_VERSION);
+  
+  writeMerkleProof(writer, proof.merkleProof);
+  
+  // Commitment (leaf hash and tree index are implied by the Merkle proof)
+  const { commitment } = proof;
+  writer.string(commitment.id);
+  writer.string(commitment.type);
+  writer.varint(commitment.timestamp);
+  writer.taggedString(commitment.signature);
+  writer.string(JSON.stringify(sortObjectKeys(commitment.payload)));
+  
+  // Anchor (root is only written when it differs from the proof's root)
+  const { anchor } = proof;
+  const rootDiffers = anchor.rootHash !== proof.merkleProof.rootHash;
+  let flags = 0;
+  if (anchor.blockHeight !== undefined) flags |= ANCHOR_HAS_BLOCK_HEIGHT;
+  if (rootDiffers) flags |= ANCHOR_ROOT_DIFFERS;
+  if (commitment.signers) flags |= COMMITMENT_HAS_SIGNERS;
+  if (commitment.group) flags |= COMMITMENT_HAS_GROUP;
+  if (commitment.salts) flags |= COMMITMENT_HAS_SALTS;
+  if (anchor.sparseRoot !== undefined) flags |= ANCHOR_HAS_SPARSE_ROOT;
+  if (proof.notRevoked) flags |= PROOF_HAS_NOT_REVOKED;
+  
+  writer.byte(flags);
+  writer.taggedString(anchor.txid);
+  if (anchor.blockHeight !== undefined) writer.varint(anchor.blockHeight);
+  writer.varint(anchor.timestamp);
+  writer.varint(anchor.commitmentCount);
+  if (rootDiffers) writer.hash(anchor.rootHash);
+  if (anchor.sparseRoot !== undefined) writer.hash(anchor.sparseRoot);
+  
+  // Co-signers (public key and signature of each party)
+  if (commitment.signers) {
+    writer.varint(commitment.signers.length);
+    for (const signer of commitment.signers) {
+      writer.taggedString(signer.publicKey);
+      writer.taggedString(signer.signature);
+    }
+  }
+  
+  // Group policy (threshold, then participant keys)
+  if (commitment.group) {
+    writer.varint(commitment.group.threshold);
+    writer.varint(commitment.group.participants.length);
+    for (const participant of commitment.group.participants) {
+      writer.taggedString(participant);
+    }
+  }
+  
+  // Field salts (salted commitments)
+  if (commitment.salts) {
+    const names = Object.keys(commitment.salts);
+    writer.varint(names.length);
+    for (const name of names) {
+      writer.string(name);
+      writer.taggedString(commitment.salts[name]);
+    }
+  }
+  
+  // Non-revocation proof against a later anchor
+  if (proof.notRevoked) {
+    writeSparseCommitmentProof(writer, proof.notRevoked);
+  }
+  
+  return writer.finish();
+}
+
+/**
+ * Decode a commitment proof from compact binary.
+ */
+export function decodeCommitmentProof(data: Uint8Array): CommitmentProof {
+  const reader = new ByteReader(data);
+  readHeader(reader, KIND_COMMITMENT_PROOF);
+  
+  const merkleProof = readMerkleProof(reader);
+  
+  const commitment: Commitment = {
+    id: reader.string(),
+    type: reader.string() as Commitment['type'],
+    timestamp: reader.varint(),
+    signature: reader.taggedString(),
+    payload: JSON.parse(reader.string()),
+    leafHash: merkleProof.leafHash,
+    treeIndex: merkleProof.leafIndex,
+  };
+  
+  const flags = reader.byte();
+  const txid = reader.taggedString();
+  const blockHeight = flags & ANCHOR_HAS_BLOCK_HEIGHT ? reader.varint() : undefined;
+  const timestamp = reader.varint();
+  const commitmentCount = reader.varint();
+  const rootHash = flags & ANCHOR_ROOT_DIFFERS ? reader.hash() : merkleProof.rootHash;
+  const sparseRoot = flags & ANCHOR_HAS_SPARSE_ROOT ? reader.hash() : undefined;
+  
+  if (flags & COMMITMENT_HAS_SIGNERS) {
+    const count = reader.varint();
+    commitment.signers = [];
+    for (let i = 0; i < count; i++) {
+      commitment.signers.push({ publicKey: reader.taggedString(), signature: reader.taggedString() });
+    }
+  }
+  
+  if (flags & COMMITMENT_HAS_GROUP) {
+    const threshold = reader.varint();
+    const count = reader.varint();
+    const participants: string[] = [];
+    for (let i = 0; i < count; i++) {
+      participants.push(reader.taggedString());
+    }
+    commitment.group = { participants, threshold };
+  }
+  
+  if (flags & COMMITMENT_HAS_SALTS) {
+    const count = reader.varint();
+    commitment.salts = {};
+    for (let i = 0; i < count; i++) {
+      commitment.salts[reader.string()] = reader.taggedString();
+    }
+  }
+  
+  const notRevoked = flags & PROOF_HAS_NOT_REVOKED ? readSparseCommitmentProof(reader) : undefined;
+  
+  reader.end();
+  
+  return {
+    commitment,
+    merkleProof,
+    anchor: {
+      txid,
+      blockHeight,
+      timestamp,
+      rootHash,
+      commitmentCount,
+      ...(sparseRoot !== undefined && { sparseRoot }),
+    },
+    ...(notRevoked && { notRevoked }),
+  };
+}
+
+/**
+ * Encode a commitment proof as a base64url string (URL and QR friendly).
+ */
+export function encodeCommitmentProofString(proof: CommitmentProof): string {
+  return Buffer.from(encodeCommitmentProof(proof)).toString('base64url');
+}
+
+/**
+ * Decode a commitment proof from its base64url string form.
+ */
+export function decodeCommitmentProofString(encoded: string): CommitmentProof {
+  if (!/^[A-Za-z0-9_-]+$/.test(encoded.trim())) {
+    throw new Error('Invalid proof string: expected base64url');
+  }
+  return decodeCommitmentProof(new Uint8Array(Buffer.from(encoded.trim(), 'base64url')));
+}
+
+// ============================================================================
+// Merkle Proof Body
+// ============================================================================
+
+/**
+ * Body: <treeVersion:1> <leafIndex:varint> <treeSize:varint> <leaf:32>
+ *       <root:32> <count:varint> <positions:ceil(count/8)> <siblings:32*count>
+ * 
+ * Position bit i (LSB first) is set when sibling i is on the left.
+ */
+function writeMerkleProof(writer: ByteWriter, proof: MerkleProof): void {
+  writer.byte(proof.version ?? 1);
+  writer.varint(proof.leafIndex);
+  writer.varint(proof.treeSize);
+  writer.hash(proof.leafHash);
+  writer.hash(proof.rootHash);
+  writer.varint(proof.siblings.length);
+  
+  const positions = new Uint8Array(Math.ceil(proof.siblings.length / 8));
+  proof.siblings.forEach((sibling, i) => {
+    if (sibling.position === 'left') positions[i >> 3] |= 1 << (i & 7);
+  });
+  writer.bytes(positions);
+  
+  for (const sibling of proof.siblings) {
+    writer.hash(sibling.hash);
+  }
+}
+
+function readMerkleProof(reader: ByteReader): MerkleProof {
+  const version = reader.byte();
+  if (version !== 1 && version !== 2) {
+    throw new Error(`Unsupported tree version: ${version}`);
+  }
+  
+  const leafIndex = reader.varint();
+  const treeSize = reader.varint();
+  const leafHash = reader.hash();
+  const rootHash = reader.hash();
+  const count = reader.varint();
+  const positions = reader.bytes(Math.ceil(count / 8));
+  
+  const siblings: MerkleProof['siblings'] = [];
+  for (let i = 0; i < count; i++) {
+    const left = (positions[i >> 3] >> (i & 7)) & 1;
+    siblings.push({ hash: reader.hash(), position: left ? 'left' : 'right' });
+  }
+  
+  return {
+    leafHash,
+    leafIndex,
+    treeSize,
+    siblings,
+    rootHash,
+    version: version as TreeVersion,
+  };
+}
+
+// ============================================================================
+// Sparse Proof Body
+// ============================================================================
+
+/**
+ * Body: <key:32> <hasValue:1> [value:tagged] <count:varint> <siblings:32*count>
+ *       <bitmap:32> <root:32> <anchor>
+ * 
+ * Anchor: <flags:1> <txid:tagged> [blockHeight:varint] <timestamp:varint>
+ *         <commitmentCount:varint> <root:32> [sparseRoot:32]
+ */
+function writeSparseCommitmentProof(writer: ByteWriter, proof: SparseCommitmentProof): void {
+  const { sparseProof, anchor } = proof;
+  writer.hash(sparseProof.key);
+  writer.byte(sparseProof.value !== null ? 1 : 0);
+  if (sparseProof.value !== null) writer.taggedString(sparseProof.value);
+  writer.varint(sparseProof.siblings.length);
+  for (const sibling of sparseProof.siblings) {
+    writer.hash(sibling);
+  }
+  writer.hash(sparseProof.bitmap);
+  writer.hash(sparseProof.rootHash);
+  
+  let flags = 0;
+  if (anchor.blockHeight !== undefined) flags |= ANCHOR_HAS_BLOCK_HEIGHT;
+  if (anchor.sparseRoot !== undefined) flags |= ANCHOR_HAS_SPARSE_ROOT;
+  writer.byte(flags);
+  writer.taggedString(anchor.txid);
+  if (anchor.blockHeight !== undefined) writer.varint(anchor.blockHeight);
+  writer.varint(anchor.timestamp);
+  writer.varint(anchor.commitmentCount);
+  writer.hash(anchor.rootHash);
+  if (anchor.sparseRoot !== undefined) writer.hash(anchor.sparseRoot);
+}
+
+function readSparseCommitmentProof(reader: ByteReader): SparseCommitmentProof {
+  const key = reader.hash();
+  const value = reader.byte() ? reader.taggedString() : null;
+  const count = reader.varint();
+  const siblings: string[] = [];
+  for (let i = 0; i < count; i++) {
+    siblings.push(reader.hash());
+  }
+  const bitmap = reader.hash();
+  const rootHash = reader.hash();
+  
+  const flags = reader.byte();
+  const anchor: AnchorReference = {
+    txid: reader.taggedString(),
+    blockHeight: flags & ANCHOR_HAS_BLOCK_HEIGHT ? reader.varint() : undefined,
+    timestamp: reader.varint(),
+    commitmentCount: reader.varint(),
+    rootHash: reader.hash(),
+  };
+  if (flags & ANCHOR_HAS_SPARSE_ROOT) {
+    anchor.sparseRoot = reader.hash();
+  }
+  
+  return {
+    sparseProof: { key, value, siblings, bitmap, rootHash },
+    anchor,
+  };
+}
+
+function readHeader(reader: ByteReader, expectedKind: number): void {
+  const kind = reader.byte();
+  if (kind !== expectedKind) {
+    throw new Error(`Unexpected proof kind: ${kind} (expected ${expectedKind})`);
+  }
+  
+  const format = reader.byte();
+  if (format !== PROOF_FORMAT_VERSION) {
+    throw new Error(`Unsupported proof format version: ${format}`);
+  }
+}
+
+// ============================================================================
+// Byte Writer / Reader
+// ============================================================================
+
+class ByteWriter {
+  private chunks: number[] = [];
+  
+  byte(value: number): void {
+    this.chunks.push(value & 0xff);
+  }
+  
+  bytes(data: Uint8Array): void {
+    for (const b of data) this.chunks.push(b);
+  }
+  
+  /**
+   * Unsigned LEB128. Uses arithmetic instead of bit operations so values
+   * above 2^32 (e.g. millisecond timestamps) encode correctly.
+   */
+  varint(value: number): void {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new Error(`Cannot encode ${value} as varint`);
+    }
+    
+    while (value >= 0x80) {
+      this.chunks.push((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.chunks.push(value);
+  }
+  
+  hash(hex: string): void {
+    if (!/^[0-9a-f]{64}$/i.test(hex)) {
+      throw new Error(`Invalid hash: ${hex}`);
+    }
+    this.bytes(hexToBytes(hex.toLowerCase()));
+  }
+  
+  string(value: string): void {
+    const data = new TextEncoder().encode(value);
+    this.varint(data.length);
+    this.bytes(data);
+  }
+  
+  /**
+   * Strings that are usually lowercase hex (txids, signatures) are
+   * stored as raw bytes; anything else falls back to UTF-8.
+   */
+  taggedString(value: string): void {
+    if (value.length > 0 && value.length % 2 === 0 && /^[0-9a-f]+$/.test(value)) {
+      this.byte(STRING_HEX);
+      const data = hexToBytes(value);
+      this.varint(data.length);
+      this.bytes(data);
+    } else {
+      this.byte(STRING_UTF8);
+      this.string(value);
+    }
+  }
+  
+  finish(): Uint8Array {
+    return new Uint8Array(this.chunks);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+  
+  constructor(private data: Uint8Array) {}
+  
+  byte(): number {
+    if (this.offset >= this.data.length) {
+      throw new Error('Unexpected end of proof data');
+    }
+    return this.data[this.offset++];
+  }
+  
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.data.length) {
+      throw new Error('Unexpected end of proof data');
+    }
+    const slice = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+  
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    
+    for (;;) {
+      const b = this.byte();
+      value += (b & 0x7f) * scale;
+      if (!Number.isSafeInteger(value)) {
+        throw new Error('Varint too large');
+      }
+      if ((b & 0x80) === 0) return value;
+      scale *= 0x80;
+    }
+  }
+  
+  hash(): string {
+    return bytesToHex(this.bytes(32));
+  }
+  
+  string(): string {
+    return new TextDecoder().decode(this.bytes(this.varint()));
+  }
+  
+  taggedString(): string {
+    const tag = this.byte();
+    if (tag === STRING_HEX) return bytesToHex(this.bytes(this.varint()));
+    if (tag === STRING_UTF8) return this.string();
+    throw new Error(`Invalid string tag: ${tag}`);
+  }
+  
+  end(): void {
+    if (this.offset !== this.data.length) {
+      throw new Error(`Trailing bytes in proof data: ${this.data.length - this.offset}`);
+    }
+  }
+}
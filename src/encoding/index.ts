@@ -0,0 +1,9 @@
+export {
+  PROOF_FORMAT_VERSION,
+  encodeMerkleProof,
+  decodeMerkleProof,
+  encodeCommitmentProof,
+  decodeCommitmentProof,
+  encodeCommitmentProofString,
+  decodeCommitmentProofString,
+} from './binary.js';
@@ -8,28 +8,103 @@
 export type {
   Commitment,
   CommitmentInput,
+  CommitmentSignature,
+  CommitmentProposal,
+  GroupPolicy,
+  RevocationStatus,
+  RevocationMetadata,
+  FulfillmentStatus,
+  FulfillmentEvidence,
+  FulfillmentMetadata,
+  SupersessionMetadata,
+  EncryptionEnvelope,
   CommitmentPayload,
+  AttachmentRef,
   CommitmentType,
   CommitmentQuery,
+  SearchResult,
+  MetadataFilter,
+  FilterOperator,
+  FilterValue,
   CommitmentProof,
+  RedactedCommitment,
+  RedactedCommitmentProof,
+  CommitmentBatchProof,
+  CommitmentRangeProof,
+  LineageEntry,
   MerkleProof,
+  MerkleMultiProof,
+  MerkleRangeProof,
   ProofSibling,
+  ConsistencyProof,
   Anchor,
+  AnchorReference,
+  AnchorConsistencyProof,
+  SparseMerkleProof,
+  SparseCommitmentProof,
   TreeNode,
   TreeState,
+  TreeVersion,
+  TreeMode,
+  AuditIssueKind,
+  AuditIssue,
+  AuditReport,
   AnchorConfig,
+  AnchorStrategy,
+  AnchorStrategySettings,
+  CommitmentSchema,
+  SchemaField,
+  SchemaFieldType,
+  StoreBundle,
+  PassphraseEnvelope,
 } from './types.js';
 
 // Main API
-export { AnchorStore } from './store/anchor-store.js';
+export { AnchorStore, type AnchorStoreOptions } from './store/anchor-store.js';
+export { AnchorScheduler, type AnchorSchedulerConfig } from './store/scheduler.js';
+export {
+  BackupScheduler,
+  listBackups,
+  findBackup,
+  pruneBackups,
+  type BackupInfo,
+  type BackupSchedulerConfig,
+} from './store/backup.js';
+export {
+  AttachmentStore,
+  hashAttachment,
+  type StoredAttachment,
+} from './store/attachments.js';
+export { parseFilter } from './store/filter.js';
 
 // Merkle tree (for advanced use)
 export { 
   MerkleTree,
   hashLeaf,
   hashInternal,
+  hashPayloadField,
+  hashPayloadFields,
   canonicalizeCommitment,
+  type CommitmentTree,
 } from './merkle/tree.js';
+export { MerkleMountainRange, type LeafSource } from './merkle/mmr.js';
+export {
+  SparseMerkleTree,
+  sparseKeyForCommitment,
+  sparseKeyForAgreement,
+  sparseKeyForRevocation,
+} from './merkle/sparse.js';
+
+// Compact proof encoding
+export {
+  PROOF_FORMAT_VERSION,
+  encodeMerkleProof,
+  decodeMerkleProof,
+  encodeCommitmentProof,
+  decodeCommitmentProof,
+  encodeCommitmentProofString,
+  decodeCommitmentProofString,
+} from './encoding/index.js';
 
 // Crypto utilities
 export {
@@ -39,9 +114,32 @@ export {
   verify,
   type KeyPair,
 } from './crypto/signing.js';
+export {
+  ENCRYPTION_SCHEME,
+  PASSPHRASE_SCHEME,
+  encryptForRecipients,
+  decryptWithKey,
+  encryptWithPassphrase,
+  decryptWithPassphrase,
+} from './crypto/encryption.js';
+
+// Commitment schemas
+export {
+  SchemaRegistry,
+  BUILTIN_SCHEMAS,
+  validateMetadata,
+  renderFields,
+} from './schemas/index.js';
 
 // Database (for advanced use)
 export { AnchorDatabase } from './store/database.js';
+export {
+  MIGRATIONS,
+  SCHEMA_VERSION,
+  migrate,
+  getSchemaVersion,
+  type Migration,
+} from './store/migrations.js';
 
 // Wallet integration
 export {
@@ -66,6 +164,8 @@ export {
   type ProofMessage,
   type ProofRequest,
   type ProofResponse,
+  type CosignProposal,
+  type CosignAcceptance,
   encodeMessage,
   decodeMessage,
   createProofRequest,
@@ -77,6 +177,7 @@ export {
   createPlugin,
   TOOL_DEFINITIONS,
   type PluginConfig,
+  type PluginLogger,
   type ToolResult,
   type ToolDefinition,
 } from './openclaw/index.js';
@@ -3,5 +3,17 @@ export {
   hashLeaf, 
   hashInternal, 
   hashSingle,
-  canonicalizeCommitment 
+  hashPayloadField,
+  hashPayloadFields,
+  canonicalizeCommitment,
+  type CommitmentTree,
 } from './tree.js';
+export { MerkleMountainRange, type LeafSource } from './mmr.js';
+export {
+  SparseMerkleTree,
+  SPARSE_TREE_DEPTH,
+  hashSparseLeaf,
+  sparseKeyForCommitment,
+  sparseKeyForAgreement,
+  sparseKeyForRevocation,
+} from './sparse.js';
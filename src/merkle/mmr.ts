@@ -0,0 +1,317 @@
+/**
+ * bsv-anchors - Merkle Mountain Range
+ * 
+ * Append-only accumulator that keeps only the roots ("peaks") of its
+ * complete subtrees. Appending touches at most log2(n) peaks, and only the
+ * peaks need persisting.
+ * 
+ * Peaks are bagged right to left, which yields the same root as a version 2
+ * (RFC 6962) MerkleTree over the same leaves. Proofs are therefore ordinary
+ * version 2 proofs and verify with MerkleTree.verifyProof.
+ */
+
+import {
+  hashInternal,
+  hashLeaf,
+  MerkleTree,
+  type CommitmentTree,
+} from './tree.js';
+import type {
+  ConsistencyProof,
+  MerkleMultiProof,
+  MerkleProof,
+  MerkleRangeProof,
+  ProofSibling,
+  TreeNode,
+  TreeState,
+  TreeVersion,
+} from '../types.js';
+
+/**
+ * Supplies leaf hashes for the half-open range [start, end).
+ * The MMR does not keep leaves, so proofs read them from the caller's storage.
+ */
+export type LeafSource = (start: number, end: number) => string[];
+
+// ============================================================================
+// Merkle Mountain Range Class
+// ============================================================================
+
+export class MerkleMountainRange implements CommitmentTree {
+  /** MMR roots are always RFC 6962 roots */
+  readonly version: TreeVersion = 2;
+  
+  /** Current peaks, left (tallest) to right */
+  private peaks: TreeNode[] = [];
+  private _leafCount = 0;
+  
+  /**
+   * @param leafSource - Reads leaf hashes back for proof generation
+   */
+  constructor(private readonly leafSource: LeafSource) {}
+  
+  /**
+   * Add a leaf to the range.
+   * @param data - Leaf data (commitment JSON or bytes)
+   * @returns Leaf hash, index, the peak created, and the peaks it merged
+   */
+  addLeaf(data: Uint8Array | string): {
+    hash: string;
+    index: number;
+    changedNodes: TreeNode[];
+    removedNodes: TreeNode[];
+  } {
+    const hash = hashLeaf(data);
+    const index = this._leafCount;
+    const { added, removed } = this.append(hash);
+    return { hash, index, changedNodes: [added], removedNodes: removed };
+  }
+  
+  /**
+   * Add a pre-computed leaf hash (for loading from storage).
+   */
+  addLeafHash(hash: string): number {
+    const index = this._leafCount;
+    this.append(hash);
+    return index;
+  }
+  
+  /**
+   * Get the root hash at a tree size.
+   * 
+   * The current root is bagged from the stored peaks. Older roots reuse
+   * any peak that is still current and rebuild the rest from leaves.
+   * 
+   * @param treeSize - Tree size (default: current size)
+   */
+  getRoot(treeSize: number = this._leafCount): string | null {
+    if (treeSize <= 0 || treeSize > this._leafCount) return null;
+    return bagPeaks(this.peakHashes(treeSize));
+  }
+  
+  /**
+   * Get the number of leaves.
+   */
+  get leafCount(): number {
+    return this._leafCount;
+  }
+  
+  /**
+   * Get tree state for persistence.
+   */
+  getState(): TreeState {
+    return {
+      rootHash: this.getRoot(),
+      leafCount: this._leafCount,
+      lastAnchorIndex: -1, // Managed by store
+    };
+  }
+  
+  /**
+   * Generate a Merkle proof for a leaf against any past tree size.
+   * 
+   * Only the leaves under the peak containing the leaf are read. The rest
+   * of the path is the bagged peaks to its right followed by the peaks to
+   * its left.
+   * 
+   * @param leafIndex - Index of the leaf to prove
+   * @param treeSize - Tree size to prove against (default: current size)
+   * @returns Version 2 Merkle proof, or null if index or size invalid
+   */
+  generateProof(leafIndex: number, treeSize: number = this._leafCount): MerkleProof | null {
+    if (treeSize <= 0 || treeSize > this._leafCount) return null;
+    if (leafIndex < 0 || leafIndex >= treeSize) return null;
+    
+    const layout = peakLayout(treeSize);
+    const hashes = this.peakHashes(treeSize);
+    const p = layout.findIndex(peak => {
+      const start = peak.index * 2 ** peak.level;
+      return leafIndex >= start && leafIndex < start + 2 ** peak.level;
+    });
+    const peak = layout[p];
+    const start = peak.index * 2 ** peak.level;
+    
+    // Path inside the peak
+    let level = this.leafSource(start, start + 2 ** peak.level);
+    if (level.length !== 2 ** peak.level) return null;
+    const leafHash = level[leafIndex - start];
+    
+    const siblings: ProofSibling[] = [];
+    let position = leafIndex - start;
+    while (level.length > 1) {
+      siblings.push({
+        hash: level[position ^ 1],
+        position: position % 2 === 0 ? 'right' : 'left',
+      });
+      level = pairUp(level);
+      position = Math.floor(position / 2);
+    }
+    
+    // Everything to the right collapses into one sibling
+    if (p < hashes.length - 1) {
+      siblings.push({ hash: bagPeaks(hashes.slice(p + 1)), position: 'right' });
+    }
+    for (let i = p - 1; i >= 0; i--) {
+      siblings.push({ hash: hashes[i], position: 'left' });
+    }
+    
+    return {
+      leafHash,
+      leafIndex,
+      treeSize,
+      siblings,
+      rootHash: bagPeaks(hashes),
+      version: this.version,
+    };
+  }
+  
+  /**
+   * Generate a multiproof against any past tree size.
+   * Reads every leaf up to `treeSize`.
+   */
+  generateMultiProof(leafIndices: number[], treeSize: number = this._leafCount): MerkleMultiProof | null {
+    if (treeSize <= 0 || treeSize > this._leafCount) return null;
+    return this.expand(treeSize)?.generateMultiProof(leafIndices, treeSize) ?? null;
+  }
+  
+  /**
+   * Generate a consistency proof between two tree sizes.
+   * Reads every leaf up to `toSize`.
+   */
+  generateConsistencyProof(fromSize: number, toSize: number = this._leafCount): ConsistencyProof | null {
+    if (toSize <= 0 || toSize > this._leafCount) return null;
+    return this.expand(toSize)?.generateConsistencyProof(fromSize, toSize) ?? null;
+  }
+  
+  /**
+   * Generate a range completeness proof against any past tree size.
+   * Reads every leaf up to `treeSize`.
+   */
+  generateRangeProof(fromIndex: number, toIndex: number, treeSize: number = this._leafCount): MerkleRangeProof | null {
+    if (treeSize <= 0 || treeSize > this._leafCount) return null;
+    return this.expand(treeSize)?.generateRangeProof(fromIndex, toIndex, treeSize) ?? null;
+  }
+  
+  /**
+   * Get the nodes to persist: the current peaks.
+   */
+  getAllNodes(): TreeNode[] {
+    return this.peaks.map(peak => ({ ...peak }));
+  }
+  
+  /**
+   * Load a range from persisted peaks.
+   * The leaf count follows from the peak heights.
+   */
+  static fromNodes(nodes: TreeNode[], leafSource: LeafSource): MerkleMountainRange {
+    const mmr = new MerkleMountainRange(leafSource);
+    mmr.peaks = [...nodes]
+      .sort((a, b) => b.level - a.level)
+      .map(node => ({ ...node }));
+    mmr._leafCount = mmr.peaks.reduce((sum, peak) => sum + 2 ** peak.level, 0);
+    return mmr;
+  }
+  
+  // --------------------------------------------------------------------------
+  // Internal Methods
+  // --------------------------------------------------------------------------
+  
+  /**
+   * Push a leaf and merge equal-height peaks.
+   */
+  private append(hash: string): { added: TreeNode; removed: TreeNode[] } {
+    const removed: TreeNode[] = [];
+    let node: TreeNode = { level: 0, index: this._leafCount, hash };
+    
+    while (this.peaks.length > 0 && this.peaks[this.peaks.length - 1].level === node.level) {
+      const left = this.peaks.pop()!;
+      removed.push(left);
+      node = {
+        level: node.level + 1,
+        index: left.index / 2,
+        hash: hashInternal(left.hash, node.hash),
+      };
+    }
+    
+    this.peaks.push(node);
+    this._leafCount++;
+    return { added: node, removed };
+  }
+  
+  /**
+   * Peak hashes for a tree size, left to right.
+   */
+  private peakHashes(treeSize: number): string[] {
+    return peakLayout(treeSize).map(({ level, index }) => {
+      const current = this.peaks.find(peak => peak.level === level && peak.index === index);
+      if (current) return current.hash;
+      
+      const start = index * 2 ** level;
+      let hashes = this.leafSource(start, start + 2 ** level);
+      if (hashes.length !== 2 ** level) {
+        throw new Error(`Missing leaves ${start}..${start + 2 ** level - 1}`);
+      }
+      while (hashes.length > 1) hashes = pairUp(hashes);
+      return hashes[0];
+    });
+  }
+  
+  /**
+   * Build a full tree over the first `treeSize` leaves.
+   */
+  private expand(treeSize: number): MerkleTree | null {
+    const leaves = this.leafSource(0, treeSize);
+    if (leaves.length !== treeSize) return null;
+    
+    const tree = new MerkleTree(this.version);
+    for (const hash of leaves) {
+      tree.addLeafHash(hash);
+    }
+    return tree;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Positions of the peaks of a range with `treeSize` leaves, left to right.
+ * One peak per set bit of the size, tallest first.
+ */
+function peakLayout(treeSize: number): Array<{ level: number; index: number }> {
+  const layout: Array<{ level: number; index: number }> = [];
+  let start = 0;
+  
+  for (let level = Math.floor(Math.log2(treeSize)); level >= 0; level--) {
+    const width = 2 ** level;
+    if (treeSize - start >= width) {
+      layout.push({ level, index: start / width });
+      start += width;
+    }
+  }
+  
+  return layout;
+}
+
+/**
+ * Bag peaks right to left into a single root.
+ */
+function bagPeaks(hashes: string[]): string {
+  let root = hashes[hashes.length - 1];
+  for (let i = hashes.length - 2; i >= 0; i--) {
+    root = hashInternal(hashes[i], root);
+  }
+  return root;
+}
+
+/**
+ * Hash one level of a complete subtree into the next.
+ */
+function pairUp(hashes: string[]): string[] {
+  const next: string[] = [];
+  for (let i = 0; i < hashes.length; i += 2) {
+    next.push(hashInternal(hashes[i], hashes[i + 1]));
+  }
+  return next;
+}
@@ -0,0 +1,244 @@
+/**
+ * bsv-anchors - Sparse Merkle Tree
+ * 
+ * Fixed-depth (256) Merkle tree over hashed keys. Unlike the append-only
+ * commitment tree it can prove that a key is NOT present, e.g. that no
+ * agreement with a counterparty about a subject existed at an anchor.
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import type { SparseMerkleProof } from '../types.js';
+import { hashInternal } from './tree.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Tree depth: one level per key bit */
+export const SPARSE_TREE_DEPTH = 256;
+
+/** Hash of an empty leaf */
+const EMPTY_LEAF = '00'.repeat(32);
+
+/** Hash of an empty subtree at each level (0 = leaf) */
+const EMPTY_HASHES: string[] = (() => {
+  const hashes = [EMPTY_LEAF];
+  for (let level = 0; level < SPARSE_TREE_DEPTH; level++) {
+    hashes.push(hashInternal(hashes[level], hashes[level]));
+  }
+  return hashes;
+})();
+
+// ============================================================================
+// Hash & Key Functions
+// ============================================================================
+
+/**
+ * Hash an occupied sparse leaf.
+ * Prefix with 0x02 to keep it distinct from commitment leaves and internal nodes.
+ */
+export function hashSparseLeaf(key: string, value: string): string {
+  const prefixed = new Uint8Array([0x02, ...hexToBytes(key), ...hexToBytes(value)]);
+  return bytesToHex(sha256(prefixed));
+}
+
+/**
+ * Sparse key for a commitment ID.
+ */
+export function sparseKeyForCommitment(commitmentId: string): string {
+  return bytesToHex(sha256(utf8ToBytes(`commitment:${commitmentId}`)));
+}
+
+/**
+ * Sparse key for the revocation of a commitment ID.
+ */
+export function sparseKeyForRevocation(commitmentId: string): string {
+  return bytesToHex(sha256(utf8ToBytes(`revocation:${commitmentId}`)));
+}
+
+/**
+ * Sparse key for a (counterparty, subject) pair.
+ */
+export function sparseKeyForAgreement(counterparty: string, subject: string): string {
+  return bytesToHex(sha256(utf8ToBytes(`agreement:${JSON.stringify([counterparty, subject])}`)));
+}
+
+// ============================================================================
+// Sparse Merkle Tree Class
+// ============================================================================
+
+/**
+ * In-memory sparse Merkle tree.
+ * 
+ * Design:
+ * - Keys and values are 32-byte hex strings
+ * - Bit `level` of the key picks the side at each level (0 = leaf level)
+ * - Only non-empty nodes are stored; empty subtrees use precomputed hashes
+ * - Proofs list only non-empty siblings plus a bitmap of where they go
+ */
+export class SparseMerkleTree {
+  /** Stored values by key */
+  private values: Map<string, string> = new Map();
+  
+  /** Non-empty nodes by level, then by key prefix */
+  private nodes: Map<number, Map<bigint, string>> = new Map();
+  
+  // --------------------------------------------------------------------------
+  // Public API
+  // --------------------------------------------------------------------------
+  
+  /**
+   * Set the value stored at a key.
+   */
+  set(key: string, value: string): void {
+    assertHash(key, 'key');
+    assertHash(value, 'value');
+    
+    this.values.set(key, value);
+    
+    let path = BigInt('0x' + key);
+    let hash = hashSparseLeaf(key, value);
+    
+    for (let level = 0; level < SPARSE_TREE_DEPTH; level++) {
+      this.getLevel(level).set(path, hash);
+      
+      const sibling = this.getNode(level, path ^ 1n);
+      hash = (path & 1n) === 0n ? hashInternal(hash, sibling) : hashInternal(sibling, hash);
+      path >>= 1n;
+    }
+    
+    this.getLevel(SPARSE_TREE_DEPTH).set(0n, hash);
+  }
+  
+  /**
+   * Get the value stored at a key.
+   */
+  get(key: string): string | null {
+    return this.values.get(key) ?? null;
+  }
+  
+  /**
+   * Check whether a key is present.
+   */
+  has(key: string): boolean {
+    return this.values.has(key);
+  }
+  
+  /**
+   * Number of keys present.
+   */
+  get size(): number {
+    return this.values.size;
+  }
+  
+  /**
+   * Get the root hash (the empty-tree root when nothing has been set).
+   */
+  getRoot(): string {
+    return this.getNode(SPARSE_TREE_DEPTH, 0n);
+  }
+  
+  /**
+   * Generate a membership or non-membership proof for a key.
+   */
+  generateProof(key: string): SparseMerkleProof {
+    assertHash(key, 'key');
+    
+    const siblings: string[] = [];
+    const bitmap = new Uint8Array(SPARSE_TREE_DEPTH / 8);
+    let path = BigInt('0x' + key);
+    
+    for (let level = 0; level < SPARSE_TREE_DEPTH; level++) {
+      const sibling = this.getLevel(level).get(path ^ 1n);
+      if (sibling !== undefined) {
+        siblings.push(sibling);
+        bitmap[level >> 3] |= 1 << (level & 7);
+      }
+      path >>= 1n;
+    }
+    
+    return {
+      key,
+      value: this.get(key),
+      siblings,
+      bitmap: bytesToHex(bitmap),
+      rootHash: this.getRoot(),
+    };
+  }
+  
+  /**
+   * Verify a sparse Merkle proof.
+   * A proof with `value: null` proves the key is absent.
+   */
+  static verifyProof(proof: SparseMerkleProof): boolean {
+    try {
+      const bitmap = hexToBytes(proof.bitmap);
+      if (bitmap.length !== SPARSE_TREE_DEPTH / 8) return false;
+      
+      let path = BigInt('0x' + proof.key);
+      let hash = proof.value === null ? EMPTY_LEAF : hashSparseLeaf(proof.key, proof.value);
+      let next = 0;
+      
+      for (let level = 0; level < SPARSE_TREE_DEPTH; level++) {
+        let sibling = EMPTY_HASHES[level];
+        if (bitmap[level >> 3] & (1 << (level & 7))) {
+          if (next >= proof.siblings.length) return false;
+          sibling = proof.siblings[next++];
+        }
+        
+        hash = (path & 1n) === 0n ? hashInternal(hash, sibling) : hashInternal(sibling, hash);
+        path >>= 1n;
+      }
+      
+      return next === proof.siblings.length && hash === proof.rootHash;
+    } catch {
+      return false;
+    }
+  }
+  
+  /**
+   * Get all key/value entries for persistence.
+   */
+  getEntries(): Array<{ key: string; value: string }> {
+    return [...this.values].map(([key, value]) => ({ key, value }));
+  }
+  
+  /**
+   * Build a tree from key/value entries.
+   */
+  static fromEntries(entries: Array<{ key: string; value: string }>): SparseMerkleTree {
+    const tree = new SparseMerkleTree();
+    for (const { key, value } of entries) {
+      tree.set(key, value);
+    }
+    return tree;
+  }
+  
+  // --------------------------------------------------------------------------
+  // Internal Methods
+  // --------------------------------------------------------------------------
+  
+  private getLevel(level: number): Map<bigint, string> {
+    let levelMap = this.nodes.get(level);
+    if (!levelMap) {
+      levelMap = new Map();
+      this.nodes.set(level, levelMap);
+    }
+    return levelMap;
+  }
+  
+  private getNode(level: number, path: bigint): string {
+    return this.getLevel(level).get(path) ?? EMPTY_HASHES[level];
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function assertHash(value: string, name: string): void {
+  if (!/^[0-9a-f]{64}$/.test(value)) {
+    throw new Error(`Invalid sparse ${name}: expected 32-byte lowercase hex`);
+  }
+}
@@ -7,7 +7,16 @@
 
 import { sha256 } from '@noble/hashes/sha256';
 import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
-import type { MerkleProof, ProofSibling, TreeNode, TreeState } from '../types.js';
+import type {
+  ConsistencyProof,
+  MerkleMultiProof,
+  MerkleProof,
+  MerkleRangeProof,
+  ProofSibling,
+  TreeNode,
+  TreeState,
+  TreeVersion,
+} from '../types.js';
 
 // ============================================================================
 // Hash Functions
@@ -23,6 +32,17 @@ export function hashLeaf(data: Uint8Array | string): string {
   return bytesToHex(sha256(prefixed));
 }
 
+/**
+ * Hash one payload field of a salted commitment.
+ * Prefix with 0x02 to differentiate from tree nodes. The salt keeps a
+ * withheld field from being guessed from its hash.
+ */
+export function hashPayloadField(name: string, value: unknown, salt: string): string {
+  const input = new TextEncoder().encode(JSON.stringify([salt, name, sortObjectKeys(value)]));
+  const prefixed = new Uint8Array([0x02, ...input]);
+  return bytesToHex(sha256(prefixed));
+}
+
 /**
  * Hash an internal node (two child hashes).
  * Prefix with 0x01 to differentiate from leaves.
@@ -43,6 +63,68 @@ export function hashSingle(hash: string): string {
   return hashInternal(hash, hash);
 }
 
+/**
+ * Combine two children into a parent according to the tree version.
+ * A missing right child means the left child is alone on the right edge:
+ * version 1 hashes it with itself, version 2 promotes it unchanged.
+ */
+function combineChildren(version: TreeVersion, left: string, right: string | undefined): string {
+  if (right !== undefined) return hashInternal(left, right);
+  return version === 1 ? hashSingle(left) : left;
+}
+
+// ============================================================================
+// Commitment Tree Interface
+// ============================================================================
+
+/**
+ * Operations the anchor store needs from a commitment tree.
+ * Implemented by MerkleTree (all nodes kept) and MerkleMountainRange
+ * (only peaks kept).
+ */
+export interface CommitmentTree {
+  /** Tree algorithm version */
+  readonly version: TreeVersion;
+  
+  /** Number of leaves */
+  readonly leafCount: number;
+  
+  /**
+   * Add a leaf. `changedNodes` must be persisted and `removedNodes`
+   * deleted to keep storage in step with the tree.
+   */
+  addLeaf(data: Uint8Array | string): {
+    hash: string;
+    index: number;
+    changedNodes: TreeNode[];
+    removedNodes: TreeNode[];
+  };
+  
+  /** Add a pre-computed leaf hash (when loading from storage) */
+  addLeafHash(hash: string): number;
+  
+  /** Root hash at a tree size (default: current) */
+  getRoot(treeSize?: number): string | null;
+  
+  /** Tree state for persistence */
+  getState(): TreeState;
+  
+  /** Inclusion proof against a tree size (default: current) */
+  generateProof(leafIndex: number, treeSize?: number): MerkleProof | null;
+  
+  /** Inclusion proof for several leaves against a tree size (default: current) */
+  generateMultiProof(leafIndices: number[], treeSize?: number): MerkleMultiProof | null;
+  
+  /** Consistency proof between two tree sizes */
+  generateConsistencyProof(fromSize: number, toSize?: number): ConsistencyProof | null;
+  
+  /** Completeness proof for leaves [fromIndex, toIndex) at a tree size (default: current) */
+  generateRangeProof(fromIndex: number, toIndex: number, treeSize?: number): MerkleRangeProof | null;
+  
+  /** Nodes to persist */
+  getAllNodes(): TreeNode[];
+}
+
 // ============================================================================
 // Merkle Tree Class
 // ============================================================================
@@ -55,15 +137,26 @@ export function hashSingle(hash: string): string {
  * - Each higher level contains hashes of pairs from level below
  * - Tree grows rightward as new leaves are added
  * - Supports efficient proof generation: O(log n)
+ * 
+ * Tree versions:
+ * - 1: a lone left child is hashed with itself (legacy; [a,b,c] and
+ *   [a,b,c,c] share a root)
+ * - 2: a lone left child is promoted unchanged, giving the RFC 6962
+ *   (Certificate Transparency) tree shape
  */
-export class MerkleTree {
+export class MerkleTree implements CommitmentTree {
   /** Tree nodes by level, then by index */
   private nodes: Map<number, Map<number, string>> = new Map();
   
   /** Number of leaves */
   private _leafCount: number = 0;
   
-  constructor() {
+  /** Tree algorithm version */
+  readonly version: TreeVersion;
+  
+  constructor(version: TreeVersion = 1) {
+    this.version = version;
+    
     // Initialize level 0 (leaves)
     this.nodes.set(0, new Map());
   }
@@ -75,9 +168,16 @@ export class MerkleTree {
   /**
    * Add a leaf to the tree.
    * @param data - Raw data to hash and add
-   * @returns Leaf hash and index
+   * @returns Leaf hash, index, and the nodes written (leaf up to root),
+   *   so callers can persist just the changed path. Nothing is ever
+   *   removed, so `removedNodes` is always empty.
    */
-  addLeaf(data: Uint8Array | string): { hash: string; index: number } {
+  addLeaf(data: Uint8Array | string): {
+    hash: string;
+    index: number;
+    changedNodes: TreeNode[];
+    removedNodes: TreeNode[];
+  } {
     const hash = hashLeaf(data);
     const index = this._leafCount;
     
@@ -86,9 +186,9 @@ export class MerkleTree {
     this._leafCount++;
     
     // Rebuild affected path to root
-    this.rebuildPath(index);
+    const changedNodes = [{ level: 0, index, hash }, ...this.rebuildPath(index)];
     
-    return { hash, index };
+    return { hash, index, changedNodes, removedNodes: [] };
   }
   
   /**
@@ -104,17 +204,15 @@ export class MerkleTree {
   }
   
   /**
-   * Get the current root hash.
-   * @returns Root hash, or null if tree is empty
+   * Get the root hash.
+   * @param treeSize - Number of leaves to compute the root for (default: current size)
+   * @returns Root hash, or null if tree is empty or size is out of range
    */
-  getRoot(): string | null {
-    if (this._leafCount === 0) return null;
-    
-    const height = this.getHeight();
-    const topLevel = this.getLevel(height);
+  getRoot(treeSize: number = this._leafCount): string | null {
+    if (treeSize <= 0 || treeSize > this._leafCount) return null;
     
     // Root is always at index 0 of the top level
-    return topLevel.get(0) ?? null;
+    return this.getNodeAt(this.getHeight(treeSize), 0, treeSize) ?? null;
   }
   
   /**
@@ -137,39 +235,50 @@ export class MerkleTree {
   
   /**
    * Generate a Merkle proof for a leaf.
+   * 
+   * Proofs can be generated against any past tree size, so a commitment can
+   * still be proven against the root that was anchored when the tree had
+   * `treeSize` leaves, even after more leaves have been appended.
+   * 
    * @param leafIndex - Index of the leaf to prove
-   * @returns Merkle proof, or null if index invalid
+   * @param treeSize - Tree size to prove against (default: current size)
+   * @returns Merkle proof, or null if index or size invalid
    */
-  generateProof(leafIndex: number): MerkleProof | null {
-    if (leafIndex < 0 || leafIndex >= this._leafCount) {
+  generateProof(leafIndex: number, treeSize: number = this._leafCount): MerkleProof | null {
+    if (treeSize <= 0 || treeSize > this._leafCount) {
+      return null;
+    }
+    
+    if (leafIndex < 0 || leafIndex >= treeSize) {
       return null;
     }
     
-    const root = this.getRoot();
+    const root = this.getRoot(treeSize);
     if (!root) return null;
     
     const leafHash = this.getLevel(0).get(leafIndex);
     if (!leafHash) return null;
     
     const siblings: ProofSibling[] = [];
-    const height = this.getHeight();
+    const height = this.getHeight(treeSize);
     
     let currentIndex = leafIndex;
     
     for (let level = 0; level < height; level++) {
       const siblingIndex = currentIndex ^ 1; // XOR to get sibling
-      const siblingHash = this.getLevel(level).get(siblingIndex);
+      const siblingHash = this.getNodeAt(level, siblingIndex, treeSize);
       
       if (siblingHash !== undefined) {
         // Sibling exists
         const position = currentIndex % 2 === 0 ? 'right' : 'left';
         siblings.push({ hash: siblingHash, position });
-      } else {
+      } else if (this.version === 1) {
         // No sibling - this happens on the rightmost path of incomplete trees
         // We need to hash with self
-        const selfHash = this.getLevel(level).get(currentIndex)!;
+        const selfHash = this.getNodeAt(level, currentIndex, treeSize)!;
         siblings.push({ hash: selfHash, position: 'right' });
       }
+      // Version 2 promotes the lone node, so there is nothing to record
       
       // Move to parent
       currentIndex = Math.floor(currentIndex / 2);
@@ -178,8 +287,10 @@ export class MerkleTree {
     return {
       leafHash,
       leafIndex,
+      treeSize,
       siblings,
       rootHash: root,
+      version: this.version,
     };
   }
   
@@ -189,6 +300,12 @@ export class MerkleTree {
    * @returns true if proof is valid
    */
   static verifyProof(proof: MerkleProof): boolean {
+    // Version 2 proofs are fully determined by leaf index and tree size,
+    // so check the sibling positions match the path they imply
+    if (proof.version === 2 && !MerkleTree.checkProofShape(proof)) {
+      return false;
+    }
+    
     let currentHash = proof.leafHash;
     
     for (const sibling of proof.siblings) {
@@ -202,6 +319,342 @@ export class MerkleTree {
     return currentHash === proof.rootHash;
   }
   
+  /**
+   * Generate a single proof for several leaves.
+   * 
+   * Siblings shared between the leaves' paths, or derivable from other
+   * proven leaves, are included only once.
+   * 
+   * @param leafIndices - Indices of the leaves to prove (any order)
+   * @param treeSize - Tree size to prove against (default: current size)
+   * @returns Multiproof, or null if any index or the size is invalid
+   */
+  generateMultiProof(leafIndices: number[], treeSize: number = this._leafCount): MerkleMultiProof | null {
+    if (leafIndices.length === 0 || treeSize <= 0 || treeSize > this._leafCount) {
+      return null;
+    }
+    
+    const sorted = [...new Set(leafIndices)].sort((a, b) => a - b);
+    if (sorted[0] < 0 || sorted[sorted.length - 1] >= treeSize) {
+      return null;
+    }
+    
+    const hashes: string[] = [];
+    const height = this.getHeight(treeSize);
+    let known = sorted;
+    
+    for (let level = 0; level < height; level++) {
+      const knownSet = new Set(known);
+      
+      for (const index of known) {
+        const siblingIndex = index ^ 1;
+        if (knownSet.has(siblingIndex)) continue;
+        
+        // Missing siblings on the right edge are implied by the tree size
+        const siblingHash = this.getNodeAt(level, siblingIndex, treeSize);
+        if (siblingHash !== undefined) {
+          hashes.push(siblingHash);
+        }
+      }
+      
+      known = [...new Set(known.map(i => Math.floor(i / 2)))];
+    }
+    
+    return {
+      leaves: sorted.map(index => ({ index, hash: this.getLevel(0).get(index)! })),
+      treeSize,
+      hashes,
+      rootHash: this.getRoot(treeSize)!,
+      version: this.version,
+    };
+  }
+  
+  /**
+   * Verify a multiproof.
+   * @param proof - The proof to verify
+   * @returns true if every leaf is included under the root
+   */
+  static verifyMultiProof(proof: MerkleMultiProof): boolean {
+    const { treeSize, leaves } = proof;
+    const version = proof.version ?? 1;
+    
+    if (!Number.isInteger(treeSize) || treeSize <= 0 || leaves.length === 0) {
+      return false;
+    }
+    
+    // Leaves must be strictly ascending and inside the tree
+    for (let i = 0; i < leaves.length; i++) {
+      const index = leaves[i].index;
+      if (!Number.isInteger(index) || index < 0 || index >= treeSize) return false;
+      if (i > 0 && index <= leaves[i - 1].index) return false;
+    }
+    
+    try {
+      let known = new Map(leaves.map(l => [l.index, l.hash] as [number, string]));
+      let levelSize = treeSize;
+      let next = 0;
+      
+      while (levelSize > 1) {
+        const parents = new Map<number, string>();
+        
+        for (const [index, hash] of known) {
+          const parentIndex = Math.floor(index / 2);
+          if (parents.has(parentIndex)) continue;
+          
+          const siblingIndex = index ^ 1;
+          let siblingHash: string | undefined = known.get(siblingIndex);
+          
+          if (siblingHash === undefined && siblingIndex < levelSize) {
+            if (next >= proof.hashes.length) return false;
+            siblingHash = proof.hashes[next++];
+          }
+          
+          parents.set(parentIndex, index % 2 === 0
+            ? combineChildren(version, hash, siblingHash)
+            : hashInternal(siblingHash!, hash));
+        }
+        
+        known = parents;
+        levelSize = Math.ceil(levelSize / 2);
+      }
+      
+      return next === proof.hashes.length && known.get(0) === proof.rootHash;
+    } catch {
+      return false;
+    }
+  }
+  
+  /**
+   * Check that a version 2 proof's sibling positions match the path from
+   * its leaf index to the root of a tree of its size.
+   */
+  private static checkProofShape(proof: MerkleProof): boolean {
+    const { leafIndex, treeSize, siblings } = proof;
+    if (!Number.isInteger(leafIndex) || !Number.isInteger(treeSize) ||
+        leafIndex < 0 || leafIndex >= treeSize) {
+      return false;
+    }
+    
+    let index = leafIndex;
+    let lastIndex = treeSize - 1;
+    let s = 0;
+    
+    while (lastIndex > 0) {
+      if (index % 2 === 1) {
+        if (siblings[s++]?.position !== 'left') return false;
+      } else if (index < lastIndex) {
+        if (siblings[s++]?.position !== 'right') return false;
+      }
+      
+      index = Math.floor(index / 2);
+      lastIndex = Math.floor(lastIndex / 2);
+    }
+    
+    return s === siblings.length;
+  }
+  
+  /**
+   * Generate a consistency proof between two tree sizes.
+   * 
+   * The proof carries the complete subtrees ("peaks") of the older tree and
+   * the complete subtrees covering the leaves appended since. A verifier
+   * rebuilds both roots from the same peaks, which shows that the newer
+   * tree contains the older one unchanged as its prefix.
+   * 
+   * @param fromSize - Size of the older tree
+   * @param toSize - Size of the newer tree (default: current size)
+   * @returns Consistency proof, or null if sizes invalid
+   */
+  generateConsistencyProof(fromSize: number, toSize: number = this._leafCount): ConsistencyProof | null {
+    if (fromSize <= 0 || fromSize > toSize || toSize > this._leafCount) {
+      return null;
+    }
+    
+    const oldPeaks: string[] = [];
+    const hashes: string[] = [];
+    
+    const collect = (level: number, index: number): void => {
+      const start = index * 2 ** level;
+      const end = start + 2 ** level;
+      if (start >= toSize) return;
+      
+      if (end <= fromSize) {
+        oldPeaks.push(this.getLevel(level).get(index)!);
+      } else if (start >= fromSize && end <= toSize) {
+        hashes.push(this.getLevel(level).get(index)!);
+      } else {
+        collect(level - 1, index * 2);
+        collect(level - 1, index * 2 + 1);
+      }
+    };
+    
+    collect(this.getHeight(toSize), 0);
+    
+    return {
+      fromSize,
+      toSize,
+      fromRoot: this.getRoot(fromSize)!,
+      toRoot: this.getRoot(toSize)!,
+      oldPeaks,
+      hashes,
+      version: this.version,
+    };
+  }
+  
+  /**
+   * Verify a consistency proof.
+   * @param proof - The proof to verify
+   * @returns true if the newer root extends the older root
+   */
+  static verifyConsistencyProof(proof: ConsistencyProof): boolean {
+    const { fromSize, toSize } = proof;
+    const version = proof.version ?? 1;
+    if (!Number.isInteger(fromSize) || !Number.isInteger(toSize) || fromSize <= 0 || fromSize > toSize) {
+      return false;
+    }
+    
+    const rebuild = (treeSize: number): string | null => {
+      let peak = 0;
+      let next = 0;
+      
+      const node = (level: number, index: number): string | undefined => {
+        const start = index * 2 ** level;
+        const end = start + 2 ** level;
+        if (start >= treeSize) return undefined;
+        
+        if (end <= fromSize) {
+          if (peak >= proof.oldPeaks.length) throw new Error('Proof too short');
+          return proof.oldPeaks[peak++];
+        }
+        
+        if (start >= fromSize && end <= treeSize) {
+          if (next >= proof.hashes.length) throw new Error('Proof too short');
+          return proof.hashes[next++];
+        }
+        
+        const left = node(level - 1, index * 2)!;
+        const right = node(level - 1, index * 2 + 1);
+        return combineChildren(version, left, right);
+      };
+      
+      try {
+        const root = node(treeSize <= 1 ? 0 : Math.ceil(Math.log2(treeSize)), 0);
+        
+        // Every hash in the proof must be used exactly once
+        if (peak !== proof.oldPeaks.length) return null;
+        if (treeSize === toSize && next !== proof.hashes.length) return null;
+        
+        return root ?? null;
+      } catch {
+        return null;
+      }
+    };
+    
+    return rebuild(fromSize) === proof.fromRoot && rebuild(toSize) === proof.toRoot;
+  }
+  
+  /**
+   * Generate a proof that a contiguous span of leaves is complete.
+   *
+   * The proof carries every leaf hash in [fromIndex, toIndex) plus the
+   * complete subtrees on either side of the span. A verifier rebuilds the
+   * root from them, which pins each leaf to its position, so no leaf in the
+   * span can be left out or reordered.
+   *
+   * @param fromIndex - First leaf index in the range
+   * @param toIndex - One past the last leaf index in the range
+   * @param treeSize - Tree size to prove against (default: current size)
+   * @returns Range proof, or null if the range or size is invalid
+   */
+  generateRangeProof(fromIndex: number, toIndex: number, treeSize: number = this._leafCount): MerkleRangeProof | null {
+    if (treeSize <= 0 || treeSize > this._leafCount) {
+      return null;
+    }
+    
+    if (fromIndex < 0 || fromIndex >= toIndex || toIndex > treeSize) {
+      return null;
+    }
+    
+    const hashes: string[] = [];
+    
+    const collect = (level: number, index: number): void => {
+      const start = index * 2 ** level;
+      const end = start + 2 ** level;
+      if (start >= treeSize) return;
+      if (start >= fromIndex && end <= toIndex) return; // rebuilt from leaves
+      
+      if (end <= fromIndex || start >= toIndex) {
+        hashes.push(this.getNodeAt(level, index, treeSize)!);
+      } else {
+        collect(level - 1, index * 2);
+        collect(level - 1, index * 2 + 1);
+      }
+    };
+    
+    collect(this.getHeight(treeSize), 0);
+    
+    const leaves: string[] = [];
+    for (let i = fromIndex; i < toIndex; i++) {
+      leaves.push(this.getLevel(0).get(i)!);
+    }
+    
+    return {
+      fromIndex,
+      toIndex,
+      treeSize,
+      leaves,
+      hashes,
+      rootHash: this.getRoot(treeSize)!,
+      version: this.version,
+    };
+  }
+  
+  /**
+   * Verify a range proof.
+   * @param proof - The proof to verify
+   * @returns true if the leaves are exactly [fromIndex, toIndex) under the root
+   */
+  static verifyRangeProof(proof: MerkleRangeProof): boolean {
+    const { fromIndex, toIndex, treeSize, leaves } = proof;
+    const version = proof.version ?? 1;
+    
+    if (![fromIndex, toIndex, treeSize].every(Number.isInteger) ||
+        fromIndex < 0 || fromIndex >= toIndex || toIndex > treeSize ||
+        leaves.length !== toIndex - fromIndex) {
+      return false;
+    }
+    
+    let next = 0;
+    
+    const node = (level: number, index: number): string | undefined => {
+      const start = index * 2 ** level;
+      const end = start + 2 ** level;
+      if (start >= treeSize) return undefined;
+      
+      if (level === 0 && start >= fromIndex && start < toIndex) {
+        return leaves[start - fromIndex];
+      }
+      
+      if (end <= fromIndex || start >= toIndex) {
+        if (next >= proof.hashes.length) throw new Error('Proof too short');
+        return proof.hashes[next++];
+      }
+      
+      const left = node(level - 1, index * 2)!;
+      const right = node(level - 1, index * 2 + 1);
+      return combineChildren(version, left, right);
+    };
+    
+    try {
+      const root = node(treeSize <= 1 ? 0 : Math.ceil(Math.log2(treeSize)), 0);
+      
+      // Every hash in the proof must be used exactly once
+      return next === proof.hashes.length && root === proof.rootHash;
+    } catch {
+      return false;
+    }
+  }
+  
   /**
    * Get all nodes for persistence.
    */
@@ -220,8 +673,8 @@ export class MerkleTree {
   /**
    * Load tree from persisted nodes.
    */
-  static fromNodes(nodes: TreeNode[]): MerkleTree {
-    const tree = new MerkleTree();
+  static fromNodes(nodes: TreeNode[], version: TreeVersion = 1): MerkleTree {
+    const tree = new MerkleTree(version);
     
     // Sort by level, then index
     nodes.sort((a, b) => a.level - b.level || a.index - b.index);
@@ -255,20 +708,45 @@ export class MerkleTree {
   }
   
   /**
-   * Calculate tree height for current leaf count.
+   * Calculate tree height for a leaf count.
    * Height 0 = single leaf, height 1 = 2 leaves, etc.
    */
-  private getHeight(): number {
-    if (this._leafCount <= 1) return 0;
-    return Math.ceil(Math.log2(this._leafCount));
+  private getHeight(leafCount: number = this._leafCount): number {
+    if (leafCount <= 1) return 0;
+    return Math.ceil(Math.log2(leafCount));
+  }
+  
+  /**
+   * Get a node hash as it was when the tree had `treeSize` leaves.
+   * 
+   * Nodes whose subtree is complete within `treeSize` never change and are
+   * read from storage. Nodes on the right edge are recomputed from their
+   * children, since later leaves have since been hashed into them.
+   * 
+   * @returns Node hash, or undefined if the node did not exist at that size
+   */
+  private getNodeAt(level: number, index: number, treeSize: number): string | undefined {
+    const start = index * 2 ** level;
+    if (start >= treeSize) return undefined;
+    
+    if (start + 2 ** level <= treeSize || treeSize === this._leafCount) {
+      return this.getLevel(level).get(index);
+    }
+    
+    const left = this.getNodeAt(level - 1, index * 2, treeSize)!;
+    const right = this.getNodeAt(level - 1, index * 2 + 1, treeSize);
+    
+    return combineChildren(this.version, left, right);
   }
   
   /**
    * Rebuild the path from a leaf to the root.
    * Called after adding a new leaf.
+   * @returns The internal nodes that were rewritten
    */
-  private rebuildPath(leafIndex: number): void {
+  private rebuildPath(leafIndex: number): TreeNode[] {
     const height = this.getHeight();
+    const changed: TreeNode[] = [];
     let currentIndex = leafIndex;
     
     for (let level = 0; level < height; level++) {
@@ -279,21 +757,20 @@ export class MerkleTree {
       const leftHash = this.getLevel(level).get(leftChildIndex);
       const rightHash = this.getLevel(level).get(rightChildIndex);
       
-      let parentHash: string;
-      
-      if (leftHash && rightHash) {
-        parentHash = hashInternal(leftHash, rightHash);
-      } else if (leftHash) {
-        // Only left child exists - hash with itself
-        parentHash = hashSingle(leftHash);
-      } else {
+      if (!leftHash) {
         // Should never happen if tree is built correctly
         throw new Error(`Invalid tree state at level ${level}, index ${leftChildIndex}`);
       }
       
+      // Only left child exists - duplicated or promoted depending on version
+      const parentHash = combineChildren(this.version, leftHash, rightHash);
+      
       this.getLevel(level + 1).set(parentIndex, parentHash);
+      changed.push({ level: level + 1, index: parentIndex, hash: parentHash });
       currentIndex = parentIndex;
     }
+    
+    return changed;
   }
 }
 
@@ -304,6 +781,12 @@ export class MerkleTree {
 /**
  * Canonicalize a commitment for hashing.
  * Ensures consistent serialization regardless of property order.
+ * Co-signers and group policy are only part of the form when present, so
+ * single-signer commitments hash as they always have.
+ * 
+ * Salted commitments carry salted field hashes in place of the payload:
+ * each field with a salt is hashed here, and `withheld` supplies the hashes
+ * of fields left out of a redacted commitment.
  */
 export function canonicalizeCommitment(commitment: {
   id: string;
@@ -311,12 +794,24 @@ export function canonicalizeCommitment(commitment: {
   payload: unknown;
   timestamp: number;
   signature: string;
+  signers?: Array<{ publicKey: string; signature: string }>;
+  group?: { participants: string[]; threshold: number };
+  salts?: Record<string, string>;
+  withheld?: Record<string, string>;
 }): string {
   // Sort keys and stringify deterministically
   const canonical = {
+    ...(commitment.group && {
+      group: { participants: commitment.group.participants, threshold: commitment.group.threshold },
+    }),
     id: commitment.id,
-    payload: sortObjectKeys(commitment.payload),
+    ...(commitment.salts
+      ? { fields: sortObjectKeys(hashPayloadFields(commitment.payload, commitment.salts, commitment.withheld)) }
+      : { payload: sortObjectKeys(commitment.payload) }),
     signature: commitment.signature,
+    ...(commitment.signers && {
+      signers: commitment.signers.map(s => ({ publicKey: s.publicKey, signature: s.signature })),
+    }),
     timestamp: commitment.timestamp,
     type: commitment.type,
   };
@@ -324,10 +819,25 @@ export function canonicalizeCommitment(commitment: {
   return JSON.stringify(canonical);
 }
 
+/**
+ * Salted hash of every payload field, disclosed or withheld.
+ */
+export function hashPayloadFields(
+  payload: unknown,
+  salts: Record<string, string>,
+  withheld: Record<string, string> = {}
+): Record<string, string> {
+  const fields = { ...withheld };
+  for (const [name, salt] of Object.entries(salts)) {
+    fields[name] = hashPayloadField(name, (payload as Record<string, unknown>)[name], salt);
+  }
+  return fields;
+}
+
 /**
  * Recursively sort object keys for deterministic serialization.
  */
-function sortObjectKeys(obj: unknown): unknown {
+export function sortObjectKeys(obj: unknown): unknown {
   if (obj === null || typeof obj !== 'object') {
     return obj;
   }
@@ -3,6 +3,7 @@ export {
   createPlugin,
   TOOL_DEFINITIONS,
   type PluginConfig,
+  type PluginLogger,
   type ToolResult,
   type ToolDefinition,
 } from './plugin.js';
@@ -6,8 +6,12 @@
 
 import { AnchorStore } from '../store/anchor-store.js';
 import type { CommitmentType, CommitmentProof } from '../types.js';
+import { AnchorScheduler } from '../store/scheduler.js';
+import { BackupScheduler } from '../store/backup.js';
 import { ProofHandler } from '../p2p/handler.js';
 import { PROTOCOL_ID } from '../p2p/protocol.js';
+import { encodeCommitmentProofString, decodeCommitmentProofString } from '../encoding/binary.js';
+import { renderFields } from '../schemas/registry.js';
 
 // ============================================================================
 // Plugin Types
@@ -22,6 +26,23 @@ export interface PluginConfig {
   
   /** Rate limit for P2P requests */
   rateLimitPerMinute?: number;
+  
+  /** Anchor automatically according to the store's anchoring strategy */
+  autoAnchor?: boolean;
+  
+  /** Back up the database on a schedule, keeping the newest `retain` backups */
+  autoBackup?: { intervalHours?: number; retain?: number };
+  
+  /** Metadata paths to index for anchors_list `where` filters, e.g. "metadata.priceSats" */
+  metadataIndexes?: string[];
+  
+  /** Host logger for background activity: auto-anchoring and scheduled backups (default: silent) */
+  logger?: PluginLogger;
+}
+
+export interface PluginLogger {
+  info(message: string): void;
+  error(message: string): void;
 }
 
 export interface ToolResult {
@@ -67,6 +88,27 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
           type: 'string',
           description: 'PeerId or BSV address of the other party (optional)',
         },
+        supersedes: {
+          type: 'string',
+          description: 'ID of an earlier commitment this one amends, e.g. renegotiated terms (optional)',
+        },
+        dueAt: {
+          type: 'string',
+          description: 'Deadline as an ISO 8601 date/time, e.g. "2025-03-01T12:00:00Z" (optional)',
+        },
+        schema: {
+          type: 'string',
+          description: 'Schema the fields must match, e.g. "agreement/service-v1"; see anchors_schemas (optional)',
+        },
+        fields: {
+          type: 'object',
+          description: 'Structured data, validated against the schema when one is given (optional)',
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Labels to find it by later, e.g. ["billing", "client:acme"] (optional)',
+        },
       },
       required: ['type', 'subject', 'content'],
     },
@@ -79,7 +121,7 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
       properties: {
         type: {
           type: 'string',
-          enum: ['agreement', 'attestation', 'state', 'custom'],
+          enum: ['agreement', 'attestation', 'state', 'custom', 'revocation', 'fulfillment'],
           description: 'Filter by commitment type',
         },
         subject: {
@@ -90,6 +132,27 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
           type: 'string',
           description: 'Filter by counterparty',
         },
+        latestOnly: {
+          type: 'boolean',
+          description: 'Only the latest version of amended commitments',
+        },
+        schema: {
+          type: 'string',
+          description: 'Filter by schema ID',
+        },
+        overdue: {
+          type: 'boolean',
+          description: 'Only commitments past their deadline and not fulfilled, revoked or superseded',
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only commitments with all of these tags',
+        },
+        where: {
+          type: 'string',
+          description: `Conditions on fields and tags joined with "and", e.g. "metadata.priceSats >= 100 and tags contains 'billing'". Operators: = != > >= < <= contains; quote strings`,
+        },
         limit: {
           type: 'number',
           description: 'Maximum results (default: 20)',
@@ -97,6 +160,73 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
       },
     },
   },
+  {
+    name: 'anchors_search',
+    description: 'Search your commitments by what they say - subject, content and metadata - best matches first. Use this to recall what you promised or attested about a topic.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Words to search for, e.g. "logging refactor"',
+        },
+        type: {
+          type: 'string',
+          enum: ['agreement', 'attestation', 'state', 'custom', 'revocation', 'fulfillment'],
+          description: 'Only commitments of this type',
+        },
+        latestOnly: {
+          type: 'boolean',
+          description: 'Only the latest version of amended commitments',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum results (default: 10)',
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'anchors_revoke',
+    description: 'Revoke a commitment made by mistake. Appends a signed revocation that stays visible in history; the original is not erased.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        commitmentId: {
+          type: 'string',
+          description: 'ID of the commitment to revoke',
+        },
+        reason: {
+          type: 'string',
+          description: 'Why the commitment is being revoked',
+        },
+      },
+      required: ['commitmentId', 'reason'],
+    },
+  },
+  {
+    name: 'anchors_fulfill',
+    description: 'Record that a commitment was carried out. Appends a signed fulfillment linked to the original, with optional evidence.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        commitmentId: {
+          type: 'string',
+          description: 'ID of the commitment that was fulfilled',
+        },
+        txid: {
+          type: 'string',
+          description: 'Transaction that settled it, e.g. a payment (optional)',
+        },
+        note: {
+          type: 'string',
+          description: 'Other evidence, e.g. a link to the delivered work (optional)',
+        },
+      },
+      required: ['commitmentId'],
+    },
+  },
   {
     name: 'anchors_prove',
     description: 'Generate a cryptographic proof for a commitment. The proof can be shared with others to verify the commitment was anchored on-chain.',
@@ -118,8 +248,8 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
       type: 'object',
       properties: {
         proof: {
-          type: 'object',
-          description: 'The proof object to verify',
+          type: ['object', 'string'],
+          description: 'The proof object to verify, or its compact base64url encoding',
         },
         publicKey: {
           type: 'string',
@@ -146,6 +276,14 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
       },
     },
   },
+  {
+    name: 'anchors_schemas',
+    description: 'List the commitment schemas available for anchors_commit, with their fields.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
   {
     name: 'anchors_status',
     description: 'Get the status of the anchor store including commitment count, tree root, and latest anchor.',
@@ -190,6 +328,8 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
 export class AnchorsPlugin {
   private store: AnchorStore | null = null;
   private handler: ProofHandler | null = null;
+  private scheduler: AnchorScheduler | null = null;
+  private backupScheduler: BackupScheduler | null = null;
   private config: PluginConfig;
   
   constructor(config: PluginConfig = {}) {
@@ -200,7 +340,9 @@ export class AnchorsPlugin {
    * Initialize the plugin.
    */
   async initialize(): Promise<void> {
-    this.store = await AnchorStore.open(this.config.dataDir);
+    this.store = await AnchorStore.open(this.config.dataDir, {
+      metadataIndexes: this.config.metadataIndexes,
+    });
     
     if (this.config.enableP2P) {
       this.handler = new ProofHandler({
@@ -208,6 +350,32 @@ export class AnchorsPlugin {
         rateLimitPerMinute: this.config.rateLimitPerMinute,
       });
     }
+    
+    if (this.config.autoAnchor) {
+      this.scheduler = new AnchorScheduler({
+        store: this.store,
+        onAnchor: (anchor) => {
+          this.config.logger?.info(`[anchors] Anchored ${anchor.commitmentCount} commitments in ${anchor.txid}`);
+        },
+        onError: (error, retryAt) => {
+          this.config.logger?.error(`[anchors] Auto-anchor failed, retrying at ${new Date(retryAt).toISOString()}: ${error.message}`);
+        },
+      });
+      this.scheduler.start();
+    }
+    
+    if (this.config.autoBackup) {
+      const { intervalHours = 24, retain } = this.config.autoBackup;
+      this.backupScheduler = new BackupScheduler({
+        store: this.store,
+        intervalMs: intervalHours * 3_600_000,
+        retain,
+        onError: (error) => {
+          this.config.logger?.error(`[anchors] Scheduled backup failed: ${error.message}`);
+        },
+      });
+      this.backupScheduler.start();
+    }
   }
   
   /**
@@ -236,19 +404,27 @@ export class AnchorsPlugin {
     try {
       switch (name) {
         case 'anchors_commit':
-          return this.commit(args);
+          return await this.commit(args);
         case 'anchors_list':
-          return this.list(args);
+          return await this.list(args);
+        case 'anchors_search':
+          return await this.search(args);
+        case 'anchors_revoke':
+          return await this.revoke(args);
+        case 'anchors_fulfill':
+          return await this.fulfill(args);
         case 'anchors_prove':
-          return this.prove(args);
+          return await this.prove(args);
         case 'anchors_verify':
-          return this.verify(args);
+          return await this.verify(args);
         case 'anchors_anchor':
-          return this.anchor(args);
+          return await this.anchor(args);
+        case 'anchors_schemas':
+          return await this.listSchemas();
         case 'anchors_status':
-          return this.status();
+          return await this.status();
         case 'anchors_request':
-          return this.request(args);
+          return await this.request(args);
         default:
           return this.error(`Unknown tool: ${name}`);
       }
@@ -261,6 +437,8 @@ export class AnchorsPlugin {
    * Cleanup.
    */
   close(): void {
+    this.scheduler?.stop();
+    this.backupScheduler?.stop();
     this.store?.close();
   }
   
@@ -269,16 +447,29 @@ export class AnchorsPlugin {
   // --------------------------------------------------------------------------
   
   private async commit(args: Record<string, unknown>): Promise<ToolResult> {
-    const { type, subject, content, counterparty } = args as {
+    const { type, subject, content, counterparty, supersedes, dueAt, schema, fields, tags } = args as {
       type: CommitmentType;
       subject: string;
       content: string;
       counterparty?: string;
+      supersedes?: string;
+      dueAt?: string;
+      schema?: string;
+      fields?: Record<string, unknown>;
+      tags?: string[];
     };
     
+    const due = dueAt !== undefined ? Date.parse(dueAt) : undefined;
+    if (Number.isNaN(due)) {
+      return this.error(`Invalid dueAt: ${dueAt}`);
+    }
+    
     const commitment = await this.store!.commit({
       type,
-      payload: { subject, content, counterparty },
+      payload: { subject, content, counterparty, metadata: fields, tags },
+      supersedes,
+      dueAt: due,
+      schema,
     });
     
     const unanchored = await this.store!.getUnanchoredCount();
@@ -287,17 +478,22 @@ export class AnchorsPlugin {
 
 **ID:** \`${commitment.id}\`
 **Type:** ${commitment.type}
-**Subject:** ${commitment.payload.subject}
+**Subject:** ${commitment.payload.subject}${tags ? `\n**Tags:** ${tags.join(', ')}` : ''}
 **Leaf hash:** \`${commitment.leafHash?.substring(0, 16)}...\`
 
 ${unanchored} commitment(s) pending anchor. Use \`anchors_anchor\` to broadcast.`);
   }
   
   private async list(args: Record<string, unknown>): Promise<ToolResult> {
-    const { type, subject, counterparty, limit = 20 } = args as {
+    const { type, subject, counterparty, latestOnly, schema, overdue, tags, where, limit = 20 } = args as {
       type?: CommitmentType;
       subject?: string;
       counterparty?: string;
+      latestOnly?: boolean;
+      schema?: string;
+      overdue?: boolean;
+      tags?: string[];
+      where?: string;
       limit?: number;
     };
     
@@ -305,6 +501,11 @@ ${unanchored} commitment(s) pending anchor. Use \`anchors_anchor\` to broadcast.
       type,
       subject,
       counterparty,
+      latestOnly,
+      schema,
+      overdue,
+      tags,
+      where,
       limit,
     });
     
@@ -314,12 +515,72 @@ ${unanchored} commitment(s) pending anchor. Use \`anchors_anchor\` to broadcast.
     
     const lines = commitments.map(c => {
       const date = new Date(c.timestamp).toISOString().split('T')[0];
-      return `- **${c.id}** (${c.type}) - ${c.payload.subject} [${date}]`;
+      const revoked = c.revocation ? ' — revoked' : '';
+      const fulfilled = c.fulfillment ? (c.fulfillment.late ? ' — fulfilled late' : ' — fulfilled') : '';
+      const tagged = c.payload.tags?.length ? ` #${c.payload.tags.join(' #')}` : '';
+      const line = `- **${c.id}** (${c.type}) - ${c.payload.subject} [${date}]${tagged}${revoked}${fulfilled}`;
+      
+      const schema = typeof c.payload.metadata?.schema === 'string'
+        ? this.store!.getSchema(c.payload.metadata.schema)
+        : null;
+      if (!schema) return line;
+      
+      const fields = renderFields(schema, c.payload.metadata).map(f => `\n  - ${f.label}: ${f.value}`);
+      return `${line} _${schema.id}_${fields.join('')}`;
     });
     
     return this.text(`Found ${commitments.length} commitment(s):\n\n${lines.join('\n')}`);
   }
   
+  private async search(args: Record<string, unknown>): Promise<ToolResult> {
+    const { query, type, latestOnly, limit = 10 } = args as {
+      query: string;
+      type?: CommitmentType;
+      latestOnly?: boolean;
+      limit?: number;
+    };
+    
+    const results = await this.store!.search(query, { type, latestOnly, limit });
+    
+    if (results.length === 0) {
+      return this.text(`No commitments found for "${query}".`);
+    }
+    
+    const lines = results.map(({ commitment: c, snippet }) => {
+      const date = new Date(c.timestamp).toISOString().split('T')[0];
+      const revoked = c.revocation ? ' — revoked' : '';
+      const fulfilled = c.fulfillment ? (c.fulfillment.late ? ' — fulfilled late' : ' — fulfilled') : '';
+      return `- **${c.id}** (${c.type}) - ${c.payload.subject} [${date}]${revoked}${fulfilled}\n  > ${snippet}`;
+    });
+    
+    return this.text(`Found ${results.length} commitment(s) for "${query}", best matches first:\n\n${lines.join('\n')}`);
+  }
+  
+  private async revoke(args: Record<string, unknown>): Promise<ToolResult> {
+    const { commitmentId, reason } = args as { commitmentId: string; reason: string };
+    
+    const revocation = await this.store!.revoke(commitmentId, reason);
+    
+    return this.text(`✅ Commitment \`${commitmentId}\` revoked
+
+**Revocation ID:** \`${revocation.id}\`
+**Reason:** ${reason}
+
+The revocation will be anchored with the next anchor.`);
+  }
+  
+  private async fulfill(args: Record<string, unknown>): Promise<ToolResult> {
+    const { commitmentId, txid, note } = args as { commitmentId: string; txid?: string; note?: string };
+    
+    const fulfillment = await this.store!.fulfill(commitmentId, { txid, note });
+    
+    return this.text(`✅ Commitment \`${commitmentId}\` fulfilled
+
+**Fulfillment ID:** \`${fulfillment.id}\`${txid ? `\n**Evidence txid:** \`${txid}\`` : ''}
+
+The fulfillment will be anchored with the next anchor.`);
+  }
+  
   private async prove(args: Record<string, unknown>): Promise<ToolResult> {
     const { commitmentId } = args as { commitmentId: string };
     
@@ -335,17 +596,23 @@ ${unanchored} commitment(s) pending anchor. Use \`anchors_anchor\` to broadcast.
 **Block:** ${proof.anchor.blockHeight ?? 'pending'}
 **Root hash:** \`${proof.merkleProof.rootHash.substring(0, 16)}...\`
 
+**Compact:** \`${encodeCommitmentProofString(proof)}\`
+
 \`\`\`json
 ${JSON.stringify(proof, null, 2)}
 \`\`\``);
   }
   
   private async verify(args: Record<string, unknown>): Promise<ToolResult> {
-    const { proof, publicKey } = args as { 
-      proof: CommitmentProof; 
+    const { proof: rawProof, publicKey } = args as { 
+      proof: CommitmentProof | string; 
       publicKey?: string;
     };
     
+    const proof = typeof rawProof === 'string'
+      ? decodeCommitmentProofString(rawProof)
+      : rawProof;
+    
     let isValid: boolean;
     let level: string;
     
@@ -420,6 +687,17 @@ ${payloadHex}
 🔍 [View on WhatsOnChain](https://whatsonchain.com/tx/${anchor.txid})`);
   }
   
+  private async listSchemas(): Promise<ToolResult> {
+    const sections = this.store!.listSchemas().map(schema => {
+      const fields = Object.entries(schema.fields).map(([name, field]) =>
+        `  - \`${name}\` (${field.type}${field.required ? ', required' : ''}) — ${field.label}`
+      );
+      return `- **${schema.id}** (${schema.type}) - ${schema.description}\n${fields.join('\n')}`;
+    });
+    
+    return this.text(`Available schemas:\n\n${sections.join('\n')}`);
+  }
+  
   private async status(): Promise<ToolResult> {
     const state = await this.store!.getTreeState();
     const count = await this.store!.count();
@@ -4,7 +4,14 @@
  * High-level client for requesting proofs from peers via bsv-p2p.
  */
 
-import type { CommitmentProof, CommitmentType } from '../types.js';
+import type {
+  Commitment,
+  CommitmentBatchProof,
+  CommitmentInput,
+  CommitmentProof,
+  CommitmentType,
+  MetadataFilter,
+} from '../types.js';
 import { AnchorStore } from '../store/anchor-store.js';
 import { ProofHandler } from './handler.js';
 import {
@@ -14,6 +21,7 @@ import {
   encodeMessage,
   decodeMessage,
   createProofRequest,
+  createCosignProposal,
 } from './protocol.js';
 
 // ============================================================================
@@ -105,6 +113,8 @@ export class ProofClient {
     since?: Date | number;
     until?: Date | number;
     limit?: number;
+    tags?: string[];
+    where?: string | MetadataFilter[];
   }): Promise<{ proofs: CommitmentProof[]; publicKey?: string }> {
     const request = createProofRequest({
       query: {
@@ -114,6 +124,8 @@ export class ProofClient {
         since: query.since instanceof Date ? query.since.getTime() : query.since,
         until: query.until instanceof Date ? query.until.getTime() : query.until,
         limit: query.limit,
+        tags: query.tags,
+        where: query.where,
       },
       options: { includePublicKey: true, requireAnchored: true },
     });
@@ -140,6 +152,56 @@ export class ProofClient {
     };
   }
   
+  /**
+   * Query proofs from a peer as a single batch proof.
+   * Shared siblings are sent once instead of once per commitment.
+   */
+  async queryBatch(peerId: string, query: {
+    type?: CommitmentType;
+    subject?: string;
+    counterparty?: string;
+    since?: Date | number;
+    until?: Date | number;
+    limit?: number;
+    tags?: string[];
+    where?: string | MetadataFilter[];
+  }): Promise<{ batch: CommitmentBatchProof | null; publicKey?: string }> {
+    const request = createProofRequest({
+      query: {
+        type: query.type,
+        subject: query.subject,
+        counterparty: query.counterparty,
+        since: query.since instanceof Date ? query.since.getTime() : query.since,
+        until: query.until instanceof Date ? query.until.getTime() : query.until,
+        limit: query.limit,
+        tags: query.tags,
+        where: query.where,
+      },
+      options: { includePublicKey: true, requireAnchored: true, batch: true },
+    });
+    
+    const responseData = await this.transport.request(
+      peerId,
+      PROTOCOL_ID,
+      encodeMessage(request)
+    );
+    
+    const response = decodeMessage(responseData) as ProofResponse;
+    
+    if (response.type !== 'PROOF_RESPONSE') {
+      throw new Error(`Unexpected response type: ${response.type}`);
+    }
+    
+    if (response.error) {
+      throw new Error(response.error);
+    }
+    
+    return {
+      batch: response.batch ?? null,
+      publicKey: response.publicKey,
+    };
+  }
+  
   /**
    * Request all agreement proofs with a specific counterparty.
    */
@@ -207,6 +269,41 @@ export class ProofClient {
     return true;
   }
   
+  /**
+   * Propose a commitment for a peer to co-sign, and store it once they have.
+   * @returns The stored commitment carrying both parties' signatures
+   */
+  async proposeCosigned(peerId: string, input: CommitmentInput): Promise<Commitment> {
+    const proposal = await this.store.propose(input);
+    const message = createCosignProposal(proposal);
+    
+    const responseData = await this.transport.request(
+      peerId,
+      PROTOCOL_ID,
+      encodeMessage(message)
+    );
+    
+    const response = decodeMessage(responseData);
+    
+    if (response.type === 'PROOF_ERROR') {
+      throw new Error(`${response.code}: ${response.message}`);
+    }
+    
+    if (response.type !== 'COSIGN_ACCEPTANCE') {
+      throw new Error(`Unexpected response type: ${response.type}`);
+    }
+    
+    if (!response.accepted || !response.commitment) {
+      throw new Error(response.error ?? 'Proposal declined');
+    }
+    
+    if (response.proposalId !== message.proposalId || response.commitment.id !== proposal.id) {
+      throw new Error('Acceptance does not match the proposal');
+    }
+    
+    return this.store.recordCosigned(response.commitment);
+  }
+  
   /**
    * Get the protocol handler for registering with bsv-p2p.
    */
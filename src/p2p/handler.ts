@@ -1,11 +1,12 @@
 /**
  * bsv-anchors - P2P Protocol Handler
  * 
- * Handles incoming proof requests and manages proof exchange.
+ * Handles incoming proof requests and co-sign proposals, and manages
+ * proof exchange.
  */
 
 import { AnchorStore } from '../store/anchor-store.js';
-import type { CommitmentProof, CommitmentQuery } from '../types.js';
+import type { Commitment, CommitmentProof, CommitmentProposal, CommitmentQuery } from '../types.js';
 import {
   PROTOCOL_ID,
   type ProofMessage,
@@ -14,12 +15,14 @@ import {
   type ProofPush,
   type ProofAck,
   type ProofError,
+  type CosignProposal,
   encodeMessage,
   decodeMessage,
   createProofResponse,
   createProofAck,
   createProofError,
   createProofPush,
+  createCosignAcceptance,
   validateRequest,
 } from './protocol.js';
 
@@ -42,6 +45,9 @@ export interface ProofHandlerConfig {
   
   /** Callback when a proof is pushed to us */
   onProofReceived?: (proof: CommitmentProof, publicKey: string, peerId: string) => void;
+  
+  /** Decide whether to co-sign a peer's proposal (default: decline all) */
+  onCosignProposal?: (proposal: CommitmentProposal, peerId: string) => boolean | Promise<boolean>;
 }
 
 export interface PendingRequest {
@@ -69,6 +75,7 @@ export class ProofHandler {
       includePublicKey: config.includePublicKey ?? true,
       rateLimitPerMinute: config.rateLimitPerMinute ?? 60,
       onProofReceived: config.onProofReceived ?? (() => {}),
+      onCosignProposal: config.onCosignProposal ?? (() => false),
     };
   }
   
@@ -105,6 +112,13 @@ export class ProofHandler {
           this.handleError(message);
           return null;
           
+        case 'COSIGN_PROPOSAL':
+          return this.handleCosignProposal(message, peerId);
+          
+        case 'COSIGN_ACCEPTANCE':
+          // Acceptances answer our proposals; the client reads them directly
+          return null;
+          
         default:
           return encodeMessage(createProofError(
             'INVALID_REQUEST',
@@ -159,11 +173,17 @@ export class ProofHandler {
           counterparty: request.query.counterparty,
           since: request.query.since,
           until: request.query.until,
+          tags: request.query.tags,
+          where: request.query.where,
           limit: Math.min(request.query.limit ?? 50, this.config.maxProofsPerRequest),
         };
         
         const commitments = await this.store.query(query);
         
+        if (request.options?.batch) {
+          return encodeMessage(await this.buildBatchResponse(request, commitments));
+        }
+        
         // Generate proofs for each commitment
         for (const commitment of commitments) {
           const proof = await this.store.prove(commitment.id);
@@ -201,6 +221,34 @@ export class ProofHandler {
     }
   }
   
+  /**
+   * Build a response carrying one multiproof for all anchored matches.
+   * 
+   * With `requireAnchored`, matches are skipped as they are for single
+   * proofs: those whose first anchor has no block height yet. The batch is
+   * proven against the first anchor of the newest match left, which then
+   * has a block height too.
+   */
+  private async buildBatchResponse(request: ProofRequest, commitments: Commitment[]): Promise<ProofResponse> {
+    const anchors = await this.store.listAnchors();
+    const anchoredIds = commitments
+      .filter(c => {
+        const anchor = c.treeIndex !== undefined && anchors.find(a => a.commitmentCount > c.treeIndex!);
+        return anchor && (!request.options?.requireAnchored || anchor.blockHeight);
+      })
+      .map(c => c.id);
+    
+    const batch = anchoredIds.length > 0 ? await this.store.proveBatch(anchoredIds) : null;
+    
+    return createProofResponse(request.requestId, [], {
+      publicKey: (request.options?.includePublicKey || this.config.includePublicKey)
+        ? this.store.getPublicKey()
+        : undefined,
+      batch: batch ?? undefined,
+      total: batch?.commitments.length ?? 0,
+    });
+  }
+  
   /**
    * Handle a proof response (for pending requests).
    */
@@ -234,6 +282,32 @@ export class ProofHandler {
     }
   }
   
+  /**
+   * Handle a co-sign proposal: co-sign and store it if the callback agrees.
+   */
+  private async handleCosignProposal(message: CosignProposal, peerId: string): Promise<Uint8Array> {
+    if (!this.checkRateLimit(peerId)) {
+      return encodeMessage(createCosignAcceptance(message.proposalId, false, {
+        error: 'Too many requests. Please slow down.',
+      }));
+    }
+    
+    try {
+      if (!await this.config.onCosignProposal(message.proposal, peerId)) {
+        return encodeMessage(createCosignAcceptance(message.proposalId, false, {
+          error: 'Proposal declined',
+        }));
+      }
+      
+      const commitment = await this.store.cosign(message.proposal);
+      return encodeMessage(createCosignAcceptance(message.proposalId, true, { commitment }));
+    } catch (error) {
+      return encodeMessage(createCosignAcceptance(message.proposalId, false, {
+        error: error instanceof Error ? error.message : 'Co-signing failed',
+      }));
+    }
+  }
+  
   /**
    * Handle an error message.
    */
@@ -10,6 +10,8 @@ export {
   type ProofAck,
   type ProofError,
   type ProofErrorCode,
+  type CosignProposal,
+  type CosignAcceptance,
   encodeMessage,
   decodeMessage,
   createProofRequest,
@@ -17,8 +19,11 @@ export {
   createProofPush,
   createProofAck,
   createProofError,
+  createCosignProposal,
+  createCosignAcceptance,
   generateRequestId,
   generatePushId,
+  generateProposalId,
   validateRequest,
 } from './protocol.js';
 
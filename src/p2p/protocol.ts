@@ -1,17 +1,22 @@
 /**
  * bsv-anchors - P2P Proof Protocol
  * 
- * Protocol for requesting and exchanging commitment proofs over bsv-p2p.
+ * Protocol for requesting and exchanging commitment proofs over bsv-p2p,
+ * and for co-signing bilateral commitments.
  * 
  * Protocol ID: /bsv-anchors/proof/1.0.0
  */
 
 import type { 
   CommitmentProof, 
+  CommitmentBatchProof,
   CommitmentQuery, 
   CommitmentType,
-  Commitment 
+  CommitmentProposal,
+  Commitment,
+  MetadataFilter
 } from '../types.js';
+import { parseFilter, checkFilter } from '../store/filter.js';
 
 // ============================================================================
 // Protocol Constants
@@ -29,7 +34,9 @@ export type ProofMessageType =
   | 'PROOF_RESPONSE'
   | 'PROOF_PUSH'
   | 'PROOF_ACK'
-  | 'PROOF_ERROR';
+  | 'PROOF_ERROR'
+  | 'COSIGN_PROPOSAL'
+  | 'COSIGN_ACCEPTANCE';
 
 /**
  * Request proofs from a peer.
@@ -49,6 +56,10 @@ export interface ProofRequest {
     since?: number;
     until?: number;
     limit?: number;
+    /** Only commitments carrying every one of these tags */
+    tags?: string[];
+    /** Conditions on metadata paths and tags, e.g. "metadata.priceSats >= 100" */
+    where?: string | MetadataFilter[];
   };
   
   /** Verification requirements */
@@ -59,6 +70,8 @@ export interface ProofRequest {
     minConfirmations?: number;
     /** Include the signer's public key */
     includePublicKey?: boolean;
+    /** Return query results as one batch proof instead of separate proofs */
+    batch?: boolean;
   };
 }
 
@@ -72,6 +85,9 @@ export interface ProofResponse {
   /** Matching proofs */
   proofs: CommitmentProof[];
   
+  /** Matching commitments under one multiproof (batch requests) */
+  batch?: CommitmentBatchProof;
+  
   /** Signer's public key (if requested) */
   publicKey?: string;
   
@@ -116,6 +132,34 @@ export interface ProofAck {
   error?: string;
 }
 
+/**
+ * Ask a peer to co-sign a commitment.
+ */
+export interface CosignProposal {
+  type: 'COSIGN_PROPOSAL';
+  proposalId: string;
+  
+  /** The commitment, signed by the proposer */
+  proposal: CommitmentProposal;
+}
+
+/**
+ * Answer to a co-sign proposal.
+ */
+export interface CosignAcceptance {
+  type: 'COSIGN_ACCEPTANCE';
+  proposalId: string;
+  
+  /** Whether the peer co-signed */
+  accepted: boolean;
+  
+  /** The commitment carrying both signatures (if accepted) */
+  commitment?: Commitment;
+  
+  /** Why the proposal was declined */
+  error?: string;
+}
+
 /**
  * Error response.
  */
@@ -144,7 +188,9 @@ export type ProofMessage =
   | ProofResponse 
   | ProofPush 
   | ProofAck 
-  | ProofError;
+  | ProofError
+  | CosignProposal
+  | CosignAcceptance;
 
 // ============================================================================
 // Message Encoding/Decoding
@@ -167,7 +213,8 @@ export function decodeMessage(data: Uint8Array): ProofMessage {
   
   // Validate message type
   const validTypes: ProofMessageType[] = [
-    'PROOF_REQUEST', 'PROOF_RESPONSE', 'PROOF_PUSH', 'PROOF_ACK', 'PROOF_ERROR'
+    'PROOF_REQUEST', 'PROOF_RESPONSE', 'PROOF_PUSH', 'PROOF_ACK', 'PROOF_ERROR',
+    'COSIGN_PROPOSAL', 'COSIGN_ACCEPTANCE',
   ];
   
   if (!validTypes.includes(message.type)) {
@@ -195,6 +242,13 @@ export function generatePushId(): string {
   return `push_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
+/**
+ * Generate a unique co-sign proposal ID.
+ */
+export function generateProposalId(): string {
+  return `prop_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
 /**
  * Create a proof request message.
  */
@@ -218,14 +272,15 @@ export function createProofRequest(params: {
 export function createProofResponse(
   requestId: string,
   proofs: CommitmentProof[],
-  options?: { publicKey?: string; total?: number; error?: string }
+  options?: { publicKey?: string; total?: number; error?: string; batch?: CommitmentBatchProof }
 ): ProofResponse {
   return {
     type: 'PROOF_RESPONSE',
     requestId,
     proofs,
+    batch: options?.batch,
     publicKey: options?.publicKey,
-    total: options?.total ?? proofs.length,
+    total: options?.total ?? (options?.batch?.commitments.length ?? proofs.length),
     error: options?.error,
   };
 }
@@ -264,6 +319,34 @@ export function createProofAck(
   };
 }
 
+/**
+ * Create a co-sign proposal message.
+ */
+export function createCosignProposal(proposal: CommitmentProposal): CosignProposal {
+  return {
+    type: 'COSIGN_PROPOSAL',
+    proposalId: generateProposalId(),
+    proposal,
+  };
+}
+
+/**
+ * Create a co-sign acceptance (or refusal).
+ */
+export function createCosignAcceptance(
+  proposalId: string,
+  accepted: boolean,
+  options?: { commitment?: Commitment; error?: string }
+): CosignAcceptance {
+  return {
+    type: 'COSIGN_ACCEPTANCE',
+    proposalId,
+    accepted,
+    commitment: options?.commitment,
+    error: options?.error,
+  };
+}
+
 /**
  * Create an error response.
  */
@@ -297,5 +380,25 @@ export function validateRequest(request: ProofRequest): { valid: boolean; error?
     return { valid: false, error: 'Query limit cannot exceed 100' };
   }
   
+  const tags = request.query?.tags;
+  if (tags !== undefined && !(Array.isArray(tags) && tags.every(tag => typeof tag === 'string'))) {
+    return { valid: false, error: 'Query tags must be an array of strings' };
+  }
+  
+  const where = request.query?.where;
+  if (where !== undefined) {
+    try {
+      if (typeof where === 'string') {
+        parseFilter(where);
+      } else if (Array.isArray(where)) {
+        where.forEach(checkFilter);
+      } else {
+        return { valid: false, error: 'Query where must be a filter expression' };
+      }
+    } catch (err) {
+      return { valid: false, error: (err as Error).message };
+    }
+  }
+  
   return { valid: true };
 }
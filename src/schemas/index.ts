@@ -0,0 +1,6 @@
+export {
+  SchemaRegistry,
+  BUILTIN_SCHEMAS,
+  validateMetadata,
+  renderFields,
+} from './registry.js';
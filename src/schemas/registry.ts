@@ -0,0 +1,196 @@
+/**
+ * bsv-anchors - Commitment Schemas
+ * 
+ * Named metadata shapes that commitments are validated against before
+ * they are signed, so malformed agreements never reach permanent storage.
+ */
+
+import type { CommitmentSchema, SchemaField, SchemaFieldType } from '../types.js';
+import { sortObjectKeys } from '../merkle/tree.js';
+
+// ============================================================================
+// Built-in Schemas
+// ============================================================================
+
+export const BUILTIN_SCHEMAS: CommitmentSchema[] = [
+  {
+    id: 'agreement/service-v1',
+    type: 'agreement',
+    description: 'A service delivered for a price by a deadline',
+    fields: {
+      priceSats: { type: 'integer', label: 'Price (sats)', required: true, min: 0 },
+      deadline: { type: 'timestamp', label: 'Deadline', required: true },
+      deliverable: { type: 'string', label: 'Deliverable', required: true },
+    },
+  },
+];
+
+/** Metadata keys the store sets itself, which schemas can't define */
+const RESERVED_FIELDS = ['schema', 'supersedes', 'supersededLeafHash', 'dueAt', 'encryption'];
+
+const FIELD_TYPES: SchemaFieldType[] = ['string', 'number', 'integer', 'boolean', 'timestamp'];
+
+// ============================================================================
+// Schema Registry
+// ============================================================================
+
+/**
+ * Schemas by ID, starting with the built-in ones.
+ */
+export class SchemaRegistry {
+  private schemas = new Map<string, CommitmentSchema>();
+  
+  constructor(schemas: CommitmentSchema[] = []) {
+    for (const schema of [...BUILTIN_SCHEMAS, ...schemas]) {
+      this.register(schema);
+    }
+  }
+  
+  /**
+   * Add a schema. Registering an identical definition again does nothing;
+   * a different definition under an existing ID is rejected.
+   */
+  register(schema: CommitmentSchema): void {
+    checkSchemaDefinition(schema);
+    
+    const existing = this.schemas.get(schema.id);
+    if (existing) {
+      if (!sameDefinition(existing, schema)) {
+        throw new Error(`Schema ${schema.id} is already registered differently; register a new version instead`);
+      }
+      return;
+    }
+    
+    this.schemas.set(schema.id, structuredClone(schema));
+  }
+  
+  /**
+   * Get a schema by ID.
+   */
+  get(id: string): CommitmentSchema | null {
+    const schema = this.schemas.get(id);
+    return schema ? structuredClone(schema) : null;
+  }
+  
+  /**
+   * List all schemas, by ID.
+   */
+  list(): CommitmentSchema[] {
+    return [...this.schemas.values()]
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map(schema => structuredClone(schema));
+  }
+}
+
+// ============================================================================
+// Validation & Rendering
+// ============================================================================
+
+/**
+ * Check metadata against a schema.
+ * @returns Problems found, empty if the metadata matches
+ */
+export function validateMetadata(
+  schema: CommitmentSchema,
+  metadata: Record<string, unknown> | undefined
+): string[] {
+  const problems: string[] = [];
+  const values = metadata ?? {};
+  
+  for (const [name, field] of Object.entries(schema.fields)) {
+    const value = values[name];
+    if (value === undefined) {
+      if (field.required) problems.push(`${name} is required`);
+      continue;
+    }
+    
+    const problem = checkValue(field, value);
+    if (problem) problems.push(`${name} ${problem}`);
+  }
+  
+  for (const name of Object.keys(values)) {
+    if (!(name in schema.fields)) {
+      problems.push(`${name} is not a field of ${schema.id}`);
+    }
+  }
+  
+  return problems;
+}
+
+/**
+ * Label and format the schema fields present in metadata, in schema order.
+ */
+export function renderFields(
+  schema: CommitmentSchema,
+  metadata: Record<string, unknown> | undefined
+): Array<{ label: string; value: string }> {
+  const rendered: Array<{ label: string; value: string }> = [];
+  
+  for (const [name, field] of Object.entries(schema.fields)) {
+    const value = metadata?.[name];
+    if (value === undefined) continue;
+    
+    rendered.push({
+      label: field.label,
+      value: field.type === 'timestamp' && typeof value === 'number'
+        ? new Date(value).toISOString()
+        : String(value),
+    });
+  }
+  
+  return rendered;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Why a value doesn't fit a field, or null if it does.
+ */
+function checkValue(field: SchemaField, value: unknown): string | null {
+  switch (field.type) {
+    case 'string':
+      if (typeof value !== 'string') return 'must be a string';
+      if (field.enum && !field.enum.includes(value)) {
+        return `must be one of: ${field.enum.join(', ')}`;
+      }
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be a boolean';
+    case 'timestamp':
+      return Number.isSafeInteger(value) && (value as number) > 0
+        ? null
+        : 'must be a Unix timestamp in milliseconds';
+    case 'integer':
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a number';
+      if (field.type === 'integer' && !Number.isSafeInteger(value)) return 'must be an integer';
+      if (field.min !== undefined && value < field.min) return `must be at least ${field.min}`;
+      if (field.max !== undefined && value > field.max) return `must be at most ${field.max}`;
+      return null;
+    }
+  }
+}
+
+function checkSchemaDefinition(schema: CommitmentSchema): void {
+  if (!schema.id) {
+    throw new Error('Schema must have an ID');
+  }
+  if (schema.type === 'revocation' || schema.type === 'fulfillment') {
+    throw new Error(`Schema ${schema.id}: ${schema.type} commitments can't have a schema`);
+  }
+  
+  for (const [name, field] of Object.entries(schema.fields)) {
+    if (RESERVED_FIELDS.includes(name)) {
+      throw new Error(`Schema ${schema.id}: field name ${name} is reserved`);
+    }
+    if (!FIELD_TYPES.includes(field.type)) {
+      throw new Error(`Schema ${schema.id}: field ${name} has unknown type ${field.type}`);
+    }
+  }
+}
+
+function sameDefinition(a: CommitmentSchema, b: CommitmentSchema): boolean {
+  return JSON.stringify(sortObjectKeys(a)) === JSON.stringify(sortObjectKeys(b));
+}
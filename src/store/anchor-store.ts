@@ -7,6 +7,7 @@
 import { randomBytes } from 'crypto';
 import { homedir } from 'os';
 import { join } from 'path';
+import { copyFileSync, existsSync, mkdirSync, mkdtempSync, renameSync, rmSync, statSync } from 'fs';
 import { 
   broadcastAnchor, 
   checkWallet, 
@@ -20,14 +21,103 @@ import type {
   CommitmentInput,
   CommitmentQuery,
   CommitmentProof,
+  CommitmentBatchProof,
+  CommitmentRangeProof,
+  SparseCommitmentProof,
+  AnchorConsistencyProof,
+  AnchorReference,
   MerkleProof,
   Anchor,
   TreeState,
+  TreeVersion,
+  TreeMode,
+  AuditIssue,
+  AuditReport,
   AnchorConfig,
+  AnchorStrategySettings,
+  CommitmentType,
+  RevocationMetadata,
+  FulfillmentEvidence,
+  FulfillmentMetadata,
+  SupersessionMetadata,
+  LineageEntry,
+  CommitmentProposal,
+  CommitmentSignature,
+  GroupPolicy,
+  CommitmentPayload,
+  RedactedCommitment,
+  RedactedCommitmentProof,
+  EncryptionEnvelope,
+  CommitmentSchema,
+  AttachmentRef,
+  StoreBundle,
+  SearchResult,
 } from '../types.js';
 import { AnchorDatabase } from './database.js';
-import { MerkleTree, canonicalizeCommitment, hashLeaf } from '../merkle/tree.js';
-import { loadOrCreateKey, sign, verify, getPublicKey, type KeyPair } from '../crypto/signing.js';
+import { AttachmentStore, hashAttachment, isAttachmentHash } from './attachments.js';
+import { BACKUP_DIR, backupFileName, type BackupInfo } from './backup.js';
+import {
+  MerkleTree,
+  canonicalizeCommitment,
+  hashLeaf,
+  hashPayloadField,
+  sortObjectKeys,
+  type CommitmentTree,
+} from '../merkle/tree.js';
+import { MerkleMountainRange } from '../merkle/mmr.js';
+import {
+  SparseMerkleTree,
+  sparseKeyForAgreement,
+  sparseKeyForCommitment,
+  sparseKeyForRevocation,
+} from '../merkle/sparse.js';
+import {
+  loadOrCreateKey,
+  saveKey,
+  keyExists,
+  sign,
+  verify,
+  getPublicKey,
+  type KeyPair,
+} from '../crypto/signing.js';
+import {
+  encryptForRecipients,
+  decryptWithKey,
+  encryptWithPassphrase,
+  decryptWithPassphrase,
+  ENCRYPTION_SCHEME,
+} from '../crypto/encryption.js';
+import { SchemaRegistry, validateMetadata } from '../schemas/registry.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AnchorStoreOptions {
+  /** Tree algorithm for a new store (default: 1). Existing stores keep theirs. */
+  treeVersion?: TreeVersion;
+  
+  /**
+   * Tree storage for a new store (default: 'full'). 'mmr' keeps only the
+   * peaks and implies tree version 2. Existing stores keep theirs.
+   */
+  treeMode?: TreeMode;
+  
+  /** Anchor a sparse index root for non-membership proofs (persisted once enabled) */
+  sparseIndex?: boolean;
+  
+  /** Metadata paths to index for `where` filters, e.g. `metadata.priceSats` (indexes persist) */
+  metadataIndexes?: string[];
+  
+  /**
+   * Rewrite stored tree nodes and tree state that don't match the
+   * commitments (default: true). Open with false to audit() them as found.
+   */
+  repairTree?: boolean;
+}
+
+/** Bundle format written by exportBundle() */
+const BUNDLE_VERSION = 1;
 
 // ============================================================================
 // Anchor Store
@@ -35,15 +125,20 @@ import { loadOrCreateKey, sign, verify, getPublicKey, type KeyPair } from '../cr
 
 export class AnchorStore {
   private db: AnchorDatabase;
-  private tree: MerkleTree;
+  private tree: CommitmentTree;
   private keyPair: KeyPair;
   private config: AnchorConfig;
+  private schemas: SchemaRegistry;
+  private attachments: AttachmentStore;
+  private commitListeners: Set<(commitment: Commitment) => void> = new Set();
   
-  private constructor(db: AnchorDatabase, tree: MerkleTree, keyPair: KeyPair, config: AnchorConfig) {
+  private constructor(db: AnchorDatabase, tree: CommitmentTree, keyPair: KeyPair, config: AnchorConfig) {
     this.db = db;
     this.tree = tree;
     this.keyPair = keyPair;
     this.config = config;
+    this.schemas = new SchemaRegistry(db.getSchemas());
+    this.attachments = new AttachmentStore(config.dataDir);
   }
   
   // --------------------------------------------------------------------------
@@ -52,8 +147,14 @@ export class AnchorStore {
   
   /**
    * Open or create an anchor store.
+   * 
+   * @param options.treeVersion - Tree algorithm for a new store (default: 1).
+   *   Existing stores keep the version they were created with.
+   * @param options.treeMode - Tree storage for a new store (default: 'full')
+   * @param options.sparseIndex - Anchor a sparse index root from now on
+   * @param options.repairTree - Rewrite mismatched tree tables (default: true)
    */
-  static async open(dataDir?: string): Promise<AnchorStore> {
+  static async open(dataDir?: string, options: AnchorStoreOptions = {}): Promise<AnchorStore> {
     const resolvedDir = dataDir ?? join(homedir(), '.bsv-anchors');
     
     // Open database
@@ -62,23 +163,122 @@ export class AnchorStore {
     // Load or create signing key
     const keyPair = loadOrCreateKey(resolvedDir);
     
+    // Resolve tree mode (stores created before modes keep every node)
+    const storedMode = db.getConfig('tree_mode') as TreeMode | null;
+    let treeMode: TreeMode;
+    
+    if (storedMode) {
+      treeMode = storedMode;
+      if (options.treeMode && options.treeMode !== treeMode) {
+        db.close();
+        throw new Error(`Store uses tree mode ${treeMode}, cannot open as ${options.treeMode}`);
+      }
+    } else {
+      treeMode = db.getCommitmentCount() > 0 ? 'full' : (options.treeMode ?? 'full');
+      if (treeMode === 'mmr' && options.treeVersion === 1) {
+        db.close();
+        throw new Error('Tree mode mmr requires tree version 2');
+      }
+      db.setConfig('tree_mode', treeMode);
+    }
+    
+    // Resolve tree version (stores created before versioning are version 1)
+    const storedVersion = db.getConfig('tree_version');
+    let treeVersion: TreeVersion;
+    
+    if (storedVersion) {
+      treeVersion = parseInt(storedVersion, 10) as TreeVersion;
+      if (options.treeVersion && options.treeVersion !== treeVersion) {
+        db.close();
+        throw new Error(`Store uses tree version ${treeVersion}, cannot open as version ${options.treeVersion}`);
+      }
+    } else if (treeMode === 'mmr') {
+      treeVersion = 2;
+      db.setConfig('tree_version', treeVersion.toString());
+    } else {
+      treeVersion = db.getCommitmentCount() > 0 ? 1 : (options.treeVersion ?? 1);
+      db.setConfig('tree_version', treeVersion.toString());
+    }
+    
+    if (options.sparseIndex) {
+      db.setConfig('sparse_index', 'true');
+    }
+    
+    try {
+      for (const path of options.metadataIndexes ?? []) {
+        db.createMetadataIndex(path);
+      }
+    } catch (err) {
+      db.close();
+      throw err;
+    }
+    
     // Load config
     const config: AnchorConfig = {
       dataDir: resolvedDir,
-      anchorStrategy: (db.getConfig('anchor_strategy') as AnchorConfig['anchorStrategy']) ?? 'manual',
+      ...readAnchorStrategy(db),
+      treeVersion,
+      treeMode,
+      sparseIndex: db.getConfig('sparse_index') === 'true',
     };
     
-    // Rebuild tree from stored commitments
-    const tree = new MerkleTree();
-    const commitments = db.getAllCommitments();
+    // Load tree from persisted nodes, falling back to a full rebuild
+    // if they don't match the commitments and recorded root
+    const tree = AnchorStore.loadTree(db, treeVersion, treeMode, options.repairTree ?? true);
     
-    for (const commitment of commitments) {
+    return new AnchorStore(db, tree, keyPair, config);
+  }
+  
+  /**
+   * Load the tree from `tree_nodes`, rebuilding it from the commitments'
+   * leaf hashes when the stored nodes are missing or out of date.
+   * @param persist - Write a rebuilt tree back to `tree_nodes` and `tree_state`
+   */
+  private static loadTree(
+    db: AnchorDatabase,
+    treeVersion: TreeVersion,
+    treeMode: TreeMode,
+    persist = true
+  ): CommitmentTree {
+    const leafSource = (start: number, end: number) => db.getLeafHashes(start, end);
+    const tree: CommitmentTree = treeMode === 'mmr'
+      ? MerkleMountainRange.fromNodes(db.getTreeNodes(), leafSource)
+      : MerkleTree.fromNodes(db.getTreeNodes(), treeVersion);
+    const state = db.getTreeState();
+    
+    if (tree.leafCount === db.getCommitmentCount() && tree.getRoot() === state.rootHash) {
+      return tree;
+    }
+    
+    const rebuilt = AnchorStore.createTree(treeVersion, treeMode, leafSource);
+    for (const commitment of db.getAllCommitments()) {
       if (commitment.leafHash) {
-        tree.addLeafHash(commitment.leafHash);
+        rebuilt.addLeafHash(commitment.leafHash);
       }
     }
     
-    return new AnchorStore(db, tree, keyPair, config);
+    if (persist) {
+      db.transaction(() => {
+        db.clearTreeNodes();
+        db.saveTreeNodes(rebuilt.getAllNodes());
+        db.saveTreeState({ ...rebuilt.getState(), lastAnchorIndex: state.lastAnchorIndex });
+      });
+    }
+    
+    return rebuilt;
+  }
+  
+  /**
+   * Create an empty tree of the given version and mode.
+   */
+  private static createTree(
+    treeVersion: TreeVersion,
+    treeMode: TreeMode,
+    leafSource: (start: number, end: number) => string[]
+  ): CommitmentTree {
+    return treeMode === 'mmr'
+      ? new MerkleMountainRange(leafSource)
+      : new MerkleTree(treeVersion);
   }
   
   // --------------------------------------------------------------------------
@@ -87,8 +287,294 @@ export class AnchorStore {
   
   /**
    * Create and store a new commitment.
+   * 
+   * @param input.supersedes - Earlier commitment this one amends. It must be
+   *   signed by this store's key and not already amended or revoked.
+   * @param input.recipients - Public keys to encrypt the content and metadata
+   *   to. The subject and counterparty stay readable so the commitment can
+   *   still be queried and indexed.
+   * @param input.dueAt - Deadline for fulfill(); past it, the commitment is
+   *   overdue until fulfilled, revoked or superseded.
+   * @param input.schema - Registered schema the metadata must match
    */
   async commit(input: CommitmentInput): Promise<Commitment> {
+    return this.append(this.prepare(input));
+  }
+  
+  /**
+   * Validate commitment input, encrypt it for its recipients and resolve its
+   * supersedes link.
+   */
+  private prepare(input: CommitmentInput): CommitmentInput {
+    if (input.type === 'revocation') {
+      throw new Error('Use revoke() to create revocations');
+    }
+    if (input.type === 'fulfillment') {
+      throw new Error('Use fulfill() to create fulfillments');
+    }
+    if (input.payload.metadata?.supersedes !== undefined) {
+      throw new Error('Set supersedes on the commitment input, not in metadata');
+    }
+    if (input.payload.metadata?.dueAt !== undefined) {
+      throw new Error('Set dueAt on the commitment input, not in metadata');
+    }
+    if (input.payload.metadata?.schema !== undefined) {
+      throw new Error('Set schema on the commitment input, not in metadata');
+    }
+    if (input.payload.metadata?.encryption !== undefined) {
+      throw new Error('Set recipients on the commitment input, not encryption in metadata');
+    }
+    if (input.dueAt !== undefined && !(Number.isSafeInteger(input.dueAt) && input.dueAt > 0)) {
+      throw new Error('dueAt must be a Unix timestamp in milliseconds');
+    }
+    if (input.schema !== undefined) {
+      this.checkSchema(input);
+    }
+    if (input.payload.attachments) {
+      this.checkAttachments(input.payload.attachments);
+    }
+    if (input.payload.tags !== undefined) {
+      checkTags(input.payload.tags);
+    }
+    
+    const payload = input.recipients
+      ? encryptPayload(input.payload, [...input.recipients, this.keyPair.publicKey])
+      : input.payload;
+    
+    if (!input.supersedes && input.dueAt === undefined && input.schema === undefined) {
+      return { type: input.type, salted: input.salted, payload };
+    }
+    
+    // Links, deadlines and the schema are signed along with the rest of the payload, in the clear
+    const metadata = {
+      ...(input.supersedes ? this.checkSupersedes(input.supersedes) : {}),
+      ...(input.dueAt !== undefined && { dueAt: input.dueAt }),
+      ...(input.schema !== undefined && { schema: input.schema }),
+    };
+    return {
+      type: input.type,
+      salted: input.salted,
+      payload: {
+        ...payload,
+        metadata: { ...payload.metadata, ...metadata },
+      },
+    };
+  }
+  
+  /**
+   * Check that commitment input matches its schema.
+   * @param validateFields - Also check the metadata fields (not possible
+   *   once they are encrypted)
+   */
+  private checkSchema(input: CommitmentInput, validateFields = true): void {
+    const schema = this.schemas.get(input.schema!);
+    if (!schema) {
+      throw new Error(`Unknown schema: ${input.schema}`);
+    }
+    if (schema.type !== input.type) {
+      throw new Error(`Schema ${schema.id} is for ${schema.type} commitments, not ${input.type}`);
+    }
+    if (!validateFields) {
+      return;
+    }
+    
+    const problems = validateMetadata(schema, input.payload.metadata);
+    if (problems.length > 0) {
+      throw new Error(`Metadata does not match schema ${schema.id}: ${problems.join('; ')}`);
+    }
+  }
+  
+  /**
+   * Check that referenced attachments are stored, with the sizes given.
+   */
+  private checkAttachments(refs: AttachmentRef[]): void {
+    for (const ref of refs) {
+      if (!isAttachmentHash(ref.hash)) {
+        throw new Error(`Invalid attachment hash: ${ref.hash}`);
+      }
+      
+      const size = this.attachments.sizeOf(ref.hash);
+      if (size === null) {
+        throw new Error(`Attachment not found: ${ref.hash} (add it with addAttachment() first)`);
+      }
+      if (size !== ref.size) {
+        throw new Error(`Attachment ${ref.hash} is ${size} bytes, not ${ref.size}`);
+      }
+    }
+  }
+  
+  /**
+   * Check that a commitment can be amended.
+   * @param proposer - Key of a counterparty proposing the amendment, which
+   *   must also have signed the commitment
+   */
+  private checkSupersedes(commitmentId: string, proposer?: string): SupersessionMetadata {
+    const previous = this.db.getCommitment(commitmentId);
+    if (!previous) {
+      throw new Error(`Commitment not found: ${commitmentId}`);
+    }
+    if (previous.type === 'revocation' || previous.type === 'fulfillment') {
+      throw new Error(`Cannot supersede a ${previous.type}`);
+    }
+    if (!verifyCommitmentSignature(previous, this.keyPair.publicKey)) {
+      throw new Error(`Commitment ${commitmentId} was made by a different signer`);
+    }
+    if (proposer && !verifyCommitmentSignature(previous, proposer)) {
+      throw new Error(`Commitment ${commitmentId} was not signed by the proposer`);
+    }
+    
+    const next = this.db.getSupersedingCommitment(commitmentId);
+    if (next) {
+      throw new Error(`Commitment ${commitmentId} already superseded by ${next.id}`);
+    }
+    if (this.db.getRevocations([commitmentId]).has(commitmentId)) {
+      throw new Error(`Cannot supersede a revoked commitment: ${commitmentId}`);
+    }
+    
+    return {
+      supersedes: commitmentId,
+      supersededLeafHash: previous.leafHash!,
+    };
+  }
+  
+  /**
+   * Check the links, deadline, schema and tags a proposal's signer set,
+   * as prepare() checks our own input, so a co-signature can't be used to
+   * amend our commitments or skip schema validation.
+   * 
+   * @param storing - Whether the proposal is about to be stored. Proposals
+   *   that are only signed may amend a commitment this store doesn't hold.
+   */
+  private checkProposal(proposal: CommitmentProposal, storing: boolean): void {
+    const { supersedes, supersededLeafHash, dueAt, schema, encryption, ...fields } =
+      proposal.payload.metadata ?? {};
+    const proposer = proposal.signers[0].publicKey;
+    
+    if (!saltsCoverPayload(proposal)) {
+      throw new Error('Proposal salts do not match its payload fields');
+    }
+    if (supersedes !== undefined || supersededLeafHash !== undefined) {
+      if (typeof supersedes !== 'string' || typeof supersededLeafHash !== 'string') {
+        throw new Error('Proposal has an invalid supersedes link');
+      }
+      if (storing || this.db.getCommitment(supersedes)) {
+        const link = this.checkSupersedes(supersedes, proposer);
+        if (supersededLeafHash !== link.supersededLeafHash) {
+          throw new Error(`Proposal's superseded leaf hash does not match ${supersedes}`);
+        }
+      }
+    }
+    if (dueAt !== undefined && !(typeof dueAt === 'number' && Number.isSafeInteger(dueAt) && dueAt > 0)) {
+      throw new Error('dueAt must be a Unix timestamp in milliseconds');
+    }
+    if (encryption !== undefined && (encryption as EncryptionEnvelope | null)?.scheme !== ENCRYPTION_SCHEME) {
+      throw new Error('Proposal has an invalid encryption envelope');
+    }
+    if (schema !== undefined) {
+      if (typeof schema !== 'string') {
+        throw new Error('Proposal has an invalid schema ID');
+      }
+      this.checkSchema(
+        { type: proposal.type, schema, payload: { ...proposal.payload, metadata: fields } },
+        encryption === undefined
+      );
+    }
+    if (proposal.payload.tags !== undefined) {
+      checkTags(proposal.payload.tags);
+    }
+  }
+  
+  /**
+   * Revoke a commitment.
+   * 
+   * Appends a signed revocation commitment that references the original's
+   * leaf hash. The original stays in the tree, so the revocation is visible
+   * in history rather than erasing anything.
+   * 
+   * @param commitmentId - Commitment to revoke
+   * @param reason - Why it is being revoked
+   * @returns The revocation commitment
+   */
+  async revoke(commitmentId: string, reason: string): Promise<Commitment> {
+    const original = this.db.getCommitment(commitmentId);
+    if (!original) {
+      throw new Error(`Commitment not found: ${commitmentId}`);
+    }
+    if (original.type === 'revocation') {
+      throw new Error('Cannot revoke a revocation');
+    }
+    if (this.db.getRevocations([commitmentId]).has(commitmentId)) {
+      throw new Error(`Commitment already revoked: ${commitmentId}`);
+    }
+    
+    const metadata: RevocationMetadata = {
+      revokes: commitmentId,
+      revokedLeafHash: original.leafHash!,
+    };
+    
+    return this.append({
+      type: 'revocation',
+      payload: {
+        subject: original.payload.subject,
+        content: reason,
+        counterparty: original.payload.counterparty,
+        metadata: { ...metadata },
+      },
+    });
+  }
+  
+  /**
+   * Record that a commitment was carried out.
+   * 
+   * Appends a signed fulfillment commitment that references the original's
+   * leaf hash. Fulfilling after the original's dueAt is still recorded, but
+   * the fulfillment is marked late.
+   * 
+   * @param commitmentId - Commitment that was fulfilled
+   * @param evidence - Transaction and/or note showing it was carried out
+   * @returns The fulfillment commitment
+   */
+  async fulfill(commitmentId: string, evidence: FulfillmentEvidence = {}): Promise<Commitment> {
+    const original = this.db.getCommitment(commitmentId);
+    if (!original) {
+      throw new Error(`Commitment not found: ${commitmentId}`);
+    }
+    if (original.type === 'revocation' || original.type === 'fulfillment') {
+      throw new Error(`Cannot fulfill a ${original.type}`);
+    }
+    if (this.db.getFulfillments([commitmentId]).has(commitmentId)) {
+      throw new Error(`Commitment already fulfilled: ${commitmentId}`);
+    }
+    if (this.db.getRevocations([commitmentId]).has(commitmentId)) {
+      throw new Error(`Cannot fulfill a revoked commitment: ${commitmentId}`);
+    }
+    
+    const next = this.db.getSupersedingCommitment(commitmentId);
+    if (next) {
+      throw new Error(`Commitment ${commitmentId} was superseded by ${next.id}; fulfill the latest version`);
+    }
+    
+    const metadata: FulfillmentMetadata = {
+      fulfills: commitmentId,
+      fulfilledLeafHash: original.leafHash!,
+      ...(evidence.txid !== undefined && { txid: evidence.txid }),
+    };
+    
+    return this.append({
+      type: 'fulfillment',
+      payload: {
+        subject: original.payload.subject,
+        content: evidence.note ?? '',
+        counterparty: original.payload.counterparty,
+        metadata: { ...metadata },
+      },
+    });
+  }
+  
+  /**
+   * Sign, add to the tree and persist a commitment.
+   */
+  private async append(input: CommitmentInput): Promise<Commitment> {
     // Generate ID
     const id = 'commit_' + randomBytes(12).toString('hex');
     
@@ -100,24 +586,24 @@ export class AnchorStore {
       payload: input.payload,
       timestamp,
       signature: '', // Placeholder
+      ...(input.salted && { salts: saltPayload(input.payload) }),
     };
     
     // Sign canonical form
-    const canonical = canonicalizeCommitment({ ...unsigned, signature: '' });
-    const signature = sign(canonical, this.keyPair.privateKey);
+    const signature = sign(canonicalizeUnsigned(unsigned), this.keyPair.privateKey);
     
     // Create full commitment
-    const commitment: Commitment = {
-      id,
-      type: input.type,
-      payload: input.payload,
-      timestamp,
-      signature,
-    };
-    
+    return this.insert({ ...unsigned, signature });
+  }
+  
+  /**
+   * Add a signed commitment to the tree and persist it.
+   * @param alongside - Further writes to commit in the same transaction
+   */
+  private async insert(commitment: Commitment, alongside?: () => void): Promise<Commitment> {
     // Add to tree
     const canonicalFull = canonicalizeCommitment(commitment);
-    const { hash, index } = this.tree.addLeaf(canonicalFull);
+    const { hash, index, changedNodes, removedNodes } = this.tree.addLeaf(canonicalFull);
     
     commitment.leafHash = hash;
     commitment.treeIndex = index;
@@ -126,122 +612,944 @@ export class AnchorStore {
     this.db.transaction(() => {
       this.db.insertCommitment(commitment);
       this.db.saveTreeState(this.tree.getState());
-      this.db.saveTreeNodes(this.tree.getAllNodes());
+      this.db.deleteTreeNodes(removedNodes);
+      this.db.saveTreeNodes(changedNodes);
+      alongside?.();
     });
     
+    for (const listener of this.commitListeners) {
+      listener(commitment);
+    }
+    
     return commitment;
   }
   
-  /**
-   * Get commitment by ID.
-   */
-  async get(id: string): Promise<Commitment | null> {
-    return this.db.getCommitment(id);
-  }
+  // --------------------------------------------------------------------------
+  // Co-signed Commitments
+  // --------------------------------------------------------------------------
   
   /**
-   * Query commitments with filters.
+   * Propose a commitment for a counterparty to co-sign.
+   * 
+   * The proposal is signed with this store's key but not stored; the
+   * counterparty co-signs it with cosign() and the proposer then stores
+   * the result with recordCosigned().
    */
-  async query(query: CommitmentQuery): Promise<Commitment[]> {
-    return this.db.queryCommitments(query);
+  async propose(input: CommitmentInput): Promise<CommitmentProposal> {
+    const { type, payload, salted } = this.prepare(input);
+    
+    const unsigned = {
+      id: 'commit_' + randomBytes(12).toString('hex'),
+      type,
+      payload,
+      timestamp: Date.now(),
+      signature: '',
+      ...(salted && { salts: saltPayload(payload) }),
+    };
+    const signature = sign(canonicalizeUnsigned(unsigned), this.keyPair.privateKey);
+    
+    return {
+      ...unsigned,
+      signature,
+      signers: [{ publicKey: this.keyPair.publicKey, signature }],
+    };
   }
   
   /**
-   * List all commitments (paginated).
+   * Co-sign a counterparty's proposal and store the co-signed commitment.
+   * @returns The commitment carrying both signatures, for the proposer
    */
-  async list(limit: number = 100, offset: number = 0): Promise<Commitment[]> {
-    return this.db.queryCommitments({ limit, offset });
+  async cosign(proposal: CommitmentProposal): Promise<Commitment> {
+    const [proposer] = proposal.signers;
+    if (proposal.signers.length !== 1 || proposer.signature !== proposal.signature) {
+      throw new Error('Proposal must carry only the proposer\'s signature');
+    }
+    if (proposer.publicKey === this.keyPair.publicKey) {
+      throw new Error('Cannot co-sign our own proposal');
+    }
+    if (proposal.type === 'revocation' || proposal.type === 'fulfillment') {
+      throw new Error(`Cannot co-sign a ${proposal.type}`);
+    }
+    if (proposal.group) {
+      throw new Error('Use signProposal() for group proposals');
+    }
+    if (this.db.getCommitment(proposal.id)) {
+      throw new Error(`Commitment already stored: ${proposal.id}`);
+    }
+    
+    const canonical = canonicalizeUnsigned(proposal);
+    if (!verify(canonical, proposer.signature, proposer.publicKey)) {
+      throw new Error('Invalid proposer signature');
+    }
+    this.checkProposal(proposal, true);
+    
+    return this.insert({
+      id: proposal.id,
+      type: proposal.type,
+      payload: proposal.payload,
+      timestamp: proposal.timestamp,
+      signature: proposal.signature,
+      ...(proposal.salts && { salts: proposal.salts }),
+      signers: [
+        { publicKey: proposer.publicKey, signature: proposer.signature },
+        { publicKey: this.keyPair.publicKey, signature: sign(canonical, this.keyPair.privateKey) },
+      ],
+    });
   }
   
   /**
-   * Get commitment count.
+   * Store one of our proposals once the counterparty has co-signed it.
    */
-  async count(): Promise<number> {
-    return this.db.getCommitmentCount();
+  async recordCosigned(commitment: Commitment): Promise<Commitment> {
+    const { signers } = commitment;
+    if (!signers || signers.length < 2 || commitment.group) {
+      throw new Error('Commitment is not co-signed');
+    }
+    if (signers[0].publicKey !== this.keyPair.publicKey) {
+      throw new Error('Commitment was not proposed by this store');
+    }
+    if (!verifyCommitmentSignature(commitment, this.keyPair.publicKey) || !saltsCoverPayload(commitment)) {
+      throw new Error('Invalid co-signed commitment signatures');
+    }
+    if (this.db.getCommitment(commitment.id)) {
+      throw new Error(`Commitment already stored: ${commitment.id}`);
+    }
+    
+    return this.insert({
+      id: commitment.id,
+      type: commitment.type,
+      payload: commitment.payload,
+      timestamp: commitment.timestamp,
+      signature: commitment.signature,
+      ...(commitment.salts && { salts: commitment.salts }),
+      signers: signers.map(s => ({ publicKey: s.publicKey, signature: s.signature })),
+    });
   }
   
   // --------------------------------------------------------------------------
-  // Proof Operations
+  // Group Commitments
   // --------------------------------------------------------------------------
   
   /**
-   * Generate a Merkle proof for a commitment.
+   * Propose a commitment that needs `threshold` of the listed participants
+   * to sign, this store's key among them.
+   * 
+   * The commitment stays pending, outside the tree, while signatures are
+   * collected with addSignature(), and is stored once the threshold is met.
    */
-  async prove(commitmentId: string): Promise<CommitmentProof | null> {
-    const commitment = await this.get(commitmentId);
-    if (!commitment || commitment.treeIndex === undefined) {
-      return null;
+  async proposeGroup(input: CommitmentInput, group: GroupPolicy): Promise<CommitmentProposal> {
+    validateGroupPolicy(group);
+    if (!group.participants.includes(this.keyPair.publicKey)) {
+      throw new Error('This store\'s key must be a group participant');
     }
     
-    // Generate Merkle proof
-    const merkleProof = this.tree.generateProof(commitment.treeIndex);
-    if (!merkleProof) {
-      return null;
-    }
+    const { type, payload, salted } = this.prepare(input);
     
-    // Find the anchor that includes this commitment
-    const anchors = this.db.getAllAnchors();
+    const unsigned = {
+      id: 'commit_' + randomBytes(12).toString('hex'),
+      type,
+      payload,
+      timestamp: Date.now(),
+      signature: '',
+      ...(salted && { salts: saltPayload(payload) }),
+      group: { participants: [...group.participants], threshold: group.threshold },
+    };
+    const signature = sign(canonicalizeUnsigned(unsigned), this.keyPair.privateKey);
     
-    // Find first anchor after this commitment's tree index
-    const anchor = anchors.find(a => a.commitmentCount > commitment.treeIndex!);
+    const proposal: CommitmentProposal = {
+      ...unsigned,
+      signature,
+      signers: [{ publicKey: this.keyPair.publicKey, signature }],
+    };
+    this.db.savePendingCommitment(proposal);
     
-    if (!anchor) {
-      // Commitment not yet anchored
-      return null;
+    return proposal;
+  }
+  
+  /**
+   * Sign another participant's group proposal.
+   * @returns Our signature, for the proposer's addSignature()
+   */
+  signProposal(proposal: CommitmentProposal): CommitmentSignature {
+    if (!proposal.group) {
+      throw new Error('Not a group proposal');
+    }
+    if (!proposal.group.participants.includes(this.keyPair.publicKey)) {
+      throw new Error('This store\'s key is not a group participant');
+    }
+    
+    const canonical = canonicalizeUnsigned(proposal);
+    const [proposer] = proposal.signers;
+    if (!proposer ||
+        proposer.signature !== proposal.signature ||
+        !proposal.group.participants.includes(proposer.publicKey) ||
+        !verify(canonical, proposer.signature, proposer.publicKey)) {
+      throw new Error('Invalid proposer signature');
     }
+    this.checkProposal(proposal, false);
     
     return {
-      commitment,
-      merkleProof,
-      anchor: {
-        txid: anchor.txid,
-        blockHeight: anchor.blockHeight,
-        timestamp: anchor.timestamp,
-      },
+      publicKey: this.keyPair.publicKey,
+      signature: sign(canonical, this.keyPair.privateKey),
     };
   }
   
   /**
-   * Verify Merkle inclusion only (does NOT verify signature).
-   * Use verify() for full verification including signature.
+   * Add a participant's signature to a pending group commitment.
+   * @returns The stored commitment once the threshold is met, otherwise null
    */
-  static async verifyInclusion(proof: CommitmentProof): Promise<boolean> {
-    // 1. Verify Merkle proof
-    if (!MerkleTree.verifyProof(proof.merkleProof)) {
-      return false;
+  async addSignature(proposalId: string, signer: CommitmentSignature): Promise<Commitment | null> {
+    const proposal = this.db.getPendingCommitment(proposalId);
+    if (!proposal) {
+      throw new Error(`Pending commitment not found: ${proposalId}`);
     }
     
-    // 2. Verify leaf hash matches commitment
-    const canonical = canonicalizeCommitment(proof.commitment);
-    const expectedHash = hashLeaf(canonical);
-    if (expectedHash !== proof.merkleProof.leafHash) {
-      return false;
+    const { participants, threshold } = proposal.group!;
+    if (!participants.includes(signer.publicKey)) {
+      throw new Error('Signer is not a group participant');
+    }
+    if (proposal.signers.some(s => s.publicKey === signer.publicKey)) {
+      throw new Error('Participant has already signed');
+    }
+    if (!verify(canonicalizeUnsigned(proposal), signer.signature, signer.publicKey)) {
+      throw new Error('Invalid participant signature');
     }
     
-    // 3. TODO: Verify anchor exists on-chain
-    // This would require bsv-wallet integration
+    proposal.signers.push({ publicKey: signer.publicKey, signature: signer.signature });
     
-    return true;
+    if (proposal.signers.length < threshold) {
+      this.db.savePendingCommitment(proposal);
+      return null;
+    }
+    
+    // The amended commitment may have changed while signatures were collected
+    this.checkProposal(proposal, true);
+    
+    return this.insert({
+      id: proposal.id,
+      type: proposal.type,
+      payload: proposal.payload,
+      timestamp: proposal.timestamp,
+      signature: proposal.signature,
+      signers: proposal.signers,
+      group: proposal.group,
+      ...(proposal.salts && { salts: proposal.salts }),
+    }, () => this.db.deletePendingCommitment(proposal.id));
   }
   
   /**
-   * Fully verify a commitment proof including signature.
-   * @param proof - The proof to verify
-   * @param publicKeyHex - Public key of the commitment creator
+   * Get a pending group commitment.
    */
-  static async verify(proof: CommitmentProof, publicKeyHex: string): Promise<boolean> {
-    // First verify Merkle inclusion
-    if (!await AnchorStore.verifyInclusion(proof)) {
-      return false;
-    }
-    
-    // Verify signature over canonical commitment (unsigned)
-    const unsignedCanonical = canonicalizeCommitment({
-      ...proof.commitment,
-      signature: '',
-    });
+  async getPending(proposalId: string): Promise<CommitmentProposal | null> {
+    return this.db.getPendingCommitment(proposalId);
+  }
+  
+  /**
+   * List group commitments still waiting for signatures, oldest first.
+   */
+  async listPending(): Promise<CommitmentProposal[]> {
+    return this.db.getPendingCommitments();
+  }
+  
+  /**
+   * Register a listener called after each commitment is stored.
+   * @returns Function that removes the listener
+   */
+  onCommit(listener: (commitment: Commitment) => void): () => void {
+    this.commitListeners.add(listener);
+    return () => {
+      this.commitListeners.delete(listener);
+    };
+  }
+  
+  /**
+   * Get commitment by ID, with its revocation and fulfillment status.
+   */
+  async get(id: string): Promise<Commitment | null> {
+    const commitment = this.db.getCommitment(id);
+    return commitment ? this.withStatus([commitment])[0] : null;
+  }
+  
+  /**
+   * Query commitments with filters, with their revocation and fulfillment status.
+   */
+  async query(query: CommitmentQuery): Promise<Commitment[]> {
+    return this.withStatus(this.db.queryCommitments(query));
+  }
+  
+  /**
+   * Search commitments by the words in their subject, content, metadata and
+   * counterparty, best matches first. Encrypted content isn't searchable.
+   * 
+   * @param query - Filters to apply as well (limit defaults to 20)
+   */
+  async search(text: string, query: CommitmentQuery = {}): Promise<SearchResult[]> {
+    const results = this.db.searchCommitments(text, query);
+    const commitments = this.withStatus(results.map(result => result.commitment));
+    return results.map((result, i) => ({ ...result, commitment: commitments[i] }));
+  }
+  
+  /**
+   * Get the amendment chain a commitment belongs to, oldest version first,
+   * with a proof of each version.
+   * @returns The chain, or null if the commitment doesn't exist
+   */
+  async getLineage(id: string): Promise<LineageEntry[] | null> {
+    const commitment = this.db.getCommitment(id);
+    if (!commitment) {
+      return null;
+    }
+    
+    const chain = [commitment];
+    
+    // Walk back to the original...
+    for (let previousId = supersededId(commitment); previousId; previousId = supersededId(chain[0])) {
+      const previous = this.db.getCommitment(previousId);
+      if (!previous) break;
+      chain.unshift(previous);
+    }
+    
+    // ...and forward to the latest amendment
+    for (let next = this.db.getSupersedingCommitment(commitment.id); next;
+         next = this.db.getSupersedingCommitment(next.id)) {
+      chain.push(next);
+    }
+    
+    const entries: LineageEntry[] = [];
+    for (const version of this.withStatus(chain)) {
+      entries.push({ commitment: version, proof: await this.prove(version.id) });
+    }
+    
+    return entries;
+  }
+  
+  /**
+   * Decrypt an encrypted commitment with this store's key.
+   * @returns The payload with its plaintext content and metadata
+   */
+  async decrypt(commitmentId: string): Promise<CommitmentPayload> {
+    const commitment = this.db.getCommitment(commitmentId);
+    if (!commitment) {
+      throw new Error(`Commitment not found: ${commitmentId}`);
+    }
+    
+    return AnchorStore.decryptPayload(commitment.payload, this.keyPair.privateKey);
+  }
+  
+  /**
+   * Decrypt an encrypted payload, e.g. from a proof, with a recipient's key.
+   * @returns The payload with its plaintext content and metadata
+   */
+  static decryptPayload(payload: CommitmentPayload, privateKeyHex: string): CommitmentPayload {
+    const { encryption, ...links } = payload.metadata ?? {};
+    if (!encryption) {
+      throw new Error('Commitment is not encrypted');
+    }
+    
+    const plaintext = JSON.parse(
+      decryptWithKey(payload.content, encryption as EncryptionEnvelope, privateKeyHex)
+    ) as Pick<CommitmentPayload, 'content' | 'metadata'>;
+    
+    // Keep links (e.g. supersedes) that were committed in the clear
+    const metadata = { ...plaintext.metadata, ...links };
+    return {
+      ...payload,
+      content: plaintext.content,
+      metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+    };
+  }
+  
+  /**
+   * List all commitments (paginated).
+   */
+  async list(limit: number = 100, offset: number = 0): Promise<Commitment[]> {
+    return this.db.queryCommitments({ limit, offset });
+  }
+  
+  /**
+   * Get commitment count.
+   */
+  async count(): Promise<number> {
+    return this.db.getCommitmentCount();
+  }
+  
+  // --------------------------------------------------------------------------
+  // Metadata Indexes
+  // --------------------------------------------------------------------------
+  
+  /**
+   * Index a metadata path, e.g. `metadata.priceSats`, so queries filtering
+   * on it with `where` don't read every commitment. Tags and the schema are
+   * always indexed.
+   * @returns Whether the index is new
+   */
+  async indexMetadata(path: string): Promise<boolean> {
+    return this.db.createMetadataIndex(path);
+  }
+  
+  /**
+   * Drop the index on a metadata path. The schema's index can't be dropped.
+   * @returns Whether there was one
+   */
+  async dropMetadataIndex(path: string): Promise<boolean> {
+    return this.db.dropMetadataIndex(path);
+  }
+  
+  /**
+   * Get the metadata paths indexed with indexMetadata().
+   */
+  async getMetadataIndexes(): Promise<string[]> {
+    return this.db.getMetadataIndexes();
+  }
+  
+  // --------------------------------------------------------------------------
+  // Attachments
+  // --------------------------------------------------------------------------
+  
+  /**
+   * Store a blob in the attachment store.
+   * @returns A reference to put in a payload's attachments
+   */
+  async addAttachment(
+    data: Uint8Array | string,
+    info: { name?: string; mediaType?: string } = {}
+  ): Promise<AttachmentRef> {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    const { hash, size } = this.attachments.add(bytes);
+    
+    return {
+      hash,
+      size,
+      ...(info.name !== undefined && { name: info.name }),
+      ...(info.mediaType !== undefined && { mediaType: info.mediaType }),
+    };
+  }
+  
+  /**
+   * Fetch a blob from the attachment store.
+   * @returns The blob, or null if not stored
+   */
+  async getAttachment(hash: string): Promise<Uint8Array | null> {
+    return this.attachments.get(hash);
+  }
+  
+  /**
+   * Delete blobs that no commitment or pending group commitment references.
+   * 
+   * @param options.minAgeMs - Keep blobs stored more recently than this,
+   *   which may be about to be committed (default: 1 hour)
+   */
+  async gcAttachments(options: { minAgeMs?: number } = {}): Promise<{ removed: string[]; freedBytes: number }> {
+    const referenced = this.db.getAttachmentHashes();
+    const cutoff = Date.now() - (options.minAgeMs ?? 3_600_000);
+    
+    const removed: string[] = [];
+    let freedBytes = 0;
+    for (const blob of this.attachments.list()) {
+      if (referenced.has(blob.hash) || blob.storedAt > cutoff) continue;
+      
+      this.attachments.delete(blob.hash);
+      removed.push(blob.hash);
+      freedBytes += blob.size;
+    }
+    
+    return { removed, freedBytes };
+  }
+  
+  // --------------------------------------------------------------------------
+  // Schemas
+  // --------------------------------------------------------------------------
+  
+  /**
+   * Register a commitment schema for commit() to validate against.
+   * Schemas are persisted and can't be changed once registered; publish a
+   * new version under a new ID instead.
+   */
+  registerSchema(schema: CommitmentSchema): void {
+    this.schemas.register(schema);
+    this.db.saveSchema(schema);
+  }
+  
+  /**
+   * Get a schema (built-in or registered) by ID.
+   */
+  getSchema(id: string): CommitmentSchema | null {
+    return this.schemas.get(id);
+  }
+  
+  /**
+   * List all schemas, built-in and registered, by ID.
+   */
+  listSchemas(): CommitmentSchema[] {
+    return this.schemas.list();
+  }
+  
+  // --------------------------------------------------------------------------
+  // Proof Operations
+  // --------------------------------------------------------------------------
+  
+  /**
+   * Generate a Merkle proof for a commitment.
+   * 
+   * @param options.notRevoked - Also prove, against the latest anchor's
+   *   sparse index, that the commitment had not been revoked by then.
+   *   Throws if the sparse index is disabled or the commitment was revoked.
+   * @param options.attachments - Bundle the referenced attachment blobs so a
+   *   verifier can check them against the committed hashes
+   */
+  async prove(
+    commitmentId: string,
+    options: { notRevoked?: boolean; attachments?: boolean } = {}
+  ): Promise<CommitmentProof | null> {
+    const commitment = await this.get(commitmentId);
+    if (!commitment || commitment.treeIndex === undefined) {
+      return null;
+    }
+    
+    // Find the first anchor that includes this commitment
+    const anchor = this.findAnchorFor(commitment.treeIndex);
+    
+    if (!anchor) {
+      // Commitment not yet anchored
+      return null;
+    }
+    
+    // Prove against the tree as it was when anchored, so the proof's root
+    // matches the anchored root no matter what has been committed since
+    const merkleProof = this.tree.generateProof(commitment.treeIndex, anchor.commitmentCount);
+    if (!merkleProof) {
+      return null;
+    }
+    
+    const proof: CommitmentProof = {
+      commitment,
+      merkleProof,
+      anchor: toAnchorReference(anchor),
+    };
+    
+    if (options.notRevoked) {
+      const notRevoked = await this.proveRevocationKey(commitmentId);
+      if (!notRevoked) {
+        throw new Error('Revocation status needs the sparse index enabled on the latest anchor');
+      }
+      if (notRevoked.sparseProof.value !== null) {
+        throw new Error(`Commitment was revoked as of anchor ${notRevoked.anchor.txid}`);
+      }
+      proof.notRevoked = notRevoked;
+    }
+    
+    if (options.attachments) {
+      proof.attachments = {};
+      for (const ref of commitment.payload.attachments ?? []) {
+        const data = this.attachments.get(ref.hash);
+        if (!data) {
+          throw new Error(`Attachment not found: ${ref.hash}`);
+        }
+        proof.attachments[ref.hash] = Buffer.from(data).toString('base64');
+      }
+    }
+    
+    return proof;
+  }
+  
+  /**
+   * Verify Merkle inclusion only (does NOT verify signature).
+   * Use verify() for full verification including signature.
+   */
+  static async verifyInclusion(proof: CommitmentProof): Promise<boolean> {
+    // 1. Verify Merkle proof
+    if (!MerkleTree.verifyProof(proof.merkleProof)) {
+      return false;
+    }
+    
+    // 2. Verify the proof is against the anchored root
+    if (proof.merkleProof.rootHash !== proof.anchor.rootHash ||
+        proof.merkleProof.treeSize !== proof.anchor.commitmentCount) {
+      return false;
+    }
+    
+    // 3. Verify leaf hash matches commitment, and if it is salted that the
+    //    salted hashes cover the whole payload
+    if (!saltsCoverPayload(proof.commitment)) {
+      return false;
+    }
+    const canonical = canonicalizeCommitment(proof.commitment);
+    const expectedHash = hashLeaf(canonical);
+    if (expectedHash !== proof.merkleProof.leafHash) {
+      return false;
+    }
+    
+    // 4. If present, verify the not-revoked statement is about this
+    //    commitment and from an anchor no earlier than the inclusion anchor
+    if (proof.notRevoked) {
+      const { sparseProof, anchor } = proof.notRevoked;
+      if (sparseProof.key !== sparseKeyForRevocation(proof.commitment.id) ||
+          sparseProof.value !== null ||
+          anchor.commitmentCount < proof.anchor.commitmentCount ||
+          !await AnchorStore.verifySparse(proof.notRevoked)) {
+        return false;
+      }
+    }
+    
+    // 5. If bundled, verify the attachments match the committed references
+    if (proof.attachments && !checkAttachmentBundle(proof.commitment.payload.attachments, proof.attachments)) {
+      return false;
+    }
+    
+    // 6. TODO: Verify anchor exists on-chain
+    // This would require bsv-wallet integration
+    
+    return true;
+  }
+  
+  /**
+   * Fully verify a commitment proof including signature.
+   * @param proof - The proof to verify
+   * @param publicKeyHex - Public key of the commitment creator
+   */
+  static async verify(proof: CommitmentProof, publicKeyHex: string): Promise<boolean> {
+    // First verify Merkle inclusion
+    if (!await AnchorStore.verifyInclusion(proof)) {
+      return false;
+    }
+    
+    // Verify signature over canonical commitment (unsigned)
+    return verifyCommitmentSignature(proof.commitment, publicKeyHex);
+  }
+  
+  /**
+   * Generate a proof of a salted commitment that reveals only some fields.
+   * Withheld fields are replaced by their salted hashes, from which the
+   * verifier can still recompute the leaf.
+   * 
+   * @param disclose - Payload fields to reveal, e.g. ['subject', 'counterparty']
+   * @returns Redacted proof, or null if the commitment is missing or unanchored
+   */
+  async proveRedacted(commitmentId: string, disclose: string[]): Promise<RedactedCommitmentProof | null> {
+    const proof = await this.prove(commitmentId);
+    if (!proof) {
+      return null;
+    }
+    
+    const { salts } = proof.commitment;
+    if (!salts) {
+      throw new Error('Commitment was not created with salted fields');
+    }
+    
+    const unknown = disclose.filter(name => !(name in salts));
+    if (unknown.length > 0) {
+      throw new Error(`Not a payload field of this commitment: ${unknown.join(', ')}`);
+    }
+    
+    return {
+      commitment: redactCommitment(proof.commitment, disclose),
+      merkleProof: proof.merkleProof,
+      anchor: proof.anchor,
+    };
+  }
+  
+  /**
+   * Verify Merkle inclusion of a redacted proof (does NOT verify signatures).
+   */
+  static async verifyRedactedInclusion(proof: RedactedCommitmentProof): Promise<boolean> {
+    // 1. Verify Merkle proof against the anchored root
+    if (!MerkleTree.verifyProof(proof.merkleProof) ||
+        proof.merkleProof.rootHash !== proof.anchor.rootHash ||
+        proof.merkleProof.treeSize !== proof.anchor.commitmentCount) {
+      return false;
+    }
+    
+    // 2. Every disclosed field has its salt, and none is also withheld
+    const { payload, salts, withheld } = proof.commitment;
+    const disclosed = Object.keys(payload);
+    if (disclosed.length !== Object.keys(salts).length ||
+        !disclosed.every(name => name in salts && !(name in withheld))) {
+      return false;
+    }
+    
+    // 3. Recompute the leaf from disclosed fields and withheld hashes
+    return hashLeaf(canonicalizeCommitment(proof.commitment)) === proof.merkleProof.leafHash;
+  }
+  
+  /**
+   * Fully verify a redacted proof including signatures.
+   * @param proof - The proof to verify
+   * @param publicKeyHex - Public key of the commitment creator
+   */
+  static async verifyRedacted(proof: RedactedCommitmentProof, publicKeyHex: string): Promise<boolean> {
+    if (!await AnchorStore.verifyRedactedInclusion(proof)) {
+      return false;
+    }
+    
+    return verifyCommitmentSignature(proof.commitment, publicKeyHex);
+  }
+  
+  /**
+   * Generate one proof covering several commitments.
+   * All commitments are proven against the first anchor that includes
+   * every one of them.
+   * @returns Batch proof, or null if any commitment is missing or unanchored
+   */
+  async proveBatch(commitmentIds: string[]): Promise<CommitmentBatchProof | null> {
+    if (commitmentIds.length === 0) {
+      return null;
+    }
+    
+    const commitments: Commitment[] = [];
+    for (const id of new Set(commitmentIds)) {
+      const commitment = await this.get(id);
+      if (!commitment || commitment.treeIndex === undefined) {
+        return null;
+      }
+      commitments.push(commitment);
+    }
+    
+    commitments.sort((a, b) => a.treeIndex! - b.treeIndex!);
+    
+    const anchor = this.findAnchorFor(commitments[commitments.length - 1].treeIndex!);
+    if (!anchor) {
+      return null;
+    }
+    
+    const multiProof = this.tree.generateMultiProof(
+      commitments.map(c => c.treeIndex!),
+      anchor.commitmentCount
+    );
+    if (!multiProof) {
+      return null;
+    }
+    
+    return {
+      commitments,
+      multiProof,
+      anchor: toAnchorReference(anchor),
+    };
+  }
+  
+  /**
+   * Verify Merkle inclusion of a batch proof (does NOT verify signatures).
+   */
+  static async verifyBatchInclusion(proof: CommitmentBatchProof): Promise<boolean> {
+    const { commitments, multiProof, anchor } = proof;
+    
+    // 1. Verify the multiproof is against the anchored root
+    if (multiProof.rootHash !== anchor.rootHash || multiProof.treeSize !== anchor.commitmentCount) {
+      return false;
+    }
+    
+    // 2. Verify every proven leaf is one of the commitments
+    if (commitments.length !== multiProof.leaves.length) {
+      return false;
+    }
+    
+    for (let i = 0; i < commitments.length; i++) {
+      const expectedHash = hashLeaf(canonicalizeCommitment(commitments[i]));
+      if (expectedHash !== multiProof.leaves[i].hash) {
+        return false;
+      }
+    }
+    
+    // 3. Verify the multiproof itself
+    return MerkleTree.verifyMultiProof(multiProof);
+  }
+  
+  /**
+   * Fully verify a batch proof including every commitment's signature.
+   * @param proof - The proof to verify
+   * @param publicKeyHex - Public key of the commitments' creator
+   */
+  static async verifyBatch(proof: CommitmentBatchProof, publicKeyHex: string): Promise<boolean> {
+    if (!await AnchorStore.verifyBatchInclusion(proof)) {
+      return false;
+    }
     
-    return verify(unsignedCanonical, proof.commitment.signature, publicKeyHex);
+    return proof.commitments.every(c => verifyCommitmentSignature(c, publicKeyHex));
+  }
+  
+  /**
+   * Prove that the commitments at tree indices [fromIndex, toIndex) are
+   * complete, e.g. everything committed between two anchors.
+   * The range is proven against the first anchor that includes all of it.
+   * @returns Range proof, or null if the range is invalid or unanchored
+   */
+  async proveRange(fromIndex: number, toIndex: number): Promise<CommitmentRangeProof | null> {
+    if (fromIndex < 0 || fromIndex >= toIndex) {
+      return null;
+    }
+    
+    const anchor = this.findAnchorFor(toIndex - 1);
+    if (!anchor) {
+      return null;
+    }
+    
+    const rangeProof = this.tree.generateRangeProof(fromIndex, toIndex, anchor.commitmentCount);
+    if (!rangeProof) {
+      return null;
+    }
+    
+    const commitments: Commitment[] = [];
+    for (let i = fromIndex; i < toIndex; i++) {
+      const commitment = this.db.getCommitmentByIndex(i);
+      if (!commitment) {
+        return null;
+      }
+      commitments.push(commitment);
+    }
+    
+    return {
+      commitments,
+      rangeProof,
+      anchor: toAnchorReference(anchor),
+    };
+  }
+  
+  /**
+   * Verify that a range proof covers the complete range of commitments
+   * (does NOT verify signatures).
+   */
+  static async verifyRangeInclusion(proof: CommitmentRangeProof): Promise<boolean> {
+    const { commitments, rangeProof, anchor } = proof;
+    
+    // 1. Verify the range proof is against the anchored root
+    if (rangeProof.rootHash !== anchor.rootHash || rangeProof.treeSize !== anchor.commitmentCount) {
+      return false;
+    }
+    
+    // 2. Verify the commitments are exactly the proven leaves, in order
+    if (commitments.length !== rangeProof.leaves.length) {
+      return false;
+    }
+    
+    for (let i = 0; i < commitments.length; i++) {
+      const expectedHash = hashLeaf(canonicalizeCommitment(commitments[i]));
+      if (expectedHash !== rangeProof.leaves[i]) {
+        return false;
+      }
+    }
+    
+    // 3. Verify the range proof itself
+    return MerkleTree.verifyRangeProof(rangeProof);
+  }
+  
+  /**
+   * Fully verify a range proof including every commitment's signature.
+   * @param proof - The proof to verify
+   * @param publicKeyHex - Public key of the commitments' creator
+   */
+  static async verifyRange(proof: CommitmentRangeProof, publicKeyHex: string): Promise<boolean> {
+    if (!await AnchorStore.verifyRangeInclusion(proof)) {
+      return false;
+    }
+    
+    return proof.commitments.every(c => verifyCommitmentSignature(c, publicKeyHex));
+  }
+  
+  /**
+   * Prove that a later anchor's tree is an append-only extension of an
+   * earlier anchor's tree, i.e. no history was rewritten in between.
+   */
+  async proveConsistency(fromAnchorIndex: number, toAnchorIndex: number): Promise<AnchorConsistencyProof | null> {
+    if (fromAnchorIndex > toAnchorIndex) {
+      return null;
+    }
+    
+    const fromAnchor = this.db.getAnchor(fromAnchorIndex);
+    const toAnchor = this.db.getAnchor(toAnchorIndex);
+    if (!fromAnchor || !toAnchor) {
+      return null;
+    }
+    
+    const consistencyProof = this.tree.generateConsistencyProof(
+      fromAnchor.commitmentCount,
+      toAnchor.commitmentCount
+    );
+    if (!consistencyProof) {
+      return null;
+    }
+    
+    return {
+      fromAnchor: toAnchorReference(fromAnchor),
+      toAnchor: toAnchorReference(toAnchor),
+      consistencyProof,
+    };
+  }
+  
+  /**
+   * Verify a consistency proof between two anchors.
+   */
+  static async verifyConsistency(proof: AnchorConsistencyProof): Promise<boolean> {
+    const { fromAnchor, toAnchor, consistencyProof } = proof;
+    
+    // The proof must connect exactly the two anchored trees
+    if (consistencyProof.fromRoot !== fromAnchor.rootHash ||
+        consistencyProof.fromSize !== fromAnchor.commitmentCount ||
+        consistencyProof.toRoot !== toAnchor.rootHash ||
+        consistencyProof.toSize !== toAnchor.commitmentCount) {
+      return false;
+    }
+    
+    return MerkleTree.verifyConsistencyProof(consistencyProof);
+  }
+  
+  /**
+   * Prove whether a key is in the sparse index at an anchor.
+   * The proof's `value` is null when the key was absent.
+   * @param key - Sparse key (see sparseKeyForCommitment / sparseKeyForAgreement)
+   * @param anchorIndex - Anchor to prove against (default: latest)
+   * @returns Proof, or null if the anchor is missing or has no sparse root
+   */
+  async proveSparseKey(key: string, anchorIndex?: number): Promise<SparseCommitmentProof | null> {
+    const anchor = anchorIndex !== undefined
+      ? this.db.getAnchor(anchorIndex)
+      : this.db.getLatestAnchor();
+    
+    if (!anchor?.sparseRoot) {
+      return null;
+    }
+    
+    const sparseTree = AnchorStore.buildSparseTree(this.db.getAllCommitments(), anchor.commitmentCount);
+    if (sparseTree.getRoot() !== anchor.sparseRoot) {
+      throw new Error(`Sparse index does not match anchor ${anchor.anchorIndex}`);
+    }
+    
+    return {
+      sparseProof: sparseTree.generateProof(key),
+      anchor: toAnchorReference(anchor),
+    };
+  }
+  
+  /**
+   * Prove whether an agreement with a counterparty about a subject had
+   * been committed at an anchor ("I never agreed X with Y before D").
+   */
+  async proveAgreementKey(counterparty: string, subject: string, anchorIndex?: number): Promise<SparseCommitmentProof | null> {
+    return this.proveSparseKey(sparseKeyForAgreement(counterparty, subject), anchorIndex);
+  }
+  
+  /**
+   * Prove whether a commitment ID had been committed at an anchor.
+   */
+  async proveCommitmentKey(commitmentId: string, anchorIndex?: number): Promise<SparseCommitmentProof | null> {
+    return this.proveSparseKey(sparseKeyForCommitment(commitmentId), anchorIndex);
+  }
+  
+  /**
+   * Prove whether a commitment had been revoked at an anchor.
+   * The proof's `value` is null when it had not.
+   */
+  async proveRevocationKey(commitmentId: string, anchorIndex?: number): Promise<SparseCommitmentProof | null> {
+    return this.proveSparseKey(sparseKeyForRevocation(commitmentId), anchorIndex);
+  }
+  
+  /**
+   * Verify a sparse index proof against its anchor.
+   */
+  static async verifySparse(proof: SparseCommitmentProof): Promise<boolean> {
+    if (!proof.anchor.sparseRoot || proof.sparseProof.rootHash !== proof.anchor.sparseRoot) {
+      return false;
+    }
+    
+    return SparseMerkleTree.verifyProof(proof.sparseProof);
   }
   
   // --------------------------------------------------------------------------
@@ -258,6 +1566,20 @@ export class AnchorStore {
     };
   }
   
+  /**
+   * Get the tree algorithm version this store uses.
+   */
+  getTreeVersion(): TreeVersion {
+    return this.tree.version;
+  }
+  
+  /**
+   * Get how this store keeps its tree.
+   */
+  getTreeMode(): TreeMode {
+    return this.config.treeMode ?? 'full';
+  }
+  
   /**
    * Get current root hash.
    */
@@ -303,6 +1625,50 @@ export class AnchorStore {
     return this.recordAnchor(result.txid);
   }
   
+  /**
+   * Get the persisted anchoring strategy.
+   */
+  getAnchorStrategy(): AnchorStrategySettings {
+    const { anchorStrategy, anchorIntervalHours, anchorThreshold, immediateTypes } = this.config;
+    return { anchorStrategy, anchorIntervalHours, anchorThreshold, immediateTypes };
+  }
+  
+  /**
+   * Set and persist the anchoring strategy used by AnchorScheduler.
+   * Settings the strategy needs must be given; settings left out are cleared.
+   */
+  setAnchorStrategy(settings: AnchorStrategySettings): void {
+    const { anchorStrategy, anchorIntervalHours, anchorThreshold, immediateTypes } = settings;
+    
+    if (!['manual', 'time', 'count', 'importance'].includes(anchorStrategy)) {
+      throw new Error(`Unknown anchor strategy: ${anchorStrategy}`);
+    }
+    if (anchorIntervalHours !== undefined && !(anchorIntervalHours > 0)) {
+      throw new Error('anchorIntervalHours must be positive');
+    }
+    if (anchorThreshold !== undefined && !(Number.isInteger(anchorThreshold) && anchorThreshold > 0)) {
+      throw new Error('anchorThreshold must be a positive integer');
+    }
+    if (anchorStrategy === 'time' && anchorIntervalHours === undefined) {
+      throw new Error('Time strategy requires anchorIntervalHours');
+    }
+    if (anchorStrategy === 'count' && anchorThreshold === undefined) {
+      throw new Error('Count strategy requires anchorThreshold');
+    }
+    if (anchorStrategy === 'importance' && !immediateTypes?.length) {
+      throw new Error('Importance strategy requires immediateTypes');
+    }
+    
+    this.db.transaction(() => {
+      this.db.setConfig('anchor_strategy', anchorStrategy);
+      writeOptionalConfig(this.db, 'anchor_interval_hours', anchorIntervalHours?.toString());
+      writeOptionalConfig(this.db, 'anchor_threshold', anchorThreshold?.toString());
+      writeOptionalConfig(this.db, 'immediate_types', immediateTypes?.length ? immediateTypes.join(',') : undefined);
+    });
+    
+    this.config = { ...this.config, anchorStrategy, anchorIntervalHours, anchorThreshold, immediateTypes };
+  }
+  
   /**
    * Verify an anchor exists on-chain and update its block height.
    */
@@ -335,6 +1701,9 @@ export class AnchorStore {
       commitmentCount: state.leafCount,
       anchorIndex: (latestAnchor?.anchorIndex ?? -1) + 1,
       previousAnchor: latestAnchor?.txid,
+      sparseRoot: this.config.sparseIndex
+        ? AnchorStore.buildSparseTree(this.db.getAllCommitments(), state.leafCount).getRoot()
+        : undefined,
     };
     
     this.db.insertAnchor(anchor);
@@ -368,6 +1737,90 @@ export class AnchorStore {
     return this.db.getAllAnchors();
   }
   
+  /**
+   * Build the sparse index over the first `commitmentCount` commitments.
+   * 
+   * Each commitment ID maps to its leaf hash, each (counterparty, subject)
+   * pair maps to the leaf hash of the first commitment that used it, and
+   * each revoked commitment ID maps to its revocation's leaf hash.
+   * Everything is derived from the commitments, so nothing extra is
+   * persisted; it is only rebuilt when anchoring, proving or importing.
+   */
+  private static buildSparseTree(commitments: Commitment[], commitmentCount: number): SparseMerkleTree {
+    const sparseTree = new SparseMerkleTree();
+    
+    for (const commitment of commitments) {
+      if (commitment.treeIndex === undefined || commitment.treeIndex >= commitmentCount) {
+        continue;
+      }
+      
+      sparseTree.set(sparseKeyForCommitment(commitment.id), commitment.leafHash!);
+      
+      if (commitment.type === 'revocation') {
+        const { revokes } = commitment.payload.metadata as unknown as RevocationMetadata;
+        sparseTree.set(sparseKeyForRevocation(revokes), commitment.leafHash!);
+      }
+      
+      const { counterparty, subject } = commitment.payload;
+      if (counterparty) {
+        const pairKey = sparseKeyForAgreement(counterparty, subject);
+        if (!sparseTree.has(pairKey)) {
+          sparseTree.set(pairKey, commitment.leafHash!);
+        }
+      }
+    }
+    
+    return sparseTree;
+  }
+  
+  /**
+   * Attach status to commitments that have been revoked or fulfilled.
+   */
+  private withStatus(commitments: Commitment[]): Commitment[] {
+    const ids = commitments.map(c => c.id);
+    const revocations = this.db.getRevocations(ids);
+    const fulfillments = this.db.getFulfillments(ids);
+    const supersessions = this.db.getSupersessions(ids);
+    
+    for (const commitment of commitments) {
+      const revocation = revocations.get(commitment.id);
+      if (revocation) {
+        commitment.revocation = {
+          revocationId: revocation.id,
+          reason: revocation.payload.content,
+          timestamp: revocation.timestamp,
+        };
+      }
+      
+      const fulfillment = fulfillments.get(commitment.id);
+      if (fulfillment) {
+        const { txid } = fulfillment.payload.metadata as unknown as FulfillmentMetadata;
+        const dueAt = commitment.payload.metadata?.dueAt;
+        commitment.fulfillment = {
+          fulfillmentId: fulfillment.id,
+          evidence: { txid, note: fulfillment.payload.content || undefined },
+          timestamp: fulfillment.timestamp,
+          late: typeof dueAt === 'number' && fulfillment.timestamp > dueAt,
+        };
+      }
+      
+      const supersededBy = supersessions.get(commitment.id);
+      if (supersededBy) {
+        commitment.supersededBy = supersededBy;
+      }
+    }
+    
+    return commitments;
+  }
+  
+  /**
+   * Find the first anchor whose tree includes the given leaf.
+   */
+  private findAnchorFor(treeIndex: number): Anchor | null {
+    const anchors = this.db.getAllAnchors();
+    return anchors.find(a => a.commitmentCount > treeIndex) ?? null;
+  }
+  
   /**
    * Get number of unanchored commitments.
    */
@@ -382,6 +1835,409 @@ export class AnchorStore {
     return totalCount - latestAnchor.commitmentCount;
   }
   
+  // --------------------------------------------------------------------------
+  // Integrity
+  // --------------------------------------------------------------------------
+  
+  /**
+   * Check that the stored tree agrees with the commitments it was built from.
+   * 
+   * Every leaf hash is recomputed from the commitment's canonical form and
+   * the tree is rebuilt from those hashes. Each anchor's root is compared
+   * with the rebuilt root at the anchor's commitment count. The persisted
+   * nodes and tree state are compared with the rebuilt tree.
+   * 
+   * With `repair`, leaf hashes, tree nodes and tree state are rewritten from
+   * the commitments. Anchors are never changed. Nothing is repaired while
+   * tree indices are out of sequence, because leaf positions are then unknown.
+   * 
+   * open() rewrites mismatched tree nodes and state unless the store is
+   * opened with `repairTree: false`, so open it that way to see them.
+   */
+  async audit(options: { repair?: boolean } = {}): Promise<AuditReport> {
+    const commitments = this.db.getAllCommitments();
+    const anchors = this.db.getAllAnchors();
+    const issues: AuditIssue[] = [];
+    
+    // Recompute leaf hashes and check the index sequence
+    const leafHashes: string[] = [];
+    const staleLeaves: Array<{ id: string; leafHash: string; treeIndex: number }> = [];
+    
+    commitments.forEach((commitment, position) => {
+      const expected = hashLeaf(canonicalizeCommitment(commitment));
+      leafHashes.push(expected);
+      
+      if (commitment.leafHash !== expected) {
+        issues.push({
+          kind: 'leaf_hash',
+          message: `Commitment ${commitment.id} has leaf hash ${commitment.leafHash ?? '(none)'}, expected ${expected}`,
+          repairable: true,
+          commitmentId: commitment.id,
+        });
+        staleLeaves.push({ id: commitment.id, leafHash: expected, treeIndex: position });
+      }
+      
+      if (commitment.treeIndex !== position) {
+        issues.push({
+          kind: 'tree_index',
+          message: `Commitment ${commitment.id} has tree index ${commitment.treeIndex ?? '(none)'}, expected ${position}`,
+          repairable: false,
+          commitmentId: commitment.id,
+        });
+      }
+    });
+    
+    // Rebuild the tree from the recomputed hashes
+    const rebuilt = AnchorStore.createTree(
+      this.tree.version,
+      this.getTreeMode(),
+      (start, end) => leafHashes.slice(start, end)
+    );
+    for (const hash of leafHashes) {
+      rebuilt.addLeafHash(hash);
+    }
+    
+    // Anchored roots
+    for (const anchor of anchors) {
+      const root = rebuilt.getRoot(anchor.commitmentCount);
+      if (root !== anchor.rootHash) {
+        issues.push({
+          kind: 'anchor_root',
+          message: root
+            ? `Anchor #${anchor.anchorIndex} root ${anchor.rootHash} does not match rebuilt root ${root}`
+            : `Anchor #${anchor.anchorIndex} covers ${anchor.commitmentCount} commitments, only ${leafHashes.length} exist`,
+          repairable: false,
+          anchorIndex: anchor.anchorIndex,
+        });
+      }
+    }
+    
+    // Persisted nodes
+    const nodeKey = (node: { level: number; index: number }) => `${node.level}:${node.index}`;
+    const storedNodes = new Map(this.db.getTreeNodes().map(n => [nodeKey(n), n.hash]));
+    const expectedNodes = rebuilt.getAllNodes();
+    const expectedKeys = new Set(expectedNodes.map(nodeKey));
+    const differing = expectedNodes.filter(n => storedNodes.get(nodeKey(n)) !== n.hash).length;
+    const extra = [...storedNodes.keys()].filter(key => !expectedKeys.has(key)).length;
+    
+    if (differing > 0 || extra > 0) {
+      issues.push({
+        kind: 'tree_nodes',
+        message: `${differing} of ${expectedNodes.length} tree nodes missing or wrong, ${extra} unexpected`,
+        repairable: true,
+      });
+    }
+    
+    // Recorded state
+    const state = this.db.getTreeState();
+    const expectedState = rebuilt.getState();
+    
+    if (state.rootHash !== expectedState.rootHash || state.leafCount !== expectedState.leafCount) {
+      issues.push({
+        kind: 'tree_state',
+        message: `Tree state records ${state.leafCount} leaves with root ${state.rootHash ?? '(none)'}, ` +
+          `expected ${expectedState.leafCount} with root ${expectedState.rootHash ?? '(none)'}`,
+        repairable: true,
+      });
+    }
+    
+    // Repair derived tables
+    let repaired = false;
+    const indicesValid = !issues.some(issue => issue.kind === 'tree_index');
+    
+    if (options.repair && indicesValid && issues.some(issue => issue.repairable)) {
+      this.db.transaction(() => {
+        for (const leaf of staleLeaves) {
+          this.db.updateCommitmentTree(leaf.id, leaf.leafHash, leaf.treeIndex);
+        }
+        this.db.clearTreeNodes();
+        this.db.saveTreeNodes(expectedNodes);
+        this.db.saveTreeState({ ...expectedState, lastAnchorIndex: state.lastAnchorIndex });
+      });
+      
+      this.tree = AnchorStore.loadTree(this.db, this.tree.version, this.getTreeMode());
+      repaired = true;
+    }
+    
+    return {
+      commitmentCount: commitments.length,
+      anchorCount: anchors.length,
+      issues,
+      repaired,
+    };
+  }
+  
+  // --------------------------------------------------------------------------
+  // Export & Import
+  // --------------------------------------------------------------------------
+  
+  /**
+   * Export the whole store as a signed bundle for importBundle() on another
+   * host. Pending group commitments aren't included.
+   * 
+   * @param options.passphrase - Include the private key, encrypted with this
+   * @param options.attachments - Include the referenced attachment blobs
+   */
+  async exportBundle(options: { passphrase?: string; attachments?: boolean } = {}): Promise<StoreBundle> {
+    const commitments = this.db.getAllCommitments();
+    const { leafCount, rootHash } = this.tree.getState();
+    
+    const unsigned: Omit<StoreBundle, 'signature'> = {
+      version: BUNDLE_VERSION,
+      exportedAt: Date.now(),
+      publicKey: this.keyPair.publicKey,
+      tree: {
+        version: this.tree.version,
+        mode: this.getTreeMode(),
+        sparseIndex: this.config.sparseIndex ?? false,
+        leafCount,
+        rootHash,
+      },
+      commitments,
+      anchors: this.db.getAllAnchors(),
+      schemas: this.db.getSchemas(),
+    };
+    
+    if (options.attachments) {
+      unsigned.attachments = {};
+      for (const ref of commitments.flatMap(c => c.payload.attachments ?? [])) {
+        const data = this.attachments.get(ref.hash);
+        if (!data) {
+          throw new Error(`Attachment not found: ${ref.hash}`);
+        }
+        unsigned.attachments[ref.hash] = Buffer.from(data).toString('base64');
+      }
+    }
+    
+    if (options.passphrase !== undefined) {
+      unsigned.key = encryptWithPassphrase(this.keyPair.privateKey, options.passphrase);
+    }
+    
+    return {
+      ...unsigned,
+      signature: sign(canonicalizeBundle(unsigned), this.keyPair.privateKey),
+    };
+  }
+  
+  /**
+   * Restore a bundle from exportBundle() into an empty store.
+   * 
+   * The bundle's signature is checked and the tree is rebuilt from the
+   * commitments' recomputed leaf hashes. Every commitment must be signed by
+   * the bundle's key, and every anchor's root (and sparse root) must match
+   * the rebuilt tree before anything is written. Without `publicKey`,
+   * anyone can re-sign an edited bundle with their own key, so pass the
+   * expected key when the bundle comes from elsewhere.
+   * 
+   * @param options.passphrase - Passphrase the bundled key was encrypted
+   *   with; required if the bundle has a key. Without a bundled key the
+   *   store keeps or creates its own.
+   * @param options.publicKey - Only accept a bundle signed by this key
+   */
+  static async importBundle(
+    bundle: StoreBundle,
+    dataDir?: string,
+    options: { passphrase?: string; publicKey?: string } = {}
+  ): Promise<AnchorStore> {
+    const resolvedDir = dataDir ?? join(homedir(), '.bsv-anchors');
+    
+    if (bundle.version !== BUNDLE_VERSION) {
+      throw new Error(`Unsupported bundle version: ${bundle.version}`);
+    }
+    
+    const { signature, ...unsigned } = bundle;
+    if (!verify(canonicalizeBundle(unsigned), signature, bundle.publicKey)) {
+      throw new Error('Bundle signature is invalid');
+    }
+    if (options.publicKey && options.publicKey !== bundle.publicKey) {
+      throw new Error(`Bundle is signed by ${bundle.publicKey}, expected ${options.publicKey}`);
+    }
+    
+    // Recover the key
+    let keyPair: KeyPair | null = null;
+    if (bundle.key) {
+      if (options.passphrase === undefined) {
+        throw new Error('Bundle includes an encrypted key; a passphrase is required');
+      }
+      const privateKey = decryptWithPassphrase(bundle.key, options.passphrase);
+      keyPair = { privateKey, publicKey: getPublicKey(privateKey) };
+      if (keyPair.publicKey !== bundle.publicKey) {
+        throw new Error('Bundled key does not match the key that signed the bundle');
+      }
+    }
+    
+    // Rebuild the tree from recomputed leaf hashes
+    const commitments = bundle.commitments.map((commitment, position) => {
+      if (commitment.treeIndex !== position) {
+        throw new Error(
+          `Commitment ${commitment.id} has tree index ${commitment.treeIndex ?? '(none)'}, expected ${position}`
+        );
+      }
+      return { ...commitment, leafHash: hashLeaf(canonicalizeCommitment(commitment)) };
+    });
+    const leafHashes = commitments.map(c => c.leafHash);
+    
+    const settings = bundle.tree;
+    const tree = AnchorStore.createTree(settings.version, settings.mode, (start, end) => leafHashes.slice(start, end));
+    for (const hash of leafHashes) {
+      tree.addLeafHash(hash);
+    }
+    
+    // Check every anchor against the rebuilt tree
+    for (const anchor of bundle.anchors) {
+      const root = tree.getRoot(anchor.commitmentCount);
+      if (root !== anchor.rootHash) {
+        throw new Error(
+          root
+            ? `Anchor #${anchor.anchorIndex} root ${anchor.rootHash} does not match rebuilt root ${root}`
+            : `Anchor #${anchor.anchorIndex} covers ${anchor.commitmentCount} commitments, only ${leafHashes.length} exist`
+        );
+      }
+      if (anchor.sparseRoot &&
+          AnchorStore.buildSparseTree(commitments, anchor.commitmentCount).getRoot() !== anchor.sparseRoot) {
+        throw new Error(`Anchor #${anchor.anchorIndex} sparse root does not match the rebuilt sparse index`);
+      }
+    }
+    
+    if (tree.getRoot() !== settings.rootHash) {
+      throw new Error(
+        `Rebuilt root ${tree.getRoot() ?? '(none)'} does not match bundled root ${settings.rootHash ?? '(none)'}`
+      );
+    }
+    
+    // The bundle's key signed the bundle, so it must also have signed each commitment
+    for (const commitment of commitments) {
+      if (!verifyCommitmentSignature(commitment, bundle.publicKey) || !saltsCoverPayload(commitment)) {
+        throw new Error(`Commitment ${commitment.id} is not signed by the bundle's key`);
+      }
+    }
+    
+    const blobs = Object.entries(bundle.attachments ?? {}).map(([hash, data]) => {
+      const bytes = new Uint8Array(Buffer.from(data, 'base64'));
+      if (hashAttachment(bytes) !== hash) {
+        throw new Error(`Bundled attachment ${hash} is corrupted`);
+      }
+      return bytes;
+    });
+    
+    // Write everything into the empty store
+    const db = new AnchorDatabase(resolvedDir);
+    try {
+      if (db.getCommitmentCount() > 0 || db.getAnchorCount() > 0) {
+        throw new Error(`Can only import into an empty store; ${resolvedDir} already has commitments or anchors`);
+      }
+      if (keyPair && keyExists(resolvedDir) && loadOrCreateKey(resolvedDir).publicKey !== keyPair.publicKey) {
+        throw new Error(`${resolvedDir} already has a different identity key`);
+      }
+      
+      db.transaction(() => {
+        for (const commitment of commitments) {
+          db.insertCommitment(commitment);
+        }
+        for (const anchor of bundle.anchors) {
+          db.insertAnchor(anchor);
+        }
+        for (const schema of bundle.schemas) {
+          db.saveSchema(schema);
+        }
+        
+        db.clearTreeNodes();
+        db.saveTreeNodes(tree.getAllNodes());
+        db.saveTreeState({
+          ...tree.getState(),
+          lastAnchorIndex: bundle.anchors[bundle.anchors.length - 1]?.anchorIndex ?? -1,
+        });
+        
+        db.setConfig('tree_version', settings.version.toString());
+        db.setConfig('tree_mode', settings.mode);
+        writeOptionalConfig(db, 'sparse_index', settings.sparseIndex ? 'true' : undefined);
+      });
+    } finally {
+      db.close();
+    }
+    
+    const attachments = new AttachmentStore(resolvedDir);
+    for (const bytes of blobs) {
+      attachments.add(bytes);
+    }
+    if (keyPair) {
+      saveKey(resolvedDir, keyPair);
+    }
+    
+    return AnchorStore.open(resolvedDir);
+  }
+  
+  // --------------------------------------------------------------------------
+  // Backup & Restore
+  // --------------------------------------------------------------------------
+  
+  /**
+   * Back up the database while the store stays in use.
+   * @param path - Backup file (default: a timestamped file in the data
+   *   directory's backups folder)
+   */
+  async backup(path?: string): Promise<BackupInfo> {
+    const createdAt = Date.now();
+    const target = path ?? join(this.config.dataDir, BACKUP_DIR, backupFileName(createdAt));
+    await this.db.backup(target);
+    
+    return { path: target, createdAt, size: statSync(target).size };
+  }
+  
+  /**
+   * Replace a store's database with a backup.
+   * 
+   * The backup is checked in a staging copy first: derived tables are
+   * rebuilt from its commitments and the tree is compared with every anchor
+   * recorded in it. The current database is backed up before it is
+   * replaced. The store must not be open elsewhere while restoring.
+   */
+  static async restoreBackup(backupPath: string, dataDir?: string): Promise<AnchorStore> {
+    const resolvedDir = dataDir ?? join(homedir(), '.bsv-anchors');
+    if (!existsSync(backupPath)) {
+      throw new Error(`Backup not found: ${backupPath}`);
+    }
+    
+    mkdirSync(resolvedDir, { recursive: true });
+    const stagingDir = mkdtempSync(join(resolvedDir, 'restore-'));
+    
+    try {
+      copyFileSync(backupPath, join(stagingDir, 'anchors.db'));
+      
+      const staged = await AnchorStore.open(stagingDir, { repairTree: false });
+      let report: AuditReport;
+      try {
+        report = await staged.audit({ repair: true });
+      } finally {
+        staged.close();
+      }
+      
+      const unrepairable = report.issues.filter(issue => !issue.repairable);
+      if (unrepairable.length > 0) {
+        throw new Error(`Backup does not match its anchors: ${unrepairable.map(issue => issue.message).join('; ')}`);
+      }
+      
+      // Keep the current database, then swap the checked copy in
+      const dbPath = join(resolvedDir, 'anchors.db');
+      if (existsSync(dbPath)) {
+        const current = new AnchorDatabase(resolvedDir);
+        try {
+          await current.backup(join(resolvedDir, BACKUP_DIR, backupFileName(Date.now())));
+        } finally {
+          current.close();
+        }
+      }
+      
+      rmSync(`${dbPath}-wal`, { force: true });
+      rmSync(`${dbPath}-shm`, { force: true });
+      renameSync(join(stagingDir, 'anchors.db'), dbPath);
+    } finally {
+      rmSync(stagingDir, { recursive: true, force: true });
+    }
+    
+    return AnchorStore.open(resolvedDir);
+  }
+  
   // --------------------------------------------------------------------------
   // Identity
   // --------------------------------------------------------------------------
@@ -431,19 +2287,23 @@ export class AnchorStore {
     const latestAnchor = await this.getLatestAnchor();
     const commitmentCount = await this.count();
     
-    // Protocol: "BSV-ANCHOR" <version:1> <root:32> <count:4> <prev:32>
+    // Protocol: "BSV-ANCHOR" <version:1> <root:32> <count:4> <prev:32> [<sparseRoot:32>]
+    // The version byte is the tree algorithm version the root was built with
     const protocol = new TextEncoder().encode('BSV-ANCHOR');
-    const version = new Uint8Array([0x01]);
+    const version = new Uint8Array([this.tree.version]);
     const rootBytes = hexToBytes(root);
     const countBytes = new Uint8Array(4);
     new DataView(countBytes.buffer).setUint32(0, commitmentCount, false); // big-endian
     const prevBytes = latestAnchor 
       ? hexToBytes(latestAnchor.txid)
       : new Uint8Array(32); // zeros if first anchor
+    const sparseBytes = this.config.sparseIndex
+      ? hexToBytes(AnchorStore.buildSparseTree(this.db.getAllCommitments(), commitmentCount).getRoot())
+      : new Uint8Array(0); // omitted unless the sparse index is enabled
     
     // Concatenate
     const payload = new Uint8Array(
-      protocol.length + version.length + rootBytes.length + countBytes.length + prevBytes.length
+      protocol.length + version.length + rootBytes.length + countBytes.length + prevBytes.length + sparseBytes.length
     );
     
     let offset = 0;
@@ -451,7 +2311,8 @@ export class AnchorStore {
     payload.set(version, offset); offset += version.length;
     payload.set(rootBytes, offset); offset += rootBytes.length;
     payload.set(countBytes, offset); offset += countBytes.length;
-    payload.set(prevBytes, offset);
+    payload.set(prevBytes, offset); offset += prevBytes.length;
+    payload.set(sparseBytes, offset);
     
     return payload;
   }
@@ -461,5 +2322,244 @@ export class AnchorStore {
 // Helpers
 // ============================================================================
 
+/**
+ * The fields of a full or redacted commitment that its signatures cover.
+ */
+type UnsignedForm = Omit<Commitment, 'payload' | 'signers'> & {
+  payload: Partial<CommitmentPayload>;
+  withheld?: Record<string, string>;
+};
+
+/**
+ * Canonical unsigned form of a commitment, which every party signs.
+ */
+function canonicalizeUnsigned(commitment: UnsignedForm): string {
+  return canonicalizeCommitment({
+    id: commitment.id,
+    type: commitment.type,
+    payload: commitment.payload,
+    timestamp: commitment.timestamp,
+    signature: '',
+    group: commitment.group,
+    salts: commitment.salts,
+    withheld: commitment.withheld,
+  });
+}
+
+/**
+ * The form of a bundle its signature covers.
+ */
+function canonicalizeBundle(bundle: Omit<StoreBundle, 'signature'>): string {
+  return JSON.stringify(sortObjectKeys(bundle));
+}
+
+/**
+ * Check that tags are distinct, non-empty strings.
+ */
+function checkTags(tags: unknown): void {
+  if (!Array.isArray(tags)) {
+    throw new Error('Tags must be an array of strings');
+  }
+  
+  const seen = new Set<string>();
+  for (const tag of tags) {
+    if (typeof tag !== 'string' || tag.trim() === '') {
+      throw new Error('Tags must be non-empty strings');
+    }
+    if (seen.has(tag)) {
+      throw new Error(`Duplicate tag: ${tag}`);
+    }
+    seen.add(tag);
+  }
+}
+
+/**
+ * Fresh random salt for each field present in a payload.
+ */
+function saltPayload(payload: CommitmentPayload): Record<string, string> {
+  const salts: Record<string, string> = {};
+  for (const [name, value] of Object.entries(payload)) {
+    if (value !== undefined) {
+      salts[name] = randomBytes(32).toString('hex');
+    }
+  }
+  return salts;
+}
+
+/**
+ * Whether a salted commitment has a salt for each payload field and a
+ * payload field for each salt. Only salted fields are signed and hashed
+ * into the leaf, so any other field would be unauthenticated.
+ */
+function saltsCoverPayload(commitment: Pick<Commitment, 'payload' | 'salts'>): boolean {
+  if (!commitment.salts) {
+    return true;
+  }
+  
+  const fields = Object.keys(commitment.payload)
+    .filter(name => (commitment.payload as unknown as Record<string, unknown>)[name] !== undefined);
+  return fields.length === Object.keys(commitment.salts).length &&
+    fields.every(name => Object.hasOwn(commitment.salts!, name));
+}
+
+/**
+ * Replace a payload's content with the ciphertext of its content and
+ * metadata, and its metadata with the envelope the recipients decrypt with.
+ * Tags and attachment references stay readable; blobs aren't encrypted.
+ */
+function encryptPayload(payload: CommitmentPayload, recipients: string[]): CommitmentPayload {
+  const { ciphertext, envelope } = encryptForRecipients(
+    JSON.stringify({ content: payload.content, metadata: payload.metadata }),
+    recipients
+  );
+  
+  return {
+    subject: payload.subject,
+    content: ciphertext,
+    ...(payload.counterparty !== undefined && { counterparty: payload.counterparty }),
+    metadata: { encryption: envelope },
+    ...(payload.tags !== undefined && { tags: payload.tags }),
+    ...(payload.attachments !== undefined && { attachments: payload.attachments }),
+  };
+}
+
+/**
+ * Replace the payload fields not in `disclose` with their salted hashes.
+ */
+function redactCommitment(commitment: Commitment, disclose: string[]): RedactedCommitment {
+  const { payload, salts, revocation, fulfillment, supersededBy, ...rest } = commitment;
+  const fields = payload as unknown as Record<string, unknown>;
+  
+  const redacted: RedactedCommitment = { ...rest, payload: {}, salts: {}, withheld: {} };
+  for (const [name, salt] of Object.entries(salts!)) {
+    if (disclose.includes(name)) {
+      (redacted.payload as Record<string, unknown>)[name] = fields[name];
+      redacted.salts[name] = salt;
+    } else {
+      redacted.withheld[name] = hashPayloadField(name, fields[name], salt);
+    }
+  }
+  
+  return redacted;
+}
+
+/**
+ * Check bundled attachment blobs against a payload's references: every
+ * referenced blob must be bundled, with matching hash and size, and
+ * nothing else.
+ */
+function checkAttachmentBundle(refs: AttachmentRef[] = [], bundle: Record<string, string>): boolean {
+  if (Object.keys(bundle).length !== new Set(refs.map(ref => ref.hash)).size) {
+    return false;
+  }
+  
+  for (const ref of refs) {
+    const encoded = bundle[ref.hash];
+    if (encoded === undefined) return false;
+    
+    const data = new Uint8Array(Buffer.from(encoded, 'base64'));
+    if (data.length !== ref.size || hashAttachment(data) !== ref.hash) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Verify a commitment's signature over its canonical (unsigned) form.
+ * Co-signed commitments need every party's signature to verify, with
+ * `publicKeyHex` among the signers. Group commitments need a quorum of
+ * distinct participants, with `publicKeyHex` among the participants.
+ */
+function verifyCommitmentSignature(commitment: Commitment | RedactedCommitment, publicKeyHex: string): boolean {
+  const unsignedCanonical = canonicalizeUnsigned(commitment);
+  const { signers, group } = commitment;
+  
+  if (!signers) {
+    return !group && verify(unsignedCanonical, commitment.signature, publicKeyHex);
+  }
+  
+  if (group) {
+    const distinct = new Set(signers.map(s => s.publicKey));
+    return signers.length > 0 &&
+      signers[0].signature === commitment.signature &&
+      distinct.size === signers.length &&
+      signers.length >= group.threshold &&
+      group.participants.includes(publicKeyHex) &&
+      signers.every(s =>
+        group.participants.includes(s.publicKey) &&
+        verify(unsignedCanonical, s.signature, s.publicKey)
+      );
+  }
+  
+  return signers.length > 0 &&
+    signers[0].signature === commitment.signature &&
+    signers.some(s => s.publicKey === publicKeyHex) &&
+    signers.every(s => verify(unsignedCanonical, s.signature, s.publicKey));
+}
+
+/**
+ * ID of the commitment an amendment supersedes, if it is one.
+ */
+function supersededId(commitment: Commitment): string | undefined {
+  return (commitment.payload.metadata as Partial<SupersessionMetadata> | undefined)?.supersedes;
+}
+
+/**
+ * Check a group policy names distinct participants and a usable threshold.
+ */
+function validateGroupPolicy(group: GroupPolicy): void {
+  const { participants, threshold } = group;
+  
+  if (new Set(participants).size !== participants.length) {
+    throw new Error('Group participants must be unique');
+  }
+  if (!Number.isInteger(threshold) || threshold < 2 || threshold > participants.length) {
+    throw new Error('Group threshold must be between 2 and the number of participants');
+  }
+}
+
+/**
+ * Read the persisted anchoring strategy (manual if never set).
+ */
+function readAnchorStrategy(db: AnchorDatabase): AnchorStrategySettings {
+  const interval = db.getConfig('anchor_interval_hours');
+  const threshold = db.getConfig('anchor_threshold');
+  const types = db.getConfig('immediate_types');
+  
+  return {
+    anchorStrategy: (db.getConfig('anchor_strategy') as AnchorConfig['anchorStrategy']) ?? 'manual',
+    anchorIntervalHours: interval ? parseFloat(interval) : undefined,
+    anchorThreshold: threshold ? parseInt(threshold, 10) : undefined,
+    immediateTypes: types ? types.split(',') as CommitmentType[] : undefined,
+  };
+}
+
+/**
+ * Set a config value, or delete it when undefined.
+ */
+function writeOptionalConfig(db: AnchorDatabase, key: string, value: string | undefined): void {
+  if (value === undefined) {
+    db.deleteConfig(key);
+  } else {
+    db.setConfig(key, value);
+  }
+}
+
+/**
+ * Reduce an anchor to the reference carried inside proofs.
+ */
+function toAnchorReference(anchor: Anchor): AnchorReference {
+  return {
+    txid: anchor.txid,
+    blockHeight: anchor.blockHeight,
+    timestamp: anchor.timestamp,
+    rootHash: anchor.rootHash,
+    commitmentCount: anchor.commitmentCount,
+    sparseRoot: anchor.sparseRoot,
+  };
+}
+
 // Using hexToBytes from @noble/hashes/utils (imported in merkle/tree.ts)
 import { hexToBytes } from '@noble/hashes/utils';
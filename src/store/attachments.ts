@@ -0,0 +1,163 @@
+/**
+ * bsv-anchors - Attachment Store
+ * 
+ * Content-addressed blob storage for evidence too large for a payload.
+ * Blobs live in the data directory under their SHA-256; commitments
+ * reference them by hash and size.
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  utimesSync,
+  writeFileSync,
+} from 'fs';
+import { dirname, join } from 'path';
+import { randomBytes } from 'crypto';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StoredAttachment {
+  /** SHA-256 of the blob (hex) */
+  hash: string;
+  
+  /** Size in bytes */
+  size: number;
+  
+  /** Unix timestamp (ms) when the blob was written */
+  storedAt: number;
+}
+
+// ============================================================================
+// Attachment Store
+// ============================================================================
+
+export class AttachmentStore {
+  private readonly dir: string;
+  
+  constructor(dataDir: string) {
+    this.dir = join(dataDir, 'attachments');
+  }
+  
+  /**
+   * Store a blob. Storing the same bytes again only refreshes its age.
+   * @returns The blob's hash and size
+   */
+  add(data: Uint8Array): { hash: string; size: number } {
+    const hash = hashAttachment(data);
+    const path = this.pathFor(hash);
+    
+    if (!existsSync(path)) {
+      mkdirSync(dirname(path), { recursive: true });
+      
+      // Write then rename, so a crash never leaves a partial blob under its hash
+      const temp = `${path}.${randomBytes(4).toString('hex')}.tmp`;
+      writeFileSync(temp, data);
+      renameSync(temp, path);
+    } else {
+      const now = new Date();
+      utimesSync(path, now, now);
+    }
+    
+    return { hash, size: data.length };
+  }
+  
+  /**
+   * Read a blob, checking it still matches its hash.
+   * @returns The blob, or null if not stored
+   */
+  get(hash: string): Uint8Array | null {
+    const path = this.pathFor(hash);
+    if (!existsSync(path)) {
+      return null;
+    }
+    
+    const data = new Uint8Array(readFileSync(path));
+    if (hashAttachment(data) !== hash) {
+      throw new Error(`Attachment ${hash} is corrupted`);
+    }
+    
+    return data;
+  }
+  
+  /**
+   * Size of a stored blob, or null if not stored.
+   */
+  sizeOf(hash: string): number | null {
+    const path = this.pathFor(hash);
+    return existsSync(path) ? statSync(path).size : null;
+  }
+  
+  /**
+   * List all stored blobs.
+   */
+  list(): StoredAttachment[] {
+    if (!existsSync(this.dir)) {
+      return [];
+    }
+    
+    const blobs: StoredAttachment[] = [];
+    for (const prefix of readdirSync(this.dir)) {
+      for (const name of readdirSync(join(this.dir, prefix))) {
+        if (!isAttachmentHash(name)) continue;
+        
+        const stat = statSync(join(this.dir, prefix, name));
+        blobs.push({ hash: name, size: stat.size, storedAt: stat.mtimeMs });
+      }
+    }
+    
+    return blobs;
+  }
+  
+  /**
+   * Delete a blob.
+   * @returns Whether it was stored
+   */
+  delete(hash: string): boolean {
+    const path = this.pathFor(hash);
+    if (!existsSync(path)) {
+      return false;
+    }
+    
+    unlinkSync(path);
+    return true;
+  }
+  
+  /**
+   * Blobs are sharded by the first byte of their hash.
+   */
+  private pathFor(hash: string): string {
+    if (!isAttachmentHash(hash)) {
+      throw new Error(`Invalid attachment hash: ${hash}`);
+    }
+    return join(this.dir, hash.slice(0, 2), hash);
+  }
+}
+
+// ============================================================================
+// Hashing
+// ============================================================================
+
+/**
+ * SHA-256 of a blob (hex). Plain SHA-256, so verifiers can check a blob
+ * with standard tools such as `sha256sum`.
+ */
+export function hashAttachment(data: Uint8Array): string {
+  return bytesToHex(sha256(data));
+}
+
+/**
+ * Whether a string is a well-formed attachment hash.
+ */
+export function isAttachmentHash(hash: string): boolean {
+  return /^[0-9a-f]{64}$/.test(hash);
+}
@@ -0,0 +1,203 @@
+/**
+ * bsv-anchors - Database Backups
+ * 
+ * Timestamped copies of `anchors.db`, taken with SQLite's online backup API
+ * so the store can keep committing while they are written.
+ */
+
+import { existsSync, readdirSync, statSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import type { AnchorStore } from './anchor-store.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BackupInfo {
+  /** Path of the backup file */
+  path: string;
+  
+  /** Unix timestamp (ms) when the backup was taken */
+  createdAt: number;
+  
+  /** Size in bytes */
+  size: number;
+}
+
+export interface BackupSchedulerConfig {
+  /** The anchor store to back up */
+  store: AnchorStore;
+  
+  /** Time between backups, in ms (default: 24 hours) */
+  intervalMs?: number;
+  
+  /** Number of backups to keep; older ones are deleted (default: 7) */
+  retain?: number;
+  
+  /** Callback after each backup */
+  onBackup?: (backup: BackupInfo) => void;
+  
+  /** Callback when a backup fails */
+  onError?: (error: Error) => void;
+}
+
+// ============================================================================
+// Backup Files
+// ============================================================================
+
+/** Directory under the data directory that backups go to by default */
+export const BACKUP_DIR = 'backups';
+
+const BACKUP_FILE = /^anchors-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.db$/;
+
+/**
+ * Name of a backup file taken at the given time. Names sort by time.
+ */
+export function backupFileName(createdAt: number): string {
+  return `anchors-${new Date(createdAt).toISOString().replace(/[:.]/g, '-')}.db`;
+}
+
+/**
+ * List the backups in a directory, oldest first.
+ */
+export function listBackups(dir: string): BackupInfo[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  
+  const backups: BackupInfo[] = [];
+  for (const name of readdirSync(dir)) {
+    const match = BACKUP_FILE.exec(name);
+    if (!match) continue;
+    
+    const [, date, hours, minutes, seconds, ms] = match;
+    const path = join(dir, name);
+    backups.push({
+      path,
+      createdAt: Date.parse(`${date}T${hours}:${minutes}:${seconds}.${ms}Z`),
+      size: statSync(path).size,
+    });
+  }
+  
+  return backups.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Find the latest backup taken at or before a point in time.
+ * @returns The backup, or null if none is that old
+ */
+export function findBackup(dir: string, at: number = Date.now()): BackupInfo | null {
+  const candidates = listBackups(dir).filter(backup => backup.createdAt <= at);
+  return candidates[candidates.length - 1] ?? null;
+}
+
+/**
+ * Delete all but the newest `retain` backups in a directory.
+ * @returns Paths of the deleted backups
+ */
+export function pruneBackups(dir: string, retain: number): string[] {
+  if (!Number.isInteger(retain) || retain < 1) {
+    throw new Error('Must retain at least one backup');
+  }
+  
+  const backups = listBackups(dir);
+  const removed = backups.slice(0, Math.max(0, backups.length - retain)).map(backup => backup.path);
+  for (const path of removed) {
+    unlinkSync(path);
+  }
+  
+  return removed;
+}
+
+// ============================================================================
+// Backup Scheduler
+// ============================================================================
+
+/**
+ * Backs up a store on a timer, deleting the oldest backups beyond the
+ * retention count.
+ */
+export class BackupScheduler {
+  private config: Required<BackupSchedulerConfig>;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<BackupInfo | null> | null = null;
+  
+  constructor(config: BackupSchedulerConfig) {
+    this.config = {
+      store: config.store,
+      intervalMs: config.intervalMs ?? 86_400_000,
+      retain: config.retain ?? 7,
+      onBackup: config.onBackup ?? (() => {}),
+      onError: config.onError ?? (() => {}),
+    };
+    
+    if (!Number.isInteger(this.config.retain) || this.config.retain < 1) {
+      throw new Error('Must retain at least one backup');
+    }
+  }
+  
+  /**
+   * Start backing up on the timer.
+   */
+  start(): void {
+    if (this.timer) return;
+    
+    this.timer = setInterval(() => {
+      void this.backup();
+    }, this.config.intervalMs);
+    
+    // Don't keep the process alive just for backups
+    this.timer.unref();
+  }
+  
+  /**
+   * Stop the timer. A backup already in flight still completes.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+  
+  /**
+   * Whether the scheduler is started.
+   */
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+  
+  /**
+   * Back up now and prune old backups. Concurrent calls share the backup
+   * in flight.
+   * @returns The backup taken, or null if it failed
+   */
+  async backup(): Promise<BackupInfo | null> {
+    if (this.running) {
+      return this.running;
+    }
+    
+    this.running = this.run();
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+    }
+  }
+  
+  // --------------------------------------------------------------------------
+  // Internal Methods
+  // --------------------------------------------------------------------------
+  
+  private async run(): Promise<BackupInfo | null> {
+    try {
+      const backup = await this.config.store.backup();
+      pruneBackups(join(this.config.store.getDataDir(), BACKUP_DIR), this.config.retain);
+      this.config.onBackup(backup);
+      return backup;
+    } catch (err) {
+      this.config.onError(err instanceof Error ? err : new Error(String(err)));
+      return null;
+    }
+  }
+}
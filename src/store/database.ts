@@ -6,73 +6,23 @@
 
 import Database from 'better-sqlite3';
 import { homedir } from 'os';
-import { join } from 'path';
+import { dirname, join } from 'path';
 import { mkdirSync, existsSync } from 'fs';
 import type { 
   Commitment, 
   CommitmentQuery, 
+  CommitmentProposal,
+  CommitmentSchema,
+  SearchResult,
+  MetadataFilter,
   Anchor, 
   TreeNode, 
   TreeState,
   AnchorConfig,
   DEFAULT_CONFIG 
 } from '../types.js';
-
-// ============================================================================
-// Database Schema
-// ============================================================================
-
-const SCHEMA = `
--- Commitments table
-CREATE TABLE IF NOT EXISTS commitments (
-  id TEXT PRIMARY KEY,
-  type TEXT NOT NULL,
-  payload TEXT NOT NULL,
-  signature TEXT NOT NULL,
-  timestamp INTEGER NOT NULL,
-  leaf_hash TEXT NOT NULL,
-  tree_index INTEGER NOT NULL,
-  created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
-);
-
-CREATE INDEX IF NOT EXISTS idx_commitments_type ON commitments(type);
-CREATE INDEX IF NOT EXISTS idx_commitments_timestamp ON commitments(timestamp);
-CREATE INDEX IF NOT EXISTS idx_commitments_tree_index ON commitments(tree_index);
-
--- Merkle tree nodes
-CREATE TABLE IF NOT EXISTS tree_nodes (
-  level INTEGER NOT NULL,
-  idx INTEGER NOT NULL,
-  hash TEXT NOT NULL,
-  PRIMARY KEY (level, idx)
-);
-
--- Tree state (singleton)
-CREATE TABLE IF NOT EXISTS tree_state (
-  key TEXT PRIMARY KEY,
-  value TEXT NOT NULL
-);
-
--- Anchors
-CREATE TABLE IF NOT EXISTS anchors (
-  anchor_index INTEGER PRIMARY KEY,
-  txid TEXT NOT NULL UNIQUE,
-  block_height INTEGER,
-  timestamp INTEGER NOT NULL,
-  root_hash TEXT NOT NULL,
-  commitment_count INTEGER NOT NULL,
-  previous_anchor TEXT
-);
-
-CREATE INDEX IF NOT EXISTS idx_anchors_txid ON anchors(txid);
-CREATE INDEX IF NOT EXISTS idx_anchors_root ON anchors(root_hash);
-
--- Config
-CREATE TABLE IF NOT EXISTS config (
-  key TEXT PRIMARY KEY,
-  value TEXT NOT NULL
-);
-`;
+import { migrate, getSchemaVersion } from './migrations.js';
+import { parseFilter, checkFilter, checkMetadataPath } from './filter.js';
 
 // ============================================================================
 // Database Class
@@ -98,8 +48,8 @@ export class AnchorDatabase {
     // Enable WAL mode for better concurrency
     this.db.pragma('journal_mode = WAL');
     
-    // Initialize schema
-    this.db.exec(SCHEMA);
+    // Create or upgrade the schema
+    migrate(this.db);
   }
   
   // --------------------------------------------------------------------------
@@ -111,10 +61,24 @@ export class AnchorDatabase {
    */
   insertCommitment(commitment: Commitment): void {
     const stmt = this.db.prepare(`
-      INSERT INTO commitments (id, type, payload, signature, timestamp, leaf_hash, tree_index)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO commitments (
+        id, type, payload, signature, timestamp, leaf_hash, tree_index, revokes, supersedes, signers, group_policy, salts,
+        due_at, fulfills
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
+    // Revocations, fulfillments and amendments are indexed by the commitment they refer to
+    const metadata = commitment.payload.metadata as {
+      revokes?: string;
+      supersedes?: string;
+      fulfills?: string;
+      dueAt?: number;
+    } | undefined;
+    const revokes = commitment.type === 'revocation' ? metadata?.revokes ?? null : null;
+    const fulfills = commitment.type === 'fulfillment' ? metadata?.fulfills ?? null : null;
+    const supersedes = metadata?.supersedes ?? null;
+    
     stmt.run(
       commitment.id,
       commitment.type,
@@ -122,10 +86,82 @@ export class AnchorDatabase {
       commitment.signature,
       commitment.timestamp,
       commitment.leafHash ?? '',
-      commitment.treeIndex ?? -1
+      commitment.treeIndex ?? -1,
+      revokes,
+      supersedes,
+      commitment.signers ? JSON.stringify(commitment.signers) : null,
+      commitment.group ? JSON.stringify(commitment.group) : null,
+      commitment.salts ? JSON.stringify(commitment.salts) : null,
+      typeof metadata?.dueAt === 'number' ? metadata.dueAt : null,
+      fulfills
     );
   }
   
+  /**
+   * Get the revocation commitments for the given commitment IDs. The IDs
+   * are passed as one JSON array, so any number stays within SQLite's limit
+   * on bound parameters.
+   * @returns Map from revoked commitment ID to its revocation
+   */
+  getRevocations(ids: string[]): Map<string, Commitment> {
+    const result = new Map<string, Commitment>();
+    if (ids.length === 0) return result;
+    
+    const stmt = this.db.prepare(`
+      SELECT * FROM commitments WHERE revokes IN (SELECT value FROM json_each(?))
+    `);
+    for (const row of stmt.all(JSON.stringify(ids)) as CommitmentRow[]) {
+      result.set(row.revokes!, this.rowToCommitment(row));
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Get the fulfillment commitments for the given commitment IDs.
+   * @returns Map from fulfilled commitment ID to its fulfillment
+   */
+  getFulfillments(ids: string[]): Map<string, Commitment> {
+    const result = new Map<string, Commitment>();
+    if (ids.length === 0) return result;
+    
+    const stmt = this.db.prepare(`
+      SELECT * FROM commitments WHERE fulfills IN (SELECT value FROM json_each(?))
+    `);
+    for (const row of stmt.all(JSON.stringify(ids)) as CommitmentRow[]) {
+      result.set(row.fulfills!, this.rowToCommitment(row));
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Get the IDs of the commitments that amend the given ones.
+   * @returns Map from superseded commitment ID to the ID amending it
+   */
+  getSupersessions(ids: string[]): Map<string, string> {
+    const result = new Map<string, string>();
+    if (ids.length === 0) return result;
+    
+    const stmt = this.db.prepare(`
+      SELECT id, supersedes FROM commitments WHERE supersedes IN (SELECT value FROM json_each(?))
+    `);
+    for (const row of stmt.all(JSON.stringify(ids)) as Pick<CommitmentRow, 'id' | 'supersedes'>[]) {
+      result.set(row.supersedes!, row.id);
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Get the commitment that amends the given one, if any.
+   */
+  getSupersedingCommitment(id: string): Commitment | null {
+    const stmt = this.db.prepare('SELECT * FROM commitments WHERE supersedes = ?');
+    const row = stmt.get(id) as CommitmentRow | undefined;
+    return row ? this.rowToCommitment(row) : null;
+  }
+  
   /**
    * Update commitment with tree position.
    */
@@ -162,33 +198,7 @@ export class AnchorDatabase {
    * Query commitments with filters.
    */
   queryCommitments(query: CommitmentQuery): Commitment[] {
-    const conditions: string[] = [];
-    const params: unknown[] = [];
-    
-    if (query.type) {
-      conditions.push('type = ?');
-      params.push(query.type);
-    }
-    
-    if (query.subject) {
-      conditions.push("json_extract(payload, '$.subject') LIKE ?");
-      params.push(`%${query.subject}%`);
-    }
-    
-    if (query.counterparty) {
-      conditions.push("json_extract(payload, '$.counterparty') = ?");
-      params.push(query.counterparty);
-    }
-    
-    if (query.since) {
-      conditions.push('timestamp >= ?');
-      params.push(query.since);
-    }
-    
-    if (query.until) {
-      conditions.push('timestamp <= ?');
-      params.push(query.until);
-    }
+    const { conditions, params } = this.queryConditions(query);
     
     let sql = 'SELECT * FROM commitments';
     if (conditions.length > 0) {
@@ -211,6 +221,60 @@ export class AnchorDatabase {
     return rows.map(row => this.rowToCommitment(row));
   }
   
+  /**
+   * Full-text search over subject, content, metadata and counterparty,
+   * best matches first. Each word is matched separately (stemmed), so
+   * commitments matching more of the words rank higher.
+   */
+  searchCommitments(text: string, query: CommitmentQuery = {}): SearchResult[] {
+    const terms = text.match(/[\p{L}\p{N}_]+/gu) ?? [];
+    if (terms.length === 0) {
+      return [];
+    }
+    
+    const { conditions, params } = this.queryConditions(query);
+    
+    let sql = `
+      SELECT commitments.*,
+        bm25(commitments_fts, 4.0, 2.0, 1.0, 1.0) AS score,
+        snippet(commitments_fts, -1, '[', ']', '…', 12) AS snippet
+      FROM commitments_fts
+      JOIN commitments ON commitments.rowid = commitments_fts.rowid
+      WHERE commitments_fts MATCH ?
+    `;
+    for (const condition of conditions) {
+      sql += ` AND ${condition}`;
+    }
+    sql += ' ORDER BY score LIMIT ? OFFSET ?';
+    
+    const match = terms.map(term => `"${term}"`).join(' OR ');
+    const rows = this.db.prepare(sql).all(match, ...params, query.limit ?? 20, query.offset ?? 0) as
+      Array<CommitmentRow & { score: number; snippet: string }>;
+    
+    // bm25() is lower for better matches
+    return rows.map(row => ({
+      commitment: this.rowToCommitment(row),
+      score: -row.score,
+      snippet: row.snippet,
+    }));
+  }
+  
+  /**
+   * Get the hashes of all attachments referenced by commitments or
+   * pending group commitments.
+   */
+  getAttachmentHashes(): Set<string> {
+    const stmt = this.db.prepare(`
+      SELECT json_extract(a.value, '$.hash') AS hash
+        FROM commitments, json_each(commitments.payload, '$.attachments') a
+      UNION
+      SELECT json_extract(a.value, '$.hash') AS hash
+        FROM pending_commitments, json_each(pending_commitments.proposal, '$.payload.attachments') a
+    `);
+    const rows = stmt.all() as { hash: string }[];
+    return new Set(rows.map(row => row.hash));
+  }
+  
   /**
    * Get all commitments (for tree rebuilding).
    */
@@ -222,6 +286,19 @@ export class AnchorDatabase {
     return rows.map(row => this.rowToCommitment(row));
   }
   
+  /**
+   * Get leaf hashes for tree indices in [start, end), in tree order.
+   */
+  getLeafHashes(start: number, end: number): string[] {
+    const stmt = this.db.prepare(`
+      SELECT leaf_hash FROM commitments
+      WHERE tree_index >= ? AND tree_index < ?
+      ORDER BY tree_index
+    `);
+    const rows = stmt.all(start, end) as Array<{ leaf_hash: string }>;
+    return rows.map(row => row.leaf_hash);
+  }
+  
   /**
    * Get commitment count.
    */
@@ -231,6 +308,67 @@ export class AnchorDatabase {
     return row.count;
   }
   
+  // --------------------------------------------------------------------------
+  // Pending Commitment Operations
+  // --------------------------------------------------------------------------
+  
+  /**
+   * Insert or update a pending group commitment.
+   */
+  savePendingCommitment(proposal: CommitmentProposal): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO pending_commitments (id, proposal) VALUES (?, ?)
+      ON CONFLICT(id) DO UPDATE SET proposal = excluded.proposal
+    `);
+    stmt.run(proposal.id, JSON.stringify(proposal));
+  }
+  
+  /**
+   * Get a pending group commitment by ID.
+   */
+  getPendingCommitment(id: string): CommitmentProposal | null {
+    const stmt = this.db.prepare('SELECT proposal FROM pending_commitments WHERE id = ?');
+    const row = stmt.get(id) as { proposal: string } | undefined;
+    return row ? JSON.parse(row.proposal) : null;
+  }
+  
+  /**
+   * Get all pending group commitments, oldest first.
+   */
+  getPendingCommitments(): CommitmentProposal[] {
+    const stmt = this.db.prepare('SELECT proposal FROM pending_commitments ORDER BY created_at ASC, rowid ASC');
+    const rows = stmt.all() as { proposal: string }[];
+    return rows.map(row => JSON.parse(row.proposal));
+  }
+  
+  /**
+   * Delete a pending group commitment.
+   */
+  deletePendingCommitment(id: string): void {
+    this.db.prepare('DELETE FROM pending_commitments WHERE id = ?').run(id);
+  }
+  
+  // --------------------------------------------------------------------------
+  // Schema Operations
+  // --------------------------------------------------------------------------
+  
+  /**
+   * Store a commitment schema. Schemas never change, so an existing ID is kept.
+   */
+  saveSchema(schema: CommitmentSchema): void {
+    const stmt = this.db.prepare('INSERT OR IGNORE INTO schemas (id, definition) VALUES (?, ?)');
+    stmt.run(schema.id, JSON.stringify(schema));
+  }
+  
+  /**
+   * Get all stored schemas, oldest first.
+   */
+  getSchemas(): CommitmentSchema[] {
+    const stmt = this.db.prepare('SELECT definition FROM schemas ORDER BY created_at ASC, rowid ASC');
+    const rows = stmt.all() as { definition: string }[];
+    return rows.map(row => JSON.parse(row.definition));
+  }
+  
   // --------------------------------------------------------------------------
   // Tree Node Operations
   // --------------------------------------------------------------------------
@@ -260,6 +398,21 @@ export class AnchorDatabase {
     return stmt.all() as TreeNode[];
   }
   
+  /**
+   * Delete tree nodes that are no longer part of the tree (batch).
+   */
+  deleteTreeNodes(nodes: TreeNode[]): void {
+    const remove = this.db.prepare('DELETE FROM tree_nodes WHERE level = ? AND idx = ?');
+    
+    const transaction = this.db.transaction((nodes: TreeNode[]) => {
+      for (const node of nodes) {
+        remove.run(node.level, node.index);
+      }
+    });
+    
+    transaction(nodes);
+  }
+  
   /**
    * Clear tree nodes (for rebuild).
    */
@@ -314,8 +467,8 @@ export class AnchorDatabase {
    */
   insertAnchor(anchor: Anchor): void {
     const stmt = this.db.prepare(`
-      INSERT INTO anchors (anchor_index, txid, block_height, timestamp, root_hash, commitment_count, previous_anchor)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO anchors (anchor_index, txid, block_height, timestamp, root_hash, commitment_count, previous_anchor, sparse_root)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     stmt.run(
@@ -325,7 +478,8 @@ export class AnchorDatabase {
       anchor.timestamp,
       anchor.rootHash,
       anchor.commitmentCount,
-      anchor.previousAnchor ?? null
+      anchor.previousAnchor ?? null,
+      anchor.sparseRoot ?? null
     );
   }
   
@@ -403,6 +557,62 @@ export class AnchorDatabase {
     stmt.run(key, value);
   }
   
+  /**
+   * Delete config value.
+   */
+  deleteConfig(key: string): void {
+    this.db.prepare('DELETE FROM config WHERE key = ?').run(key);
+  }
+  
+  // --------------------------------------------------------------------------
+  // Metadata Index Operations
+  // --------------------------------------------------------------------------
+  
+  /**
+   * Index a metadata path (e.g. `metadata.priceSats`), so `where` filters
+   * on it use the index instead of reading every payload.
+   * @returns Whether the index is new
+   */
+  createMetadataIndex(path: string): boolean {
+    checkMetadataPath(path);
+    const exists = BUILT_IN_METADATA_INDEXES.includes(path) || this.getMetadataIndexes().includes(path);
+    if (!exists) {
+      this.db.exec(`CREATE INDEX "${metadataIndexName(path)}" ON commitments(${jsonExtract(path)})`);
+    }
+    return !exists;
+  }
+  
+  /**
+   * Drop the index on a metadata path. Built-in indexes can't be dropped.
+   * @returns Whether there was one
+   */
+  dropMetadataIndex(path: string): boolean {
+    checkMetadataPath(path);
+    if (BUILT_IN_METADATA_INDEXES.includes(path)) {
+      throw new Error(`Cannot drop the built-in index on ${path}`);
+    }
+    const exists = this.getMetadataIndexes().includes(path);
+    if (exists) {
+      this.db.exec(`DROP INDEX "${metadataIndexName(path)}"`);
+    }
+    return exists;
+  }
+  
+  /**
+   * Get the indexed metadata paths, not counting built-in indexes.
+   */
+  getMetadataIndexes(): string[] {
+    const stmt = this.db.prepare(`
+      SELECT name FROM sqlite_master
+      WHERE type = 'index' AND tbl_name = 'commitments' AND name LIKE 'idx\\_metadata.%' ESCAPE '\\'
+      ORDER BY name
+    `);
+    const rows = stmt.all() as { name: string }[];
+    return rows
+      .map(row => row.name.slice('idx_'.length))
+      .filter(path => !BUILT_IN_METADATA_INDEXES.includes(path));
+  }
+  
   // --------------------------------------------------------------------------
   // Utilities
   // --------------------------------------------------------------------------
@@ -428,6 +638,100 @@ export class AnchorDatabase {
     return this.dataDir;
   }
   
+  /**
+   * Copy the database to a file with SQLite's online backup API. Writes
+   * can continue while it runs; the copy is consistent as of its end.
+   */
+  async backup(path: string): Promise<void> {
+    mkdirSync(dirname(path), { recursive: true });
+    await this.db.backup(path);
+  }
+  
+  /**
+   * Get the schema version of the open database.
+   */
+  getSchemaVersion(): number {
+    return getSchemaVersion(this.db);
+  }
+  
+  /**
+   * WHERE conditions and parameters for a commitment query's filters.
+   */
+  private queryConditions(query: CommitmentQuery): { conditions: string[]; params: unknown[] } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    
+    if (query.type) {
+      conditions.push('type = ?');
+      params.push(query.type);
+    }
+    
+    if (query.subject) {
+      conditions.push("json_extract(payload, '$.subject') LIKE ?");
+      params.push(`%${query.subject}%`);
+    }
+    
+    if (query.counterparty) {
+      conditions.push("json_extract(payload, '$.counterparty') = ?");
+      params.push(query.counterparty);
+    }
+    
+    if (query.since) {
+      conditions.push('timestamp >= ?');
+      params.push(query.since);
+    }
+    
+    if (query.until) {
+      conditions.push('timestamp <= ?');
+      params.push(query.until);
+    }
+    
+    if (query.revoked !== undefined) {
+      const exists = 'EXISTS (SELECT 1 FROM commitments r WHERE r.revokes = commitments.id)';
+      conditions.push(query.revoked ? exists : `NOT ${exists}`);
+    }
+    
+    if (query.latestOnly) {
+      conditions.push('NOT EXISTS (SELECT 1 FROM commitments s WHERE s.supersedes = commitments.id)');
+    }
+    
+    if (query.schema) {
+      conditions.push("json_extract(payload, '$.metadata.schema') = ?");
+      params.push(query.schema);
+    }
+    
+    for (const tag of query.tags ?? []) {
+      conditions.push('commitments.id IN (SELECT commitment_id FROM commitment_tags WHERE tag = ?)');
+      params.push(tag);
+    }
+    
+    if (query.where) {
+      const filters = typeof query.where === 'string' ? parseFilter(query.where) : query.where;
+      for (const filter of filters) {
+        checkFilter(filter);
+        const condition = filterCondition(filter);
+        conditions.push(condition.sql);
+        params.push(...condition.params);
+      }
+    }
+    
+    if (query.fulfilled !== undefined) {
+      const exists = 'EXISTS (SELECT 1 FROM commitments f WHERE f.fulfills = commitments.id)';
+      conditions.push(query.fulfilled ? exists : `NOT ${exists}`);
+    }
+    
+    if (query.overdue !== undefined) {
+      const overdue = `(due_at IS NOT NULL AND due_at < ?
+        AND NOT EXISTS (SELECT 1 FROM commitments f WHERE f.fulfills = commitments.id)
+        AND NOT EXISTS (SELECT 1 FROM commitments r WHERE r.revokes = commitments.id)
+        AND NOT EXISTS (SELECT 1 FROM commitments s WHERE s.supersedes = commitments.id))`;
+      conditions.push(query.overdue ? overdue : `NOT ${overdue}`);
+      params.push(Date.now());
+    }
+    
+    return { conditions, params };
+  }
+  
   // --------------------------------------------------------------------------
   // Row Converters
   // --------------------------------------------------------------------------
@@ -438,6 +742,9 @@ export class AnchorDatabase {
       type: row.type as Commitment['type'],
       payload: JSON.parse(row.payload),
       signature: row.signature,
+      ...(row.signers && { signers: JSON.parse(row.signers) }),
+      ...(row.group_policy && { group: JSON.parse(row.group_policy) }),
+      ...(row.salts && { salts: JSON.parse(row.salts) }),
       timestamp: row.timestamp,
       leafHash: row.leaf_hash || undefined,
       treeIndex: row.tree_index >= 0 ? row.tree_index : undefined,
@@ -453,6 +760,7 @@ export class AnchorDatabase {
       rootHash: row.root_hash,
       commitmentCount: row.commitment_count,
       previousAnchor: row.previous_anchor ?? undefined,
+      sparseRoot: row.sparse_root ?? undefined,
     };
   }
 }
@@ -470,6 +778,13 @@ interface CommitmentRow {
   leaf_hash: string;
   tree_index: number;
   created_at: number;
+  revokes: string | null;
+  supersedes: string | null;
+  signers: string | null;
+  group_policy: string | null;
+  salts: string | null;
+  due_at: number | null;
+  fulfills: string | null;
 }
 
 interface AnchorRow {
@@ -480,4 +795,76 @@ interface AnchorRow {
   root_hash: string;
   commitment_count: number;
   previous_anchor: string | null;
+  sparse_root: string | null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * SQL for the value at a metadata path. Paths are checked by
+ * checkMetadataPath(), so they are safe to inline, and inlining them lets
+ * SQLite match the expression to an index on the path.
+ */
+function jsonExtract(path: string): string {
+  return `json_extract(payload, '$.${path}')`;
+}
+
+/**
+ * Metadata paths indexed by migrations rather than createMetadataIndex().
+ */
+const BUILT_IN_METADATA_INDEXES = ['metadata.schema'];
+
+function metadataIndexName(path: string): string {
+  return `idx_${path}`;
+}
+
+/**
+ * SQL condition for one `where` filter. Comparisons only match values of
+ * the same JSON type, so `metadata.priceSats >= 100` skips a priceSats of
+ * "150"; `!=` also matches commitments without the path.
+ */
+function filterCondition(filter: MetadataFilter): { sql: string; params: unknown[] } {
+  const { path, op, value } = filter;
+  
+  if (path === 'tags') {
+    return { sql: 'commitments.id IN (SELECT commitment_id FROM commitment_tags WHERE tag = ?)', params: [value] };
+  }
+  
+  const jsonPath = `'$.${path}'`;
+  const type = `json_type(payload, ${jsonPath})`;
+  
+  if (op === 'contains') {
+    return {
+      sql: `(CASE ${type}
+        WHEN 'array' THEN EXISTS (SELECT 1 FROM json_each(commitments.payload, ${jsonPath}) e WHERE e.value = ?)
+        WHEN 'text' THEN instr(${jsonExtract(path)}, ?) > 0
+        ELSE 0 END)`,
+      params: [sqlValue(value), typeof value === 'string' ? value : null],
+    };
+  }
+  
+  let matches: string;
+  let params: unknown[] = [];
+  if (value === null) {
+    matches = `${type} = 'null'`;
+  } else if (typeof value === 'boolean') {
+    matches = `${type} = '${value}'`;
+  } else {
+    const types = typeof value === 'number' ? "('integer', 'real')" : "('text')";
+    matches = `${type} IN ${types} AND ${jsonExtract(path)} ${op === '!=' ? '=' : op} ?`;
+    params = [value];
+  }
+  
+  return op === '!=' 
+    ? { sql: `NOT COALESCE(${matches}, 0)`, params }
+    : { sql: `(${matches})`, params };
+}
+
+/**
+ * A filter value as SQLite's JSON functions return it (booleans are 1 and 0).
+ */
+function sqlValue(value: unknown): unknown {
+  return typeof value === 'boolean' ? (value ? 1 : 0) : value;
 }
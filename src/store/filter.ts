@@ -0,0 +1,176 @@
+/**
+ * bsv-anchors - Metadata Filters
+ * 
+ * A small query language for the `where` option of a commitment query:
+ * conditions on metadata paths and tags, joined with `and`.
+ * 
+ *   metadata.priceSats >= 100 and tags contains 'billing'
+ *   metadata.deliverable.format = "pdf" and metadata.paid != true
+ */
+
+import type { FilterOperator, FilterValue, MetadataFilter } from '../types.js';
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const OPERATORS: FilterOperator[] = ['=', '!=', '>', '>=', '<', '<=', 'contains'];
+
+const TOKEN = new RegExp([
+  /\s+/.source,
+  /(?<string>'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")/.source,
+  /(?<number>-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)(?![\w.])/.source,
+  /(?<operator>>=|<=|!=|=|>|<)/.source,
+  /(?<word>[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*)/.source,
+].join('|'), 'y');
+
+/**
+ * Parse a filter expression into its conditions. Each condition is
+ * `<path> <operator> <value>`, and conditions are joined with `and`.
+ * 
+ * - path: `tags`, or `metadata.` followed by dotted keys
+ * - operator: `=`, `!=`, `>`, `>=`, `<`, `<=` or `contains`
+ * - value: a quoted string, a number, `true`, `false` or `null`
+ */
+export function parseFilter(expression: string): MetadataFilter[] {
+  const tokens = tokenize(expression);
+  const filters: MetadataFilter[] = [];
+  let pos = 0;
+  
+  const next = (expected: string): Token => {
+    const token = tokens[pos++];
+    if (!token) {
+      throw new Error(`Invalid filter: expected ${expected} at end of "${expression}"`);
+    }
+    return token;
+  };
+  
+  if (tokens.length === 0) {
+    throw new Error('Invalid filter: expression is empty');
+  }
+  
+  while (pos < tokens.length) {
+    if (filters.length > 0) {
+      const and = next('and');
+      if (and.kind !== 'word' || and.text.toLowerCase() !== 'and') {
+        throw new Error(`Invalid filter: expected "and" but found "${and.text}"`);
+      }
+    }
+    
+    const path = next('a path');
+    if (path.kind !== 'word') {
+      throw new Error(`Invalid filter: expected a path but found "${path.text}"`);
+    }
+    
+    const op = next('an operator');
+    const operator = op.kind === 'word' ? op.text.toLowerCase() : op.text;
+    if ((op.kind !== 'operator' && op.kind !== 'word') || !OPERATORS.includes(operator as FilterOperator)) {
+      throw new Error(`Invalid filter: expected an operator after ${path.text} but found "${op.text}"`);
+    }
+    
+    const filter = {
+      path: path.text,
+      op: operator as FilterOperator,
+      value: parseValue(next('a value')),
+    };
+    checkFilter(filter);
+    filters.push(filter);
+  }
+  
+  return filters;
+}
+
+/**
+ * Check that a condition can be evaluated: a known path, and a value the
+ * operator can compare.
+ */
+export function checkFilter(filter: MetadataFilter): void {
+  const { path, op, value } = filter;
+  
+  if (!OPERATORS.includes(op)) {
+    throw new Error(`Invalid filter: unknown operator ${op}`);
+  }
+  
+  if (path === 'tags') {
+    if (op !== 'contains' || typeof value !== 'string') {
+      throw new Error("Invalid filter: tags only supports contains with a string, e.g. tags contains 'billing'");
+    }
+    return;
+  }
+  
+  checkMetadataPath(path);
+  
+  if (!['string', 'number', 'boolean'].includes(typeof value) && value !== null) {
+    throw new Error(`Invalid filter: ${path} must be compared with a string, number, boolean or null`);
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new Error(`Invalid filter: ${path} must be compared with a finite number`);
+  }
+  if (['>', '>=', '<', '<='].includes(op) && typeof value !== 'string' && typeof value !== 'number') {
+    throw new Error(`Invalid filter: ${op} needs a string or number`);
+  }
+  if (op === 'contains' && value === null) {
+    throw new Error('Invalid filter: contains needs a string, number or boolean');
+  }
+}
+
+/**
+ * Check that a path names a value inside the metadata, e.g.
+ * `metadata.priceSats` or `metadata.deliverable.format`.
+ */
+export function checkMetadataPath(path: string): void {
+  if (!/^metadata(\.[A-Za-z_][A-Za-z0-9_]*)+$/.test(path)) {
+    throw new Error(`Invalid filter path: ${path} (expected tags or metadata.<key>)`);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface Token {
+  kind: 'string' | 'number' | 'operator' | 'word';
+  text: string;
+}
+
+/**
+ * Split an expression into tokens, dropping whitespace.
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+  
+  while (TOKEN.lastIndex < expression.length) {
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(expression);
+    if (!match) {
+      throw new Error(`Invalid filter: unexpected "${expression.slice(start)}"`);
+    }
+    
+    const [kind, text] = Object.entries(match.groups!).find(([, text]) => text !== undefined) ?? [];
+    if (kind) {
+      tokens.push({ kind: kind as Token['kind'], text: text! });
+    }
+  }
+  
+  return tokens;
+}
+
+/**
+ * The value a token stands for.
+ */
+function parseValue(token: Token): FilterValue {
+  switch (token.kind) {
+    case 'string':
+      return token.text.slice(1, -1).replace(/\\(.)/g, '$1');
+    case 'number':
+      return Number(token.text);
+    case 'word':
+      if (token.text === 'true') return true;
+      if (token.text === 'false') return false;
+      if (token.text === 'null') return null;
+      break;
+  }
+  
+  throw new Error(`Invalid filter: expected a value but found "${token.text}" (quote strings)`);
+}
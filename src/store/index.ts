@@ -1,2 +1,16 @@
-export { AnchorStore } from './anchor-store.js';
+export { AnchorStore, type AnchorStoreOptions } from './anchor-store.js';
 export { AnchorDatabase } from './database.js';
+export { MIGRATIONS, SCHEMA_VERSION, migrate, getSchemaVersion, type Migration } from './migrations.js';
+export { AnchorScheduler, type AnchorSchedulerConfig } from './scheduler.js';
+export {
+  BackupScheduler,
+  BACKUP_DIR,
+  backupFileName,
+  listBackups,
+  findBackup,
+  pruneBackups,
+  type BackupInfo,
+  type BackupSchedulerConfig,
+} from './backup.js';
+export { parseFilter, checkFilter, checkMetadataPath } from './filter.js';
+export { AttachmentStore, hashAttachment, type StoredAttachment } from './attachments.js';
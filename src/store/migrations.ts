@@ -0,0 +1,307 @@
+/**
+ * bsv-anchors - Database Migrations
+ * 
+ * Ordered schema changes, applied when a database is opened. The version
+ * reached is recorded in the config table as `schema_version`.
+ */
+
+import type Database from 'better-sqlite3';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Migration {
+  /** Version the database is at once this migration has run */
+  version: number;
+  
+  /** What the migration changes */
+  description: string;
+  
+  /** Apply the change (runs inside the migration transaction) */
+  up: (db: Database.Database) => void;
+}
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+/**
+ * Every schema change, oldest first. Never edit or reorder a released
+ * migration; append a new one.
+ * 
+ * Versions 1-9 predate version tracking: databases from then carry some of
+ * their changes but no version, so these migrations tolerate changes that
+ * are already there.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS commitments (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        leaf_hash TEXT NOT NULL,
+        tree_index INTEGER NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_commitments_type ON commitments(type);
+      CREATE INDEX IF NOT EXISTS idx_commitments_timestamp ON commitments(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_commitments_tree_index ON commitments(tree_index);
+      
+      CREATE TABLE IF NOT EXISTS tree_nodes (
+        level INTEGER NOT NULL,
+        idx INTEGER NOT NULL,
+        hash TEXT NOT NULL,
+        PRIMARY KEY (level, idx)
+      );
+      
+      CREATE TABLE IF NOT EXISTS tree_state (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+      
+      CREATE TABLE IF NOT EXISTS anchors (
+        anchor_index INTEGER PRIMARY KEY,
+        txid TEXT NOT NULL UNIQUE,
+        block_height INTEGER,
+        timestamp INTEGER NOT NULL,
+        root_hash TEXT NOT NULL,
+        commitment_count INTEGER NOT NULL,
+        previous_anchor TEXT
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_anchors_txid ON anchors(txid);
+      CREATE INDEX IF NOT EXISTS idx_anchors_root ON anchors(root_hash);
+      
+      CREATE TABLE IF NOT EXISTS config (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `),
+  },
+  {
+    version: 2,
+    description: 'Sparse index root on anchors',
+    up: (db) => addColumnIfMissing(db, 'anchors', 'sparse_root', 'TEXT'),
+  },
+  {
+    version: 3,
+    description: 'Revocation links',
+    up: (db) => {
+      addColumnIfMissing(db, 'commitments', 'revokes', 'TEXT');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_commitments_revokes ON commitments(revokes)');
+    },
+  },
+  {
+    version: 4,
+    description: 'Supersession links',
+    up: (db) => {
+      addColumnIfMissing(db, 'commitments', 'supersedes', 'TEXT');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_commitments_supersedes ON commitments(supersedes)');
+    },
+  },
+  {
+    version: 5,
+    description: 'Co-signatures',
+    up: (db) => addColumnIfMissing(db, 'commitments', 'signers', 'TEXT'),
+  },
+  {
+    version: 6,
+    description: 'Group commitments and pending signature collection',
+    up: (db) => {
+      addColumnIfMissing(db, 'commitments', 'group_policy', 'TEXT');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS pending_commitments (
+          id TEXT PRIMARY KEY,
+          proposal TEXT NOT NULL,
+          created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: 'Salted payload fields',
+    up: (db) => addColumnIfMissing(db, 'commitments', 'salts', 'TEXT'),
+  },
+  {
+    version: 8,
+    description: 'Deadlines and fulfillment links',
+    up: (db) => {
+      addColumnIfMissing(db, 'commitments', 'due_at', 'INTEGER');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_commitments_due_at ON commitments(due_at)');
+      addColumnIfMissing(db, 'commitments', 'fulfills', 'TEXT');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_commitments_fulfills ON commitments(fulfills)');
+    },
+  },
+  {
+    version: 9,
+    description: 'Registered commitment schemas',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS schemas (
+        id TEXT PRIMARY KEY,
+        definition TEXT NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
+      );
+    `),
+  },
+  {
+    version: 10,
+    description: 'Full-text search index',
+    up: (db) => db.exec(`
+      CREATE VIRTUAL TABLE commitments_fts USING fts5(
+        subject, content, metadata, counterparty,
+        tokenize = 'porter unicode61'
+      );
+      
+      CREATE TRIGGER commitments_fts_insert AFTER INSERT ON commitments BEGIN
+        INSERT INTO commitments_fts (rowid, subject, content, metadata, counterparty)
+          VALUES (new.rowid, ${searchableFields('new')});
+      END;
+      
+      CREATE TRIGGER commitments_fts_update AFTER UPDATE OF payload ON commitments BEGIN
+        DELETE FROM commitments_fts WHERE rowid = old.rowid;
+        INSERT INTO commitments_fts (rowid, subject, content, metadata, counterparty)
+          VALUES (new.rowid, ${searchableFields('new')});
+      END;
+      
+      CREATE TRIGGER commitments_fts_delete AFTER DELETE ON commitments BEGIN
+        DELETE FROM commitments_fts WHERE rowid = old.rowid;
+      END;
+      
+      INSERT INTO commitments_fts (rowid, subject, content, metadata, counterparty)
+        SELECT rowid, ${searchableFields('commitments')} FROM commitments;
+    `),
+  },
+  {
+    version: 11,
+    description: 'Tag table and metadata indexes',
+    up: (db) => db.exec(`
+      CREATE TABLE commitment_tags (
+        tag TEXT NOT NULL,
+        commitment_id TEXT NOT NULL,
+        PRIMARY KEY (tag, commitment_id)
+      ) WITHOUT ROWID;
+      
+      CREATE INDEX idx_commitment_tags_commitment ON commitment_tags(commitment_id);
+      
+      CREATE TRIGGER commitment_tags_insert AFTER INSERT ON commitments BEGIN
+        INSERT OR IGNORE INTO commitment_tags (tag, commitment_id) ${tagsOf('new')};
+      END;
+      
+      CREATE TRIGGER commitment_tags_update AFTER UPDATE OF payload ON commitments BEGIN
+        DELETE FROM commitment_tags WHERE commitment_id = old.id;
+        INSERT OR IGNORE INTO commitment_tags (tag, commitment_id) ${tagsOf('new')};
+      END;
+      
+      CREATE TRIGGER commitment_tags_delete AFTER DELETE ON commitments BEGIN
+        DELETE FROM commitment_tags WHERE commitment_id = old.id;
+      END;
+      
+      INSERT OR IGNORE INTO commitment_tags (tag, commitment_id)
+        SELECT t.value, commitments.id FROM commitments, json_each(commitments.payload, '$.tags') t
+        WHERE json_type(commitments.payload, '$.tags') = 'array' AND t.type = 'text';
+      
+      CREATE INDEX "idx_metadata.schema" ON commitments(json_extract(payload, '$.metadata.schema'));
+    `),
+  },
+];
+
+/** Schema version this code writes */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// ============================================================================
+// Migration Runner
+// ============================================================================
+
+/**
+ * Read the schema version recorded in a database (0 for a new database or
+ * one from before version tracking).
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  const configExists = db.prepare(
+    "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'config'"
+  ).get();
+  if (!configExists) {
+    return 0;
+  }
+  
+  const row = db.prepare("SELECT value FROM config WHERE key = 'schema_version'").get() as
+    { value: string } | undefined;
+  return row ? parseInt(row.value, 10) : 0;
+}
+
+/**
+ * Bring a database up to SCHEMA_VERSION. Pending migrations run in one
+ * transaction, so a failure leaves the database as it was.
+ * 
+ * @param migrations - Migrations to apply (default: MIGRATIONS)
+ * @returns The versions applied
+ */
+export function migrate(db: Database.Database, migrations: Migration[] = MIGRATIONS): number[] {
+  const current = getSchemaVersion(db);
+  const latest = migrations[migrations.length - 1].version;
+  
+  if (current > latest) {
+    throw new Error(
+      `Database schema version ${current} is newer than this version of bsv-anchors supports (${latest}); upgrade bsv-anchors`
+    );
+  }
+  
+  const pending = migrations.filter(m => m.version > current);
+  if (pending.length === 0) {
+    return [];
+  }
+  
+  db.transaction(() => {
+    for (const migration of pending) {
+      migration.up(db);
+    }
+    db.prepare("INSERT OR REPLACE INTO config (key, value) VALUES ('schema_version', ?)")
+      .run(latest.toString());
+  })();
+  
+  return pending.map(m => m.version);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * SQL for the searchable fields of a commitments row. Encrypted content and
+ * metadata are ciphertext and an envelope, so they aren't indexed.
+ */
+function searchableFields(row: string): string {
+  const encrypted = `json_extract(${row}.payload, '$.metadata.encryption') IS NOT NULL`;
+  return [
+    `json_extract(${row}.payload, '$.subject')`,
+    `CASE WHEN ${encrypted} THEN NULL ELSE json_extract(${row}.payload, '$.content') END`,
+    `CASE WHEN ${encrypted} THEN NULL ELSE json_extract(${row}.payload, '$.metadata') END`,
+    `json_extract(${row}.payload, '$.counterparty')`,
+  ].join(', ');
+}
+
+/**
+ * SQL selecting the (tag, commitment ID) pairs of a trigger row.
+ */
+function tagsOf(row: string): string {
+  return `SELECT value, ${row}.id FROM json_each(${row}.payload, '$.tags')
+    WHERE json_type(${row}.payload, '$.tags') = 'array' AND type = 'text'`;
+}
+
+/**
+ * Add a column to an existing table if it isn't there yet.
+ */
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * bsv-anchors - Anchoring Scheduler
+ * 
+ * Triggers anchor() according to the store's persisted anchoring strategy.
+ */
+
+import type { AnchorStore } from './anchor-store.js';
+import type { Anchor, Commitment } from '../types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AnchorSchedulerConfig {
+  /** The anchor store to anchor */
+  store: AnchorStore;
+  
+  /** How often to re-check the time and count strategies, in ms (default: 1 minute) */
+  checkIntervalMs?: number;
+  
+  /** Delay before the first retry after a failed anchor, in ms (default: 1 minute) */
+  initialBackoffMs?: number;
+  
+  /** Longest delay between retries, in ms (default: 1 hour) */
+  maxBackoffMs?: number;
+  
+  /** Fee rate for anchor transactions (sat/byte) */
+  feeRate?: number;
+  
+  /** Callback when the scheduler makes an anchor (errors it throws are ignored) */
+  onAnchor?: (anchor: Anchor) => void;
+  
+  /**
+   * Callback when anchoring, or reading the store to decide whether to
+   * anchor, fails, with the time of the next attempt (errors it throws are
+   * ignored)
+   */
+  onError?: (error: Error, retryAt: number) => void;
+  
+  /** How to anchor (default: store.anchor() with the fee rate) */
+  anchor?: () => Promise<Anchor>;
+}
+
+// ============================================================================
+// Anchor Scheduler
+// ============================================================================
+
+/**
+ * Anchors automatically according to the store's anchoring strategy.
+ * 
+ * Commits are checked as they happen (for the importance and count
+ * strategies) and the store is re-checked on a timer (for the time strategy
+ * and for retries). After a failed anchor, attempts back off exponentially
+ * until one succeeds.
+ */
+export class AnchorScheduler {
+  private store: AnchorStore;
+  private config: Required<Omit<AnchorSchedulerConfig, 'feeRate'>>;
+  private timer: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private running: Promise<Anchor | null> | null = null;
+  private recheck = false;
+  private immediatePending = false;
+  private failures = 0;
+  private retryAt = 0;
+  private startedAt = Date.now();
+  
+  constructor(config: AnchorSchedulerConfig) {
+    this.store = config.store;
+    this.config = {
+      store: config.store,
+      checkIntervalMs: config.checkIntervalMs ?? 60_000,
+      initialBackoffMs: config.initialBackoffMs ?? 60_000,
+      maxBackoffMs: config.maxBackoffMs ?? 3_600_000,
+      onAnchor: config.onAnchor ?? (() => {}),
+      onError: config.onError ?? (() => {}),
+      anchor: config.anchor ?? (() => config.store.anchor({ feeRate: config.feeRate })),
+    };
+  }
+  
+  /**
+   * Start watching commits and checking on the timer.
+   */
+  start(): void {
+    if (this.timer) return;
+    
+    this.startedAt = Date.now();
+    this.unsubscribe = this.store.onCommit(commitment => this.handleCommit(commitment));
+    this.timer = setInterval(() => {
+      void this.check();
+    }, this.config.checkIntervalMs);
+    
+    // Don't keep the process alive just for anchoring
+    this.timer.unref();
+    
+    void this.recoverImmediate();
+  }
+  
+  /**
+   * Stop watching. An anchor already in flight still completes.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+  
+  /**
+   * Whether the scheduler is started.
+   */
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+  
+  /**
+   * Time of the next retry after a failure, or null if not backing off.
+   */
+  get nextRetryAt(): number | null {
+    return this.failures > 0 ? this.retryAt : null;
+  }
+  
+  /**
+   * Anchor now if the strategy says so.
+   * Concurrent calls share the check in flight and trigger one more after it.
+   * @returns The anchor made, or null
+   */
+  async check(): Promise<Anchor | null> {
+    if (this.running) {
+      this.recheck = true;
+      return this.running;
+    }
+    
+    this.running = this.evaluate();
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+      if (this.recheck) {
+        this.recheck = false;
+        void this.check();
+      }
+    }
+  }
+  
+  // --------------------------------------------------------------------------
+  // Internal Methods
+  // --------------------------------------------------------------------------
+  
+  /**
+   * Note commits of immediate types and re-check.
+   */
+  private handleCommit(commitment: Commitment): void {
+    const { anchorStrategy, immediateTypes } = this.store.getAnchorStrategy();
+    if (anchorStrategy === 'importance' && immediateTypes?.includes(commitment.type)) {
+      this.immediatePending = true;
+    }
+    
+    void this.check();
+  }
+  
+  /**
+   * Anchor if due and not backing off.
+   */
+  private async evaluate(): Promise<Anchor | null> {
+    if (Date.now() < this.retryAt) return null;
+    
+    let anchor: Anchor;
+    try {
+      if (!await this.isDue()) return null;
+      
+      anchor = await this.config.anchor();
+      this.failures = 0;
+      this.retryAt = 0;
+      this.immediatePending = false;
+    } catch (err) {
+      this.fail(err);
+      return null;
+    }
+    
+    // The anchor is made either way; a failing callback mustn't trigger a retry
+    try {
+      this.config.onAnchor(anchor);
+    } catch {
+      // Ignored
+    }
+    return anchor;
+  }
+  
+  /**
+   * Pick up a commit of an immediate type made while no scheduler was
+   * running (e.g. before a restart), which nothing has anchored yet.
+   */
+  private async recoverImmediate(): Promise<void> {
+    const { anchorStrategy, immediateTypes = [] } = this.store.getAnchorStrategy();
+    if (anchorStrategy !== 'importance') return;
+    
+    try {
+      const anchoredCount = (await this.store.getLatestAnchor())?.commitmentCount ?? 0;
+      for (const type of immediateTypes) {
+        const [latest] = await this.store.query({ type, limit: 1 });
+        if (latest?.treeIndex !== undefined && latest.treeIndex >= anchoredCount) {
+          this.immediatePending = true;
+          break;
+        }
+      }
+    } catch (err) {
+      this.fail(err);
+      return;
+    }
+    
+    if (this.immediatePending) {
+      await this.check();
+    }
+  }
+  
+  /**
+   * Back off after a failure and report it.
+   */
+  private fail(err: unknown): void {
+    this.failures++;
+    const delay = Math.min(
+      this.config.maxBackoffMs,
+      this.config.initialBackoffMs * 2 ** (this.failures - 1)
+    );
+    this.retryAt = Date.now() + delay;
+    
+    try {
+      this.config.onError(err instanceof Error ? err : new Error(String(err)), this.retryAt);
+    } catch {
+      // Ignored
+    }
+  }
+  
+  /**
+   * Whether the strategy calls for an anchor now.
+   */
+  private async isDue(): Promise<boolean> {
+    const unanchored = await this.store.getUnanchoredCount();
+    if (unanchored === 0) {
+      this.immediatePending = false;
+      return false;
+    }
+    
+    const strategy = this.store.getAnchorStrategy();
+    
+    switch (strategy.anchorStrategy) {
+      case 'time': {
+        const latest = await this.store.getLatestAnchor();
+        const since = latest?.timestamp ?? this.startedAt;
+        return Date.now() - since >= strategy.anchorIntervalHours! * 3_600_000;
+      }
+      case 'count':
+        return unanchored >= strategy.anchorThreshold!;
+      case 'importance':
+        return this.immediatePending;
+      default:
+        return false;
+    }
+  }
+}
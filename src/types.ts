@@ -8,7 +8,10 @@
 // Commitment Types
 // ============================================================================
 
-export type CommitmentType = 'agreement' | 'attestation' | 'state' | 'custom';
+/**
+ * Commitment types. `revocation` is reserved for AnchorStore.revoke().
+ */
+export type CommitmentType = 'agreement' | 'attestation' | 'state' | 'custom' | 'revocation' | 'fulfillment';
 
 /**
  * A commitment is a statement an agent wants to remember and potentially prove.
@@ -26,6 +29,18 @@ export interface Commitment {
   /** Agent's Ed25519 signature over canonical payload */
   signature: string;
   
+  /** Every party's signature, proposer first (co-signed and group commitments only) */
+  signers?: CommitmentSignature[];
+  
+  /** Participants and signing threshold (group commitments only) */
+  group?: GroupPolicy;
+  
+  /**
+   * Per-field salts (salted commitments only). The leaf then commits to a
+   * salted hash of each payload field, so fields can be disclosed one by one.
+   */
+  salts?: Record<string, string>;
+  
   /** Unix timestamp (ms) when created */
   timestamp: number;
   
@@ -34,6 +49,155 @@ export interface Commitment {
   
   /** Tree index (set after insertion) */
   treeIndex?: number;
+  
+  /** Set when the commitment has been revoked (not part of the signed form) */
+  revocation?: RevocationStatus;
+  
+  /** Set when the commitment has been fulfilled (not part of the signed form) */
+  fulfillment?: FulfillmentStatus;
+  
+  /** ID of the commitment that amends this one, if any (not part of the signed form) */
+  supersededBy?: string;
+}
+
+/**
+ * One party's signature over a co-signed commitment.
+ */
+export interface CommitmentSignature {
+  /** Signer's public key (hex, compressed secp256k1) */
+  publicKey: string;
+  
+  /** Signature over the canonical unsigned commitment */
+  signature: string;
+}
+
+/**
+ * Who may sign a group commitment, and how many must.
+ */
+export interface GroupPolicy {
+  /** Public keys of every participant (hex, compressed secp256k1) */
+  participants: string[];
+  
+  /** Number of participants whose signatures make the commitment valid */
+  threshold: number;
+}
+
+/**
+ * A commitment signed by its proposer, awaiting the other parties' signatures.
+ */
+export interface CommitmentProposal {
+  id: string;
+  type: CommitmentType;
+  payload: CommitmentPayload;
+  timestamp: number;
+  
+  /** Proposer's signature */
+  signature: string;
+  
+  /** Signatures collected so far, proposer first */
+  signers: CommitmentSignature[];
+  
+  /** Participants and signing threshold (group proposals only) */
+  group?: GroupPolicy;
+  
+  /** Per-field salts (salted proposals only) */
+  salts?: Record<string, string>;
+}
+
+/**
+ * How and when a commitment was revoked.
+ */
+export interface RevocationStatus {
+  /** ID of the revocation commitment */
+  revocationId: string;
+  
+  /** Reason given for the revocation */
+  reason: string;
+  
+  /** Unix timestamp (ms) of the revocation */
+  timestamp: number;
+}
+
+/**
+ * Metadata of a revocation commitment, identifying what it revokes.
+ */
+export interface RevocationMetadata {
+  /** ID of the revoked commitment */
+  revokes: string;
+  
+  /** Leaf hash of the revoked commitment */
+  revokedLeafHash: string;
+}
+
+/**
+ * How and when a commitment was fulfilled.
+ */
+export interface FulfillmentStatus {
+  /** ID of the fulfillment commitment */
+  fulfillmentId: string;
+  
+  /** Evidence given for the fulfillment */
+  evidence: FulfillmentEvidence;
+  
+  /** Unix timestamp (ms) of the fulfillment */
+  timestamp: number;
+  
+  /** Whether it came after the commitment's dueAt */
+  late: boolean;
+}
+
+/**
+ * Evidence that a commitment was carried out.
+ */
+export interface FulfillmentEvidence {
+  /** Transaction that settled it (e.g. a payment) */
+  txid?: string;
+  
+  /** Free-form description, e.g. a link to the merged PR */
+  note?: string;
+}
+
+/**
+ * Metadata of a fulfillment commitment, identifying what it fulfills.
+ */
+export interface FulfillmentMetadata {
+  /** ID of the fulfilled commitment */
+  fulfills: string;
+  
+  /** Leaf hash of the fulfilled commitment */
+  fulfilledLeafHash: string;
+  
+  /** Transaction given as evidence */
+  txid?: string;
+}
+
+/**
+ * Metadata of a commitment that amends an earlier one.
+ */
+export interface SupersessionMetadata {
+  /** ID of the commitment being amended */
+  supersedes: string;
+  
+  /** Leaf hash of the commitment being amended */
+  supersededLeafHash: string;
+}
+
+/**
+ * How an encrypted payload's content key is wrapped for its recipients,
+ * kept in the payload's metadata under `encryption`.
+ */
+export interface EncryptionEnvelope {
+  /** Encryption scheme identifier */
+  scheme: string;
+  
+  /** One-time public key the recipients' shared secrets are derived with */
+  ephemeralPublicKey: string;
+  
+  /** IV the content was encrypted with (hex) */
+  iv: string;
+  
+  /** The content key, wrapped once per recipient */
+  recipients: Array<{ publicKey: string; encryptedKey: string }>;
 }
 
 export interface CommitmentPayload {
@@ -48,6 +212,29 @@ export interface CommitmentPayload {
   
   /** Additional structured data */
   metadata?: Record<string, unknown>;
+  
+  /** Labels for grouping and filtering, e.g. "billing" */
+  tags?: string[];
+  
+  /** Blobs in the attachment store this commitment covers, by hash and size */
+  attachments?: AttachmentRef[];
+}
+
+/**
+ * Reference to a blob in the attachment store.
+ */
+export interface AttachmentRef {
+  /** SHA-256 of the blob (hex) */
+  hash: string;
+  
+  /** Size in bytes */
+  size: number;
+  
+  /** File name, for display */
+  name?: string;
+  
+  /** MIME type, e.g. "text/x-diff" */
+  mediaType?: string;
 }
 
 /**
@@ -56,12 +243,44 @@ export interface CommitmentPayload {
 export interface CommitmentInput {
   type: CommitmentType;
   payload: CommitmentPayload;
+  
+  /** ID of an earlier commitment by the same signer that this one amends */
+  supersedes?: string;
+  
+  /** Commit each payload field as a salted hash, for selective disclosure */
+  salted?: boolean;
+  
+  /** Deadline (Unix ms) by which it should be fulfilled, signed as metadata.dueAt */
+  dueAt?: number;
+  
+  /** ID of a registered schema the metadata must match, signed as metadata.schema */
+  schema?: string;
+  
+  /**
+   * Public keys that may read the content and metadata. When set, both are
+   * encrypted to these keys (and this store's own) and only the ciphertext
+   * is committed.
+   */
+  recipients?: string[];
 }
 
 // ============================================================================
 // Merkle Tree Types
 // ============================================================================
 
+/**
+ * Tree algorithm version, also written as the anchor payload version byte.
+ * 1 = lone nodes hashed with themselves, 2 = RFC 6962 (lone nodes promoted).
+ */
+export type TreeVersion = 1 | 2;
+
+/**
+ * How the store keeps its tree:
+ * - full: every node, so proofs need no extra reads
+ * - mmr: only the peaks of a Merkle Mountain Range (version 2 roots)
+ */
+export type TreeMode = 'full' | 'mmr';
+
 /**
  * A node in the Merkle tree.
  */
@@ -100,11 +319,17 @@ export interface MerkleProof {
   /** Index of the leaf */
   leafIndex: number;
   
+  /** Number of leaves in the tree this proof was generated against */
+  treeSize: number;
+  
   /** Sibling hashes from leaf to root */
   siblings: ProofSibling[];
   
   /** Root hash this proof validates against */
   rootHash: string;
+  
+  /** Tree algorithm version (absent = 1) */
+  version?: TreeVersion;
 }
 
 export interface ProofSibling {
@@ -115,6 +340,101 @@ export interface ProofSibling {
   position: 'left' | 'right';
 }
 
+/**
+ * Merkle proof for several leaves against one root.
+ * Shared siblings are sent once.
+ */
+export interface MerkleMultiProof {
+  /** Leaves being proven, in ascending index order */
+  leaves: Array<{ index: number; hash: string }>;
+  
+  /** Number of leaves in the tree this proof was generated against */
+  treeSize: number;
+  
+  /** Sibling hashes not derivable from the leaves, in verification order */
+  hashes: string[];
+  
+  /** Root hash this proof validates against */
+  rootHash: string;
+  
+  /** Tree algorithm version (absent = 1) */
+  version?: TreeVersion;
+}
+
+/**
+ * Proof that a tree of `toSize` leaves is an append-only extension
+ * of the tree of `fromSize` leaves.
+ */
+export interface ConsistencyProof {
+  /** Size of the older tree */
+  fromSize: number;
+  
+  /** Size of the newer tree */
+  toSize: number;
+  
+  /** Root hash of the older tree */
+  fromRoot: string;
+  
+  /** Root hash of the newer tree */
+  toRoot: string;
+  
+  /** Hashes of the complete subtrees that make up the older tree, left to right */
+  oldPeaks: string[];
+  
+  /** Hashes of the complete subtrees covering the appended leaves, left to right */
+  hashes: string[];
+  
+  /** Tree algorithm version (absent = 1) */
+  version?: TreeVersion;
+}
+
+/**
+ * Proof that `leaves` are exactly the leaves [fromIndex, toIndex) of a tree
+ * of `treeSize` leaves, with none left out.
+ */
+export interface MerkleRangeProof {
+  /** First leaf index in the range */
+  fromIndex: number;
+  
+  /** One past the last leaf index in the range */
+  toIndex: number;
+  
+  /** Number of leaves in the tree */
+  treeSize: number;
+  
+  /** Every leaf hash in the range, in order */
+  leaves: string[];
+  
+  /** Hashes of the complete subtrees outside the range, left to right */
+  hashes: string[];
+  
+  /** Root hash this proof validates against */
+  rootHash: string;
+  
+  /** Tree algorithm version (absent = 1) */
+  version?: TreeVersion;
+}
+
+/**
+ * Sparse Merkle proof that a key is present with a value, or absent.
+ */
+export interface SparseMerkleProof {
+  /** Key being proven (32-byte hex) */
+  key: string;
+  
+  /** Value stored at the key, or null to prove absence */
+  value: string | null;
+  
+  /** Non-empty sibling hashes, leaf to root */
+  siblings: string[];
+  
+  /** 256-bit bitmap (hex) marking levels whose sibling is non-empty */
+  bitmap: string;
+  
+  /** Sparse root this proof validates against */
+  rootHash: string;
+}
+
 // ============================================================================
 // Anchor Types
 // ============================================================================
@@ -143,6 +463,27 @@ export interface Anchor {
   
   /** Previous anchor txid (for chain verification) */
   previousAnchor?: string;
+  
+  /** Sparse index root anchored next to the Merkle root (if enabled) */
+  sparseRoot?: string;
+}
+
+/**
+ * Reference to an anchor, as carried inside proofs.
+ */
+export interface AnchorReference {
+  txid: string;
+  blockHeight?: number;
+  timestamp: number;
+  
+  /** Merkle root recorded in the anchor transaction */
+  rootHash: string;
+  
+  /** Number of commitments in tree at anchor time */
+  commitmentCount: number;
+  
+  /** Sparse index root recorded in the anchor transaction (if any) */
+  sparseRoot?: string;
 }
 
 /**
@@ -156,11 +497,262 @@ export interface CommitmentProof {
   merkleProof: MerkleProof;
   
   /** Anchor reference */
-  anchor: {
-    txid: string;
-    blockHeight?: number;
-    timestamp: number;
+  anchor: AnchorReference;
+  
+  /** Optional sparse non-membership proof that no revocation existed at a later anchor */
+  notRevoked?: SparseCommitmentProof;
+  
+  /** Optional bundled attachment blobs (base64), by hash */
+  attachments?: Record<string, string>;
+}
+
+/**
+ * A salted commitment with some payload fields withheld.
+ */
+export interface RedactedCommitment extends Omit<Commitment, 'payload' | 'salts' | 'revocation' | 'fulfillment'> {
+  /** Disclosed payload fields */
+  payload: Partial<CommitmentPayload>;
+  
+  /** Salts of the disclosed fields */
+  salts: Record<string, string>;
+  
+  /** Salted hashes of the withheld fields */
+  withheld: Record<string, string>;
+}
+
+/**
+ * Proof of a salted commitment that reveals only chosen payload fields.
+ */
+export interface RedactedCommitmentProof {
+  /** The commitment, with withheld fields replaced by their hashes */
+  commitment: RedactedCommitment;
+  
+  /** Merkle inclusion proof */
+  merkleProof: MerkleProof;
+  
+  /** Anchor reference */
+  anchor: AnchorReference;
+}
+
+/**
+ * Proof of several commitments against one anchor.
+ */
+export interface CommitmentBatchProof {
+  /** The commitments being proven, in tree order */
+  commitments: Commitment[];
+  
+  /** Merkle multiproof covering every commitment */
+  multiProof: MerkleMultiProof;
+  
+  /** Anchor reference */
+  anchor: AnchorReference;
+}
+
+/**
+ * Proof that a list of commitments is the complete, contiguous range of
+ * commitments between two tree indices at one anchor.
+ */
+export interface CommitmentRangeProof {
+  /** Every commitment in the range, in tree order */
+  commitments: Commitment[];
+  
+  /** Merkle range proof over the commitments' leaves */
+  rangeProof: MerkleRangeProof;
+  
+  /** Anchor reference */
+  anchor: AnchorReference;
+}
+
+/**
+ * One version in an amendment chain.
+ */
+export interface LineageEntry {
+  /** The commitment at this version */
+  commitment: Commitment;
+  
+  /** Proof of this version, or null if it is not anchored yet */
+  proof: CommitmentProof | null;
+}
+
+/**
+ * Sparse index proof against an anchor, e.g. that no agreement with a
+ * counterparty about a subject had been committed at that anchor.
+ */
+export interface SparseCommitmentProof {
+  /** Membership or non-membership proof */
+  sparseProof: SparseMerkleProof;
+  
+  /** Anchor whose sparse root the proof validates against */
+  anchor: AnchorReference;
+}
+
+/**
+ * Proof that one anchor's tree is an append-only extension of an earlier one.
+ */
+export interface AnchorConsistencyProof {
+  /** The earlier anchor */
+  fromAnchor: AnchorReference;
+  
+  /** The later anchor */
+  toAnchor: AnchorReference;
+  
+  /** Consistency proof between the two anchored trees */
+  consistencyProof: ConsistencyProof;
+}
+
+// ============================================================================
+// Audit Types
+// ============================================================================
+
+/**
+ * What an audit found out of place:
+ * - leaf_hash: stored leaf hash differs from the recomputed one
+ * - tree_index: tree indices have a gap, duplicate or missing entry
+ * - anchor_root: an anchor's root differs from the rebuilt tree at its size
+ * - tree_nodes: persisted tree nodes differ from the rebuilt tree
+ * - tree_state: recorded root or leaf count differs from the rebuilt tree
+ */
+export type AuditIssueKind = 'leaf_hash' | 'tree_index' | 'anchor_root' | 'tree_nodes' | 'tree_state';
+
+export interface AuditIssue {
+  /** Kind of mismatch */
+  kind: AuditIssueKind;
+  
+  /** Human-readable description */
+  message: string;
+  
+  /** Whether `audit({ repair: true })` can fix it from the commitments */
+  repairable: boolean;
+  
+  /** Affected commitment, if any */
+  commitmentId?: string;
+  
+  /** Affected anchor, if any */
+  anchorIndex?: number;
+}
+
+export interface AuditReport {
+  /** Commitments checked */
+  commitmentCount: number;
+  
+  /** Anchors checked */
+  anchorCount: number;
+  
+  /** Every mismatch found (before any repair) */
+  issues: AuditIssue[];
+  
+  /** Whether derived tables were rewritten */
+  repaired: boolean;
+}
+
+// ============================================================================
+// Schema Types
+// ============================================================================
+
+/**
+ * A named, versioned shape for a commitment's metadata, e.g.
+ * `agreement/service-v1`. Registered schemas never change; a new shape
+ * gets a new ID.
+ */
+export interface CommitmentSchema {
+  /** Unique ID, `<type>/<name>-v<version>` by convention */
+  id: string;
+  
+  /** Commitment type the schema applies to */
+  type: CommitmentType;
+  
+  /** What commitments of this schema are for */
+  description: string;
+  
+  /** Metadata fields, by name. Fields not listed are rejected. */
+  fields: Record<string, SchemaField>;
+}
+
+/**
+ * Kind of value a schema field holds. A timestamp is Unix ms.
+ */
+export type SchemaFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'timestamp';
+
+export interface SchemaField {
+  type: SchemaFieldType;
+  
+  /** Human-readable name, used when rendering */
+  label: string;
+  
+  /** Whether the field must be present (default: false) */
+  required?: boolean;
+  
+  /** Allowed values (string fields) */
+  enum?: string[];
+  
+  /** Smallest allowed value (number and integer fields) */
+  min?: number;
+  
+  /** Largest allowed value (number and integer fields) */
+  max?: number;
+}
+
+// ============================================================================
+// Bundle Types
+// ============================================================================
+
+/**
+ * A portable copy of a whole store, for moving it to another host.
+ * Signed by the exporting store's key over everything but the signature.
+ */
+export interface StoreBundle {
+  /** Bundle format version */
+  version: number;
+  
+  /** Unix timestamp (ms) when the bundle was exported */
+  exportedAt: number;
+  
+  /** Public key of the exporting store (signs the bundle) */
+  publicKey: string;
+  
+  /** Tree settings and the root the commitments rebuild to */
+  tree: {
+    version: TreeVersion;
+    mode: TreeMode;
+    sparseIndex: boolean;
+    leafCount: number;
+    rootHash: string | null;
   };
+  
+  /** Every commitment, in tree order */
+  commitments: Commitment[];
+  
+  /** Every anchor, in order */
+  anchors: Anchor[];
+  
+  /** Registered schemas (built-in ones aren't included) */
+  schemas: CommitmentSchema[];
+  
+  /** Referenced attachment blobs (base64), by hash */
+  attachments?: Record<string, string>;
+  
+  /** The store's private key, encrypted with a passphrase */
+  key?: PassphraseEnvelope;
+  
+  /** Signature over the rest of the bundle (hex) */
+  signature: string;
+}
+
+/**
+ * Data encrypted with a key derived from a passphrase.
+ */
+export interface PassphraseEnvelope {
+  /** Encryption scheme identifier */
+  scheme: string;
+  
+  /** Key derivation salt (hex) */
+  salt: string;
+  
+  /** IV the data was encrypted with (hex) */
+  iv: string;
+  
+  /** Encrypted data with its authentication tag (base64) */
+  ciphertext: string;
 }
 
 // ============================================================================
@@ -183,6 +775,33 @@ export interface CommitmentQuery {
   /** Filter by timestamp (before) */
   until?: number;
   
+  /** Filter by revocation status (true = only revoked, false = only not revoked) */
+  revoked?: boolean;
+  
+  /** Only the latest version of each amendment chain */
+  latestOnly?: boolean;
+  
+  /** Filter by schema ID */
+  schema?: string;
+  
+  /** Only commitments carrying every one of these tags */
+  tags?: string[];
+  
+  /**
+   * Conditions on metadata paths and tags, all of which must hold, e.g.
+   * `metadata.priceSats >= 100 and tags contains 'billing'`
+   */
+  where?: string | MetadataFilter[];
+  
+  /** Filter by fulfillment status (true = only fulfilled, false = only not fulfilled) */
+  fulfilled?: boolean;
+  
+  /**
+   * Filter by deadline status (true = only breached: past dueAt and not
+   * fulfilled, revoked or superseded; false = only not breached)
+   */
+  overdue?: boolean;
+  
   /** Maximum results */
   limit?: number;
   
@@ -190,16 +809,56 @@ export interface CommitmentQuery {
   offset?: number;
 }
 
+export interface SearchResult {
+  /** The matching commitment */
+  commitment: Commitment;
+  
+  /** Relevance (higher is a better match) */
+  score: number;
+  
+  /** Matching text with the matched words in [brackets] */
+  snippet: string;
+}
+
+/**
+ * Comparison in a metadata filter. `contains` matches an element of an
+ * array, or a substring of a string.
+ */
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'contains';
+
+export type FilterValue = string | number | boolean | null;
+
+/**
+ * One condition of a `where` filter.
+ */
+export interface MetadataFilter {
+  /** `tags`, or a dotted path into the metadata such as `metadata.priceSats` */
+  path: string;
+  
+  op: FilterOperator;
+  
+  value: FilterValue;
+}
+
 // ============================================================================
 // Configuration
 // ============================================================================
 
+/**
+ * When the anchoring scheduler anchors:
+ * - manual: never (call anchor() yourself)
+ * - time: once `anchorIntervalHours` have passed since the last anchor
+ * - count: once `anchorThreshold` commitments are unanchored
+ * - importance: right after a commitment of one of `immediateTypes`
+ */
+export type AnchorStrategy = 'manual' | 'time' | 'count' | 'importance';
+
 export interface AnchorConfig {
   /** Path to data directory */
   dataDir: string;
   
   /** Anchoring strategy */
-  anchorStrategy: 'manual' | 'time' | 'count' | 'importance';
+  anchorStrategy: AnchorStrategy;
   
   /** For time strategy: hours between anchors */
   anchorIntervalHours?: number;
@@ -209,8 +868,25 @@ export interface AnchorConfig {
   
   /** For importance strategy: types to anchor immediately */
   immediateTypes?: CommitmentType[];
+  
+  /** Tree algorithm version (fixed when the store is created) */
+  treeVersion?: TreeVersion;
+  
+  /** Tree storage mode (fixed when the store is created) */
+  treeMode?: TreeMode;
+  
+  /** Anchor a sparse index root for non-membership proofs */
+  sparseIndex?: boolean;
 }
 
+/**
+ * The persisted anchoring strategy settings.
+ */
+export type AnchorStrategySettings = Pick<
+  AnchorConfig,
+  'anchorStrategy' | 'anchorIntervalHours' | 'anchorThreshold' | 'immediateTypes'
+>;
+
 export const DEFAULT_CONFIG: AnchorConfig = {
   dataDir: '~/.bsv-anchors',
   anchorStrategy: 'manual',
@@ -287,12 +287,14 @@ export function parseAnchorPayload(payload: Uint8Array): {
   rootHash?: string;
   commitmentCount?: number;
   previousAnchor?: string;
+  sparseRoot?: string;
   error?: string;
 } {
   try {
     // Protocol: "BSV-ANCHOR" (10) + version (1) + root (32) + count (4) + prev (32) = 79 bytes
-    if (payload.length !== 79) {
-      return { valid: false, error: `Invalid payload length: ${payload.length} (expected 79)` };
+    // Optionally followed by a sparse index root (32) = 111 bytes
+    if (payload.length !== 79 && payload.length !== 111) {
+      return { valid: false, error: `Invalid payload length: ${payload.length} (expected 79 or 111)` };
     }
     
     const protocol = new TextDecoder().decode(payload.slice(0, 10));
@@ -300,8 +302,9 @@ export function parseAnchorPayload(payload: Uint8Array): {
       return { valid: false, error: 'Invalid protocol identifier' };
     }
     
+    // Version byte doubles as the tree algorithm version (1 or 2)
     const version = payload[10];
-    if (version !== 0x01) {
+    if (version !== 0x01 && version !== 0x02) {
       return { valid: false, error: `Unsupported version: ${version}` };
     }
     
@@ -311,6 +314,9 @@ export function parseAnchorPayload(payload: Uint8Array): {
     const previousAnchor = prevBytes.every(b => b === 0) 
       ? undefined 
       : Buffer.from(prevBytes).toString('hex');
+    const sparseRoot = payload.length === 111
+      ? Buffer.from(payload.slice(79, 111)).toString('hex')
+      : undefined;
     
     return {
       valid: true,
@@ -318,6 +324,7 @@ export function parseAnchorPayload(payload: Uint8Array): {
       rootHash,
       commitmentCount,
       previousAnchor,
+      sparseRoot,
     };
   } catch (error) {
     return { 
@@ -0,0 +1,88 @@
+/**
+ * Encryption Tests - ECIES over secp256k1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateKeyPair } from '../../src/crypto/signing.js';
+import {
+  encryptForRecipients,
+  decryptWithKey,
+  encryptWithPassphrase,
+  decryptWithPassphrase,
+} from '../../src/crypto/encryption.js';
+
+describe('ECIES Encryption', () => {
+  it('should decrypt for every recipient', () => {
+    const alice = generateKeyPair();
+    const bob = generateKeyPair();
+    
+    const { ciphertext, envelope } = encryptForRecipients('secret terms', [alice.publicKey, bob.publicKey]);
+    
+    expect(ciphertext).not.toContain('secret');
+    expect(envelope.recipients).toHaveLength(2);
+    expect(decryptWithKey(ciphertext, envelope, alice.privateKey)).toBe('secret terms');
+    expect(decryptWithKey(ciphertext, envelope, bob.privateKey)).toBe('secret terms');
+  });
+  
+  it('should use a fresh key for each encryption', () => {
+    const alice = generateKeyPair();
+    
+    const first = encryptForRecipients('same', [alice.publicKey]);
+    const second = encryptForRecipients('same', [alice.publicKey]);
+    
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+    expect(first.envelope.ephemeralPublicKey).not.toBe(second.envelope.ephemeralPublicKey);
+  });
+  
+  it('should reject keys that are not recipients', () => {
+    const alice = generateKeyPair();
+    const { ciphertext, envelope } = encryptForRecipients('secret', [alice.publicKey]);
+    
+    expect(() => decryptWithKey(ciphertext, envelope, generateKeyPair().privateKey)).toThrow('not a recipient');
+  });
+  
+  it('should detect tampering', () => {
+    const alice = generateKeyPair();
+    const bob = generateKeyPair();
+    const { ciphertext, envelope } = encryptForRecipients('secret', [alice.publicKey]);
+    
+    const bytes = Buffer.from(ciphertext, 'base64');
+    bytes[0] ^= 1;
+    expect(() => decryptWithKey(bytes.toString('base64'), envelope, alice.privateKey)).toThrow('tampered');
+    
+    // Swapping in another recipient's key without re-wrapping
+    const swapped = {
+      ...envelope,
+      recipients: [{ ...envelope.recipients[0], publicKey: bob.publicKey }],
+    };
+    expect(() => decryptWithKey(ciphertext, swapped, bob.privateKey)).toThrow('tampered');
+  });
+  
+  it('should require at least one recipient', () => {
+    expect(() => encryptForRecipients('secret', [])).toThrow('At least one recipient');
+  });
+});
+
+describe('Passphrase Encryption', () => {
+  it('should round-trip with the right passphrase', () => {
+    const envelope = encryptWithPassphrase('secret', 'correct horse');
+    
+    expect(envelope.ciphertext).not.toContain('secret');
+    expect(decryptWithPassphrase(envelope, 'correct horse')).toBe('secret');
+  });
+  
+  it('should reject a wrong passphrase or tampered data', () => {
+    const envelope = encryptWithPassphrase('secret', 'correct horse');
+    
+    expect(() => decryptWithPassphrase(envelope, 'wrong')).toThrow('wrong passphrase');
+    
+    const bytes = Buffer.from(envelope.ciphertext, 'base64');
+    bytes[0] ^= 1;
+    expect(() => decryptWithPassphrase({ ...envelope, ciphertext: bytes.toString('base64') }, 'correct horse'))
+      .toThrow('tampered');
+  });
+  
+  it('should require a passphrase', () => {
+    expect(() => encryptWithPassphrase('secret', '')).toThrow('must not be empty');
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Binary Proof Encoding Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AnchorStore } from '../../src/store/anchor-store.js';
+import { MerkleTree } from '../../src/merkle/tree.js';
+import {
+  encodeMerkleProof,
+  decodeMerkleProof,
+  encodeCommitmentProof,
+  decodeCommitmentProof,
+  encodeCommitmentProofString,
+  decodeCommitmentProofString,
+} from '../../src/encoding/binary.js';
+
+describe('Merkle proof encoding', () => {
+  it('should round-trip proofs of every leaf', () => {
+    for (const version of [1, 2] as const) {
+      const tree = new MerkleTree(version);
+      for (let i = 0; i < 13; i++) {
+        tree.addLeaf(`leaf ${i}`);
+      }
+      
+      for (let i = 0; i < 13; i++) {
+        const proof = tree.generateProof(i)!;
+        const decoded = decodeMerkleProof(encodeMerkleProof(proof));
+        
+        expect(decoded).toEqual(proof);
+        expect(MerkleTree.verifyProof(decoded)).toBe(true);
+      }
+    }
+  });
+  
+  it('should be smaller than JSON', () => {
+    const tree = new MerkleTree();
+    for (let i = 0; i < 100; i++) {
+      tree.addLeaf(`leaf ${i}`);
+    }
+    
+    const proof = tree.generateProof(42)!;
+    const encoded = encodeMerkleProof(proof);
+    
+    // 2 header + 1 version + 2 varints + 2 hashes + count + bitfield + 7 siblings
+    expect(encoded.length).toBe(2 + 1 + 1 + 1 + 64 + 1 + 1 + 7 * 32);
+    expect(encoded.length).toBeLessThan(JSON.stringify(proof).length / 2);
+  });
+  
+  it('should reject wrong kind, version or truncated data', () => {
+    const tree = new MerkleTree();
+    tree.addLeaf('a');
+    tree.addLeaf('b');
+    const encoded = encodeMerkleProof(tree.generateProof(0)!);
+    
+    expect(() => decodeCommitmentProof(encoded)).toThrow('Unexpected proof kind');
+    
+    const badFormat = encoded.slice();
+    badFormat[1] = 0x7f;
+    expect(() => decodeMerkleProof(badFormat)).toThrow('Unsupported proof format');
+    
+    expect(() => decodeMerkleProof(encoded.slice(0, encoded.length - 1))).toThrow('Unexpected end');
+    expect(() => decodeMerkleProof(new Uint8Array([...encoded, 0]))).toThrow('Trailing bytes');
+  });
+});
+
+describe('Commitment proof encoding', () => {
+  let store: AnchorStore;
+  let tempDir: string;
+  
+  beforeEach(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'bsv-anchors-encoding-test-'));
+    store = await AnchorStore.open(tempDir);
+  });
+  
+  afterEach(() => {
+    store.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+  
+  it('should round-trip a store proof', async () => {
+    const commitment = await store.commit({
+      type: 'agreement',
+      payload: {
+        subject: 'code-review',
+        content: 'Review PR #42 for 100 sats',
+        counterparty: 'peer_A',
+        metadata: { priceSats: 100, tags: ['review', 'ürgent'] },
+      },
+    });
+    await store.commit({
+      type: 'state',
+      payload: { subject: 'other', content: 'Other' },
+    });
+    await store.recordAnchor('a'.repeat(64));
+    
+    const proof = (await store.prove(commitment.id))!;
+    proof.anchor.blockHeight = 850000;
+    
+    const decoded = decodeCommitmentProof(encodeCommitmentProof(proof));
+    
+    expect(decoded).toEqual(proof);
+    expect(await AnchorStore.verify(decoded, store.getPublicKey())).toBe(true);
+  });
+  
+  it('should round-trip through the string form', async () => {
+    const commitment = await store.commit({
+      type: 'attestation',
+      payload: { subject: 'identity', content: 'I am peer X' },
+    });
+    await store.recordAnchor('fake_txid_1');
+    
+    const proof = (await store.prove(commitment.id))!;
+    const encoded = encodeCommitmentProofString(proof);
+    
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCommitmentProofString(encoded)).toEqual(proof);
+    expect(() => decodeCommitmentProofString('not a proof!')).toThrow('base64url');
+  });
+  
+  it('should round-trip the signers of a co-signed commitment', async () => {
+    const otherDir = mkdtempSync(join(tmpdir(), 'bsv-anchors-encoding-test-'));
+    const other = await AnchorStore.open(otherDir);
+    
+    const proposal = await other.propose({
+      type: 'agreement',
+      payload: { subject: 'code-review', content: 'Review' },
+    });
+    const commitment = await store.cosign(proposal);
+    await store.recordAnchor('txid_1');
+    other.close();
+    rmSync(otherDir, { recursive: true, force: true });
+    
+    const proof = (await store.prove(commitment.id))!;
+    const decoded = decodeCommitmentProof(encodeCommitmentProof(proof));
+    
+    expect(decoded).toEqual(proof);
+    expect(await AnchorStore.verify(decoded, store.getPublicKey())).toBe(true);
+  });
+  
+  it('should round-trip the policy of a group commitment', async () => {
+    const otherDir = mkdtempSync(join(tmpdir(), 'bsv-anchors-encoding-test-'));
+    const other = await AnchorStore.open(otherDir);
+    
+    const proposal = await store.proposeGroup(
+      { type: 'agreement', payload: { subject: 'release-plan', content: 'Ship' } },
+      { participants: [store.getPublicKey(), other.getPublicKey(), 'ab'.repeat(33)], threshold: 2 }
+    );
+    const commitment = await store.addSignature(proposal.id, other.signProposal(proposal));
+    await store.recordAnchor('txid_1');
+    other.close();
+    rmSync(otherDir, { recursive: true, force: true });
+    
+    const proof = (await store.prove(commitment!.id))!;
+    const decoded = decodeCommitmentProof(encodeCommitmentProof(proof));
+    
+    expect(decoded).toEqual(proof);
+    expect(await AnchorStore.verify(decoded, store.getPublicKey())).toBe(true);
+  });
+  
+  it('should round-trip the salts of a salted commitment', async () => {
+    const commitment = await store.commit({
+      type: 'agreement',
+      payload: { subject: 'code-review', content: 'Review', counterparty: 'peer_A' },
+      salted: true,
+    });
+    await store.recordAnchor('txid_1');
+    
+    const proof = (await store.prove(commitment.id))!;
+    const decoded = decodeCommitmentProof(encodeCommitmentProof(proof));
+    
+    expect(decoded).toEqual(proof);
+    expect(await AnchorStore.verify(decoded, store.getPublicKey())).toBe(true);
+  });
+  
+  it('should round-trip a non-revocation proof and sparse roots', async () => {
+    store.close();
+    store = await AnchorStore.open(tempDir, { sparseIndex: true });
+    const commitment = await store.commit({
+      type: 'agreement',
+      payload: { subject: 'code-review', content: 'Review', counterparty: 'peer_A' },
+    });
+    await store.commit({
+      type: 'state',
+      payload: { subject: 'other', content: 'Other' },
+    });
+    await store.recordAnchor('txid_1');
+    
+    const proof = (await store.prove(commitment.id, { notRevoked: true }))!;
+    expect(proof.anchor.sparseRoot).toBeDefined();
+    
+    const decoded = decodeCommitmentProofString(encodeCommitmentProofString(proof));
+    
+    expect(decoded).toEqual(proof);
+    expect(decoded.notRevoked!.sparseProof.value).toBeNull();
+    expect(await AnchorStore.verify(decoded, store.getPublicKey())).toBe(true);
+  });
+  
+  it('should preserve a mismatched anchor root so verification still fails', async () => {
+    const commitment = await store.commit({
+      type: 'agreement',
+      payload: { subject: 'test', content: 'Test' },
+    });
+    await store.recordAnchor('txid_1');
+    
+    const proof = (await store.prove(commitment.id))!;
+    proof.anchor.rootHash = 'b'.repeat(64);
+    
+    const decoded = decodeCommitmentProof(encodeCommitmentProof(proof));
+    
+    expect(decoded.anchor.rootHash).toBe('b'.repeat(64));
+    expect(await AnchorStore.verifyInclusion(decoded)).toBe(false);
+  });
+});
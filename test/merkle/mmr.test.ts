@@ -0,0 +1,125 @@
+/**
+ * Merkle Mountain Range Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MerkleMountainRange } from '../../src/merkle/mmr.js';
+import { MerkleTree, hashLeaf } from '../../src/merkle/tree.js';
+
+describe('MerkleMountainRange', () => {
+  let leaves: string[];
+  let mmr: MerkleMountainRange;
+  let reference: MerkleTree;
+  
+  beforeEach(() => {
+    leaves = [];
+    mmr = new MerkleMountainRange((start, end) => leaves.slice(start, end));
+    reference = new MerkleTree(2);
+  });
+  
+  const append = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      const { hash } = mmr.addLeaf(`leaf ${leaves.length}`);
+      leaves.push(hash);
+      reference.addLeaf(`leaf ${leaves.length - 1}`);
+    }
+  };
+  
+  describe('peaks', () => {
+    it('should keep one peak per set bit of the leaf count', () => {
+      append(11); // 0b1011
+      
+      const peaks = mmr.getAllNodes();
+      expect(peaks.map(p => p.level)).toEqual([3, 1, 0]);
+      expect(mmr.leafCount).toBe(11);
+    });
+    
+    it('should report merged peaks as removed', () => {
+      append(3);
+      
+      const { changedNodes, removedNodes } = mmr.addLeaf('leaf 3');
+      
+      expect(changedNodes).toEqual([expect.objectContaining({ level: 2, index: 0 })]);
+      expect(removedNodes.map(n => n.level)).toEqual([0, 1]);
+    });
+    
+    it('should restore from peaks alone', () => {
+      append(13);
+      
+      const restored = MerkleMountainRange.fromNodes(mmr.getAllNodes(), (s, e) => leaves.slice(s, e));
+      
+      expect(restored.leafCount).toBe(13);
+      expect(restored.getRoot()).toBe(mmr.getRoot());
+    });
+  });
+  
+  describe('roots', () => {
+    it('should match a version 2 tree at every size', () => {
+      append(17);
+      
+      for (let size = 1; size <= 17; size++) {
+        expect(mmr.getRoot(size)).toBe(reference.getRoot(size));
+      }
+    });
+    
+    it('should return null for empty or future sizes', () => {
+      expect(mmr.getRoot()).toBeNull();
+      append(2);
+      expect(mmr.getRoot(3)).toBeNull();
+    });
+  });
+  
+  describe('proofs', () => {
+    it('should match version 2 tree proofs for historical sizes', () => {
+      append(12);
+      
+      for (const size of [1, 5, 7, 8, 12]) {
+        for (let i = 0; i < size; i++) {
+          const proof = mmr.generateProof(i, size)!;
+          expect(proof).toEqual(reference.generateProof(i, size));
+          expect(MerkleTree.verifyProof(proof)).toBe(true);
+        }
+      }
+    });
+    
+    it('should only read leaves under the proven peak', () => {
+      const reads: Array<[number, number]> = [];
+      const tracked = new MerkleMountainRange((start, end) => {
+        reads.push([start, end]);
+        return leaves.slice(start, end);
+      });
+      for (let i = 0; i < 14; i++) {
+        leaves.push(tracked.addLeaf(`leaf ${i}`).hash);
+      }
+      
+      tracked.generateProof(9);
+      
+      expect(reads).toEqual([[8, 12]]);
+    });
+    
+    it('should produce multiproofs, consistency and range proofs', () => {
+      append(10);
+      
+      const multi = mmr.generateMultiProof([1, 6, 8], 9)!;
+      expect(MerkleTree.verifyMultiProof(multi)).toBe(true);
+      
+      const consistency = mmr.generateConsistencyProof(3, 10)!;
+      expect(MerkleTree.verifyConsistencyProof(consistency)).toBe(true);
+      
+      const range = mmr.generateRangeProof(2, 7, 9)!;
+      expect(MerkleTree.verifyRangeProof(range)).toBe(true);
+    });
+    
+    it('should reject invalid indices', () => {
+      append(4);
+      
+      expect(mmr.generateProof(-1)).toBeNull();
+      expect(mmr.generateProof(4)).toBeNull();
+      expect(mmr.generateProof(2, 2)).toBeNull();
+    });
+  });
+  
+  it('should hash leaves like MerkleTree', () => {
+    expect(mmr.addLeaf('x').hash).toBe(hashLeaf('x'));
+  });
+});
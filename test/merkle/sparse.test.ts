@@ -0,0 +1,116 @@
+/**
+ * Sparse Merkle Tree Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  SparseMerkleTree,
+  sparseKeyForCommitment,
+  sparseKeyForAgreement,
+} from '../../src/merkle/sparse.js';
+import { hashLeaf } from '../../src/merkle/tree.js';
+
+describe('SparseMerkleTree', () => {
+  let tree: SparseMerkleTree;
+  
+  beforeEach(() => {
+    tree = new SparseMerkleTree();
+  });
+  
+  describe('keys', () => {
+    it('should derive distinct 32-byte keys', () => {
+      const a = sparseKeyForAgreement('peer_A', 'code-review');
+      const b = sparseKeyForAgreement('peer_A', 'code-reviews');
+      const c = sparseKeyForCommitment('commit_123');
+      
+      expect(a).toMatch(/^[0-9a-f]{64}$/);
+      expect(a).not.toBe(b);
+      expect(a).not.toBe(c);
+    });
+    
+    it('should not let field boundaries collide', () => {
+      expect(sparseKeyForAgreement('a:b', 'c')).not.toBe(sparseKeyForAgreement('a', 'b:c'));
+    });
+  });
+  
+  describe('root', () => {
+    it('should be independent of insertion order', () => {
+      const other = new SparseMerkleTree();
+      const entries = [1, 2, 3, 4].map(i => ({
+        key: sparseKeyForCommitment(`commit_${i}`),
+        value: hashLeaf(`value ${i}`),
+      }));
+      
+      for (const e of entries) tree.set(e.key, e.value);
+      for (const e of [...entries].reverse()) other.set(e.key, e.value);
+      
+      expect(tree.getRoot()).toBe(other.getRoot());
+      expect(SparseMerkleTree.fromEntries(tree.getEntries()).getRoot()).toBe(tree.getRoot());
+    });
+    
+    it('should change when a value changes', () => {
+      const key = sparseKeyForCommitment('commit_1');
+      const empty = tree.getRoot();
+      
+      tree.set(key, hashLeaf('a'));
+      const first = tree.getRoot();
+      tree.set(key, hashLeaf('b'));
+      
+      expect(first).not.toBe(empty);
+      expect(tree.getRoot()).not.toBe(first);
+      expect(tree.size).toBe(1);
+    });
+    
+    it('should reject malformed keys', () => {
+      expect(() => tree.set('xyz', hashLeaf('a'))).toThrow('Invalid sparse key');
+    });
+  });
+  
+  describe('proofs', () => {
+    beforeEach(() => {
+      for (let i = 0; i < 10; i++) {
+        tree.set(sparseKeyForCommitment(`commit_${i}`), hashLeaf(`value ${i}`));
+      }
+    });
+    
+    it('should prove membership', () => {
+      const key = sparseKeyForCommitment('commit_3');
+      const proof = tree.generateProof(key);
+      
+      expect(proof.value).toBe(hashLeaf('value 3'));
+      expect(SparseMerkleTree.verifyProof(proof)).toBe(true);
+    });
+    
+    it('should prove non-membership', () => {
+      const key = sparseKeyForCommitment('commit_missing');
+      const proof = tree.generateProof(key);
+      
+      expect(proof.value).toBeNull();
+      expect(SparseMerkleTree.verifyProof(proof)).toBe(true);
+    });
+    
+    it('should prove non-membership in an empty tree', () => {
+      const empty = new SparseMerkleTree();
+      const proof = empty.generateProof(sparseKeyForCommitment('anything'));
+      
+      expect(proof.siblings).toHaveLength(0);
+      expect(SparseMerkleTree.verifyProof(proof)).toBe(true);
+    });
+    
+    it('should reject a false non-membership claim', () => {
+      const key = sparseKeyForCommitment('commit_3');
+      const proof = tree.generateProof(key);
+      proof.value = null;
+      
+      expect(SparseMerkleTree.verifyProof(proof)).toBe(false);
+    });
+    
+    it('should reject a wrong value or tampered siblings', () => {
+      const proof = tree.generateProof(sparseKeyForCommitment('commit_5'));
+      
+      expect(SparseMerkleTree.verifyProof({ ...proof, value: hashLeaf('other') })).toBe(false);
+      expect(SparseMerkleTree.verifyProof({ ...proof, siblings: proof.siblings.slice(1) })).toBe(false);
+      expect(SparseMerkleTree.verifyProof({ ...proof, rootHash: hashLeaf('root') })).toBe(false);
+    });
+  });
+});
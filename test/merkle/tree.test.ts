@@ -189,6 +189,233 @@ describe('MerkleTree', () => {
     });
   });
   
+  describe('historical proofs', () => {
+    it('should compute past roots', () => {
+      const roots: string[] = [];
+      for (let i = 0; i < 9; i++) {
+        tree.addLeaf(`leaf ${i}`);
+        roots.push(tree.getRoot()!);
+      }
+      
+      for (let size = 1; size <= 9; size++) {
+        expect(tree.getRoot(size)).toBe(roots[size - 1]);
+      }
+    });
+    
+    it('should prove leaves against a past tree size', () => {
+      for (let i = 0; i < 5; i++) {
+        tree.addLeaf(`leaf ${i}`);
+      }
+      const anchoredRoot = tree.getRoot();
+      
+      for (let i = 5; i < 12; i++) {
+        tree.addLeaf(`leaf ${i}`);
+      }
+      
+      for (let i = 0; i < 5; i++) {
+        const proof = tree.generateProof(i, 5);
+        expect(proof).not.toBeNull();
+        expect(proof!.rootHash).toBe(anchoredRoot);
+        expect(proof!.treeSize).toBe(5);
+        expect(MerkleTree.verifyProof(proof!)).toBe(true);
+      }
+    });
+    
+    it('should return null for leaves outside the past tree', () => {
+      for (let i = 0; i < 6; i++) {
+        tree.addLeaf(`leaf ${i}`);
+      }
+      
+      expect(tree.generateProof(4, 4)).toBeNull();
+      expect(tree.generateProof(0, 7)).toBeNull();
+      expect(tree.generateProof(0, 0)).toBeNull();
+    });
+  });
+  
+  describe('consistency proofs', () => {
+    it('should verify between every pair of sizes', () => {
+      for (let i = 0; i < 13; i++) {
+        tree.addLeaf(`leaf ${i}`);
+      }
+      
+      for (let from = 1; from <= 13; from++) {
+        for (let to = from; to <= 13; to++) {
+          const proof = tree.generateConsistencyProof(from, to);
+          expect(proof).not.toBeNull();
+          expect(proof!.fromRoot).toBe(tree.getRoot(from));
+          expect(proof!.toRoot).toBe(tree.getRoot(to));
+          expect(MerkleTree.verifyConsistencyProof(proof!)).toBe(true);
+        }
+      }
+    });
+    
+    it('should return null for invalid sizes', () => {
+      tree.addLeaf('leaf 1');
+      tree.addLeaf('leaf 2');
+      
+      expect(tree.generateConsistencyProof(0, 2)).toBeNull();
+      expect(tree.generateConsistencyProof(2, 1)).toBeNull();
+      expect(tree.generateConsistencyProof(1, 3)).toBeNull();
+    });
+    
+    it('should reject a rewritten history', () => {
+      const original = new MerkleTree();
+      const rewritten = new MerkleTree();
+      for (let i = 0; i < 6; i++) {
+        original.addLeaf(`leaf ${i}`);
+        rewritten.addLeaf(i === 2 ? 'tampered' : `leaf ${i}`);
+      }
+      
+      const proof = rewritten.generateConsistencyProof(3, 6)!;
+      proof.fromRoot = original.getRoot(3)!;
+      
+      expect(MerkleTree.verifyConsistencyProof(proof)).toBe(false);
+    });
+    
+    it('should reject tampered or truncated proofs', () => {
+      for (let i = 0; i < 7; i++) {
+        tree.addLeaf(`leaf ${i}`);
+      }
+      
+      const tampered = tree.generateConsistencyProof(3, 7)!;
+      tampered.hashes[0] = 'ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff';
+      expect(MerkleTree.verifyConsistencyProof(tampered)).toBe(false);
+      
+      const truncated = tree.generateConsistencyProof(3, 7)!;
+      truncated.hashes.pop();
+      expect(MerkleTree.verifyConsistencyProof(truncated)).toBe(false);
+      
+      const padded = tree.generateConsistencyProof(3, 7)!;
+      padded.oldPeaks.push(padded.oldPeaks[0]);
+      expect(MerkleTree.verifyConsistencyProof(padded)).toBe(false);
+    });
+  });
+  
+  describe('multiproofs', () => {
+    it('should verify every subset of a small tree', () => {
+      for (let i = 0; i < 7; i++) {
+        tree.addLeaf(`leaf ${i}`);
+      }
+      
+      for (let mask = 1; mask < 1 << 7; mask++) {
+        const indices = [0, 1, 2, 3, 4, 5, 6].filter(i => mask & (1 << i));
+        const proof = tree.generateMultiProof(indices)!;
+        expect(MerkleTree.verifyMultiProof(proof)).toBe(true);
+      }
+    });
+    
+    it('should send shared siblings once', () => {
+      for (let i = 0; i < 16; i++) {
+        tree.addLeaf(`leaf ${i}`);
+      }
+      
+      const proof = tree.generateMultiProof([0, 1, 2, 3])!;
+      const separate = [0, 1, 2, 3]
+        .map(i => tree.generateProof(i)!.siblings.length)
+        .reduce((a, b) => a + b, 0);
+      
+      expect(proof.hashes).toHaveLength(2);
+      expect(proof.hashes.length).toBeLessThan(separate);
+    });
+    
+    it('should prove against a past tree size', () => {
+      for (let i = 0; i < 10; i++) {
+        tree.addLeaf(`leaf ${i}`);
+      }
+      
+      const proof = tree.generateMultiProof([4, 1, 5], 6)!;
+      expect(proof.leaves.map(l => l.index)).toEqual([1, 4, 5]);
+      expect(proof.rootHash).toBe(tree.getRoot(6));
+      expect(MerkleTree.verifyMultiProof(proof)).toBe(true);
+    });
+    
+    it('should reject invalid indices', () => {
+      tree.addLeaf('leaf 1');
+      tree.addLeaf('leaf 2');
+      
+      expect(tree.generateMultiProof([])).toBeNull();
+      expect(tree.generateMultiProof([0, 2])).toBeNull();
+    });
+    
+    it('should reject tampered multiproofs', () => {
+      for (let i = 0; i < 9; i++) {
+        tree.addLeaf(`leaf ${i}`);
+      }
+      
+      const tampered = tree.generateMultiProof([2, 7])!;
+      tampered.leaves[1].hash = hashLeaf('other');
+      expect(MerkleTree.verifyMultiProof(tampered)).toBe(false);
+      
+      const extra = tree.generateMultiProof([2, 7])!;
+      extra.hashes.push(extra.hashes[0]);
+      expect(MerkleTree.verifyMultiProof(extra)).toBe(false);
+      
+      const moved = tree.generateMultiProof([2, 7])!;
+      moved.leaves[1].index = 6;
+      expect(MerkleTree.verifyMultiProof(moved)).toBe(false);
+    });
+    
+    it('should work with version 2 trees', () => {
+      const v2 = new MerkleTree(2);
+      for (let i = 0; i < 11; i++) {
+        v2.addLeaf(`leaf ${i}`);
+      }
+      
+      const proof = v2.generateMultiProof([0, 3, 9, 10])!;
+      expect(MerkleTree.verifyMultiProof(proof)).toBe(true);
+    });
+  });
+  
+  describe('range proofs', () => {
+    it('should verify every range of both tree versions', () => {
+      for (const version of [1, 2] as const) {
+        const t = new MerkleTree(version);
+        for (let i = 0; i < 9; i++) {
+          t.addLeaf(`leaf ${i}`);
+        }
+        
+        for (let size = 1; size <= 9; size++) {
+          for (let from = 0; from < size; from++) {
+            for (let to = from + 1; to <= size; to++) {
+              const proof = t.generateRangeProof(from, to, size)!;
+              expect(proof.leaves).toHaveLength(to - from);
+              expect(proof.rootHash).toBe(t.getRoot(size));
+              expect(MerkleTree.verifyRangeProof(proof)).toBe(true);
+            }
+          }
+        }
+      }
+    });
+    
+    it('should reject a range with a leaf left out', () => {
+      for (let i = 0; i < 12; i++) {
+        tree.addLeaf(`leaf ${i}`);
+      }
+      
+      const proof = tree.generateRangeProof(3, 8)!;
+      
+      const dropped = { ...proof, leaves: proof.leaves.filter((_, i) => i !== 2) };
+      expect(MerkleTree.verifyRangeProof(dropped)).toBe(false);
+      
+      const shrunk = { ...dropped, toIndex: 7 };
+      expect(MerkleTree.verifyRangeProof(shrunk)).toBe(false);
+      
+      const swapped = { ...proof, leaves: [proof.leaves[1], proof.leaves[0], ...proof.leaves.slice(2)] };
+      expect(MerkleTree.verifyRangeProof(swapped)).toBe(false);
+    });
+    
+    it('should reject invalid ranges', () => {
+      for (let i = 0; i < 4; i++) {
+        tree.addLeaf(`leaf ${i}`);
+      }
+      
+      expect(tree.generateRangeProof(2, 2)).toBeNull();
+      expect(tree.generateRangeProof(-1, 2)).toBeNull();
+      expect(tree.generateRangeProof(1, 5)).toBeNull();
+      expect(tree.generateRangeProof(0, 3, 2)).toBeNull();
+    });
+  });
+  
   describe('proof verification', () => {
     it('should reject tampered leaf hash', () => {
       tree.addLeaf('leaf 1');
@@ -258,6 +485,33 @@ describe('MerkleTree', () => {
     });
   });
   
+  describe('changed nodes', () => {
+    it('should report the path from leaf to root', () => {
+      for (let i = 0; i < 4; i++) {
+        tree.addLeaf(`leaf ${i}`);
+      }
+      
+      const { index, changedNodes } = tree.addLeaf('leaf 4');
+      
+      expect(changedNodes).toHaveLength(4);
+      expect(changedNodes[0]).toEqual({ level: 0, index, hash: changedNodes[0].hash });
+      expect(changedNodes[changedNodes.length - 1].hash).toBe(tree.getRoot());
+    });
+    
+    it('should persist the whole tree when applied incrementally', () => {
+      const persisted = new Map<string, string>();
+      
+      for (let i = 0; i < 13; i++) {
+        for (const node of tree.addLeaf(`leaf ${i}`).changedNodes) {
+          persisted.set(`${node.level}:${node.index}`, node.hash);
+        }
+      }
+      
+      const expected = new Map(tree.getAllNodes().map(n => [`${n.level}:${n.index}`, n.hash]));
+      expect(persisted).toEqual(expected);
+    });
+  });
+  
   describe('addLeafHash', () => {
     it('should allow adding pre-computed hashes', () => {
       const hash1 = hashLeaf('data 1');
@@ -272,6 +526,79 @@ describe('MerkleTree', () => {
   });
 });
 
+describe('MerkleTree version 2 (RFC 6962)', () => {
+  it('should not share roots between different sizes', () => {
+    const v1Short = new MerkleTree(1);
+    const v1Long = new MerkleTree(1);
+    const v2Short = new MerkleTree(2);
+    const v2Long = new MerkleTree(2);
+    
+    for (const leaf of ['a', 'b', 'c']) {
+      v1Short.addLeaf(leaf);
+      v2Short.addLeaf(leaf);
+    }
+    for (const leaf of ['a', 'b', 'c', 'c']) {
+      v1Long.addLeaf(leaf);
+      v2Long.addLeaf(leaf);
+    }
+    
+    expect(v1Short.getRoot()).toBe(v1Long.getRoot());
+    expect(v2Short.getRoot()).not.toBe(v2Long.getRoot());
+  });
+  
+  it('should promote the last node instead of duplicating it', () => {
+    const tree = new MerkleTree(2);
+    const a = tree.addLeaf('a').hash;
+    const b = tree.addLeaf('b').hash;
+    const c = tree.addLeaf('c').hash;
+    
+    expect(tree.getRoot()).toBe(hashInternal(hashInternal(a, b), c));
+  });
+  
+  it('should generate valid proofs and consistency proofs', () => {
+    const tree = new MerkleTree(2);
+    for (let i = 0; i < 11; i++) {
+      tree.addLeaf(`leaf ${i}`);
+    }
+    
+    for (let size = 1; size <= 11; size++) {
+      for (let i = 0; i < size; i++) {
+        const proof = tree.generateProof(i, size)!;
+        expect(proof.version).toBe(2);
+        expect(MerkleTree.verifyProof(proof)).toBe(true);
+      }
+      
+      const consistency = tree.generateConsistencyProof(size, 11)!;
+      expect(MerkleTree.verifyConsistencyProof(consistency)).toBe(true);
+    }
+  });
+  
+  it('should reject proofs whose path does not match index and size', () => {
+    const tree = new MerkleTree(2);
+    for (let i = 0; i < 5; i++) {
+      tree.addLeaf(`leaf ${i}`);
+    }
+    
+    const proof = tree.generateProof(4)!;
+    proof.treeSize = 8;
+    expect(MerkleTree.verifyProof(proof)).toBe(false);
+  });
+  
+  it('should restore from nodes with the same version', () => {
+    const tree = new MerkleTree(2);
+    for (let i = 0; i < 6; i++) {
+      tree.addLeaf(`leaf ${i}`);
+    }
+    
+    const restored = MerkleTree.fromNodes(tree.getAllNodes(), 2);
+    restored.addLeaf('leaf 6');
+    tree.addLeaf('leaf 6');
+    
+    expect(restored.version).toBe(2);
+    expect(restored.getRoot()).toBe(tree.getRoot());
+  });
+});
+
 describe('canonicalizeCommitment', () => {
   it('should produce consistent output regardless of property order', () => {
     const c1 = {
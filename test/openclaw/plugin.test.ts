@@ -2,11 +2,12 @@
  * OpenClaw Plugin Tests
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { mkdtempSync, rmSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
 import { AnchorsPlugin, createPlugin, TOOL_DEFINITIONS } from '../../src/openclaw/plugin.js';
+import { AnchorStore } from '../../src/store/anchor-store.js';
 
 describe('OpenClaw Plugin', () => {
   let plugin: ReturnType<typeof createPlugin>;
@@ -30,7 +31,7 @@ describe('OpenClaw Plugin', () => {
     });
     
     it('should expose tool definitions', () => {
-      expect(plugin.tools).toHaveLength(7);
+      expect(plugin.tools).toHaveLength(11);
       expect(plugin.tools.map(t => t.name)).toContain('anchors_commit');
       expect(plugin.tools.map(t => t.name)).toContain('anchors_prove');
     });
@@ -118,6 +119,145 @@ describe('OpenClaw Plugin', () => {
       expect(result.content[0].text).toContain('Found 1 commitment');
       expect(result.content[0].text).toContain('identity');
     });
+    
+    it('should filter by tags and metadata', async () => {
+      await plugin.executeTool('anchors_commit', {
+        type: 'agreement',
+        subject: 'audit',
+        content: 'Security audit',
+        fields: { priceSats: 5000 },
+        tags: ['billing'],
+      });
+      await plugin.executeTool('anchors_commit', {
+        type: 'agreement',
+        subject: 'review',
+        content: 'Code review',
+        fields: { priceSats: 50 },
+        tags: ['billing'],
+      });
+      
+      const result = await plugin.executeTool('anchors_list', { tags: ['billing'], where: 'metadata.priceSats >= 100' });
+      
+      expect(result.content[0].text).toContain('Found 1 commitment');
+      expect(result.content[0].text).toContain('audit [');
+      expect(result.content[0].text).toContain('#billing');
+      
+      const invalid = await plugin.executeTool('anchors_list', { where: 'priceSats >= 100' });
+      expect(invalid.isError).toBe(true);
+      expect(invalid.content[0].text).toContain('Invalid filter path');
+    });
+  });
+  
+  describe('anchors_search', () => {
+    it('should find commitments by content, best match first', async () => {
+      await plugin.executeTool('anchors_commit', {
+        type: 'agreement',
+        subject: 'logging',
+        content: 'Refactor the logging module to use structured logs',
+      });
+      await plugin.executeTool('anchors_commit', {
+        type: 'agreement',
+        subject: 'docs',
+        content: 'Write the deployment guide',
+      });
+      
+      const result = await plugin.executeTool('anchors_search', { query: 'what did I promise about the logging refactor?' });
+      
+      const text = result.content[0].text;
+      expect(result.isError).toBeFalsy();
+      expect(text).toContain('[Refactor]');
+      expect(text.indexOf('logging')).toBeLessThan(text.indexOf('docs'));
+    });
+    
+    it('should report no matches', async () => {
+      const result = await plugin.executeTool('anchors_search', { query: 'nothing here' });
+      
+      expect(result.content[0].text).toContain('No commitments found');
+    });
+  });
+  
+  describe('anchors_revoke', () => {
+    it('should revoke and mark the commitment in lists', async () => {
+      const commitResult = await plugin.executeTool('anchors_commit', {
+        type: 'agreement',
+        subject: 'test',
+        content: 'Test',
+      });
+      const commitmentId = commitResult.content[0].text.match(/`(commit_[a-f0-9]+)`/)?.[1];
+      
+      const result = await plugin.executeTool('anchors_revoke', { commitmentId, reason: 'Mistake' });
+      
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toContain('revoked');
+      
+      const list = await plugin.executeTool('anchors_list', { type: 'agreement' });
+      expect(list.content[0].text).toContain('— revoked');
+    });
+  });
+  
+  describe('anchors_fulfill', () => {
+    it('should fulfill and mark the commitment in lists', async () => {
+      const commitResult = await plugin.executeTool('anchors_commit', {
+        type: 'agreement',
+        subject: 'test',
+        content: 'Test',
+        dueAt: new Date(Date.now() + 60_000).toISOString(),
+      });
+      const commitmentId = commitResult.content[0].text.match(/`(commit_[a-f0-9]+)`/)?.[1];
+      
+      const result = await plugin.executeTool('anchors_fulfill', { commitmentId, txid: 'ab'.repeat(32) });
+      
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toContain('fulfilled');
+      
+      const list = await plugin.executeTool('anchors_list', { type: 'agreement' });
+      expect(list.content[0].text).toContain('— fulfilled');
+    });
+    
+    it('should reject an invalid deadline', async () => {
+      const result = await plugin.executeTool('anchors_commit', {
+        type: 'agreement',
+        subject: 'test',
+        content: 'Test',
+        dueAt: 'tomorrow-ish',
+      });
+      
+      expect(result.isError).toBeTruthy();
+    });
+  });
+  
+  describe('anchors_schemas', () => {
+    it('should list schemas and render commitments with them', async () => {
+      const schemas = await plugin.executeTool('anchors_schemas', {});
+      expect(schemas.content[0].text).toContain('agreement/service-v1');
+      expect(schemas.content[0].text).toContain('`priceSats` (integer, required)');
+      
+      const commitResult = await plugin.executeTool('anchors_commit', {
+        type: 'agreement',
+        subject: 'code-review',
+        content: 'Review PR #42',
+        schema: 'agreement/service-v1',
+        fields: { priceSats: 4200, deadline: Date.parse('2025-01-01T00:00:00Z'), deliverable: 'Review' },
+      });
+      expect(commitResult.isError).toBeFalsy();
+      
+      const list = await plugin.executeTool('anchors_list', { schema: 'agreement/service-v1' });
+      expect(list.content[0].text).toContain('Price (sats): 4200');
+      expect(list.content[0].text).toContain('Deadline: 2025-01-01T00:00:00.000Z');
+    });
+    
+    it('should report fields that do not match', async () => {
+      const result = await plugin.executeTool('anchors_commit', {
+        type: 'agreement',
+        subject: 'code-review',
+        content: 'Review PR #42',
+        schema: 'agreement/service-v1',
+        fields: { priceSats: 4200 },
+      });
+      
+      expect(result.isError).toBeTruthy();
+      expect(result.content[0].text).toContain('deadline is required');
+    });
   });
   
   describe('anchors_prove', () => {
@@ -257,6 +397,50 @@ describe('AnchorsPlugin class', () => {
   it('should return tools before initialization', () => {
     const plugin = new AnchorsPlugin();
     const tools = plugin.getTools();
-    expect(tools).toHaveLength(7);
+    expect(tools).toHaveLength(11);
+  });
+  
+  describe('background activity', () => {
+    let tempDir: string;
+    
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'bsv-anchors-plugin-logger-'));
+    });
+    
+    afterEach(() => {
+      vi.restoreAllMocks();
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+    
+    it('should report auto-anchor failures to the host logger, not the console', async () => {
+      const store = await AnchorStore.open(tempDir);
+      store.setAnchorStrategy({ anchorStrategy: 'importance', immediateTypes: ['agreement'] });
+      store.close();
+      
+      const consoleError = vi.spyOn(console, 'error');
+      const logger = { info: vi.fn(), error: vi.fn() };
+      const plugin = new AnchorsPlugin({ dataDir: tempDir, autoAnchor: true, logger });
+      await plugin.initialize();
+      
+      // No wallet is configured, so the anchor fails
+      await plugin.executeTool('anchors_commit', { type: 'agreement', subject: 'test', content: 'Test' });
+      await vi.waitFor(() => expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('Auto-anchor failed')));
+      expect(consoleError).not.toHaveBeenCalled();
+      
+      plugin.close();
+    });
+    
+    it('should report scheduled backup failures to the host logger, not the console', async () => {
+      vi.spyOn(AnchorStore.prototype, 'backup').mockRejectedValue(new Error('disk full'));
+      const consoleError = vi.spyOn(console, 'error');
+      const logger = { info: vi.fn(), error: vi.fn() };
+      const plugin = new AnchorsPlugin({ dataDir: tempDir, autoBackup: { intervalHours: 0.00001 }, logger });
+      await plugin.initialize();
+      
+      await vi.waitFor(() => expect(logger.error).toHaveBeenCalledWith('[anchors] Scheduled backup failed: disk full'));
+      expect(consoleError).not.toHaveBeenCalled();
+      
+      plugin.close();
+    });
   });
 });
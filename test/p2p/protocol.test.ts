@@ -7,7 +7,9 @@ import { mkdtempSync, rmSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
 import { AnchorStore } from '../../src/store/anchor-store.js';
+import { AnchorDatabase } from '../../src/store/database.js';
 import { ProofHandler } from '../../src/p2p/handler.js';
+import { ProofClient } from '../../src/p2p/client.js';
 import {
   PROTOCOL_ID,
   encodeMessage,
@@ -17,6 +19,7 @@ import {
   createProofPush,
   createProofAck,
   createProofError,
+  createCosignProposal,
   validateRequest,
   type ProofRequest,
   type ProofResponse,
@@ -62,12 +65,15 @@ describe('P2P Protocol', () => {
         merkleProof: {
           leafHash: 'hash',
           leafIndex: 0,
+          treeSize: 1,
           siblings: [],
           rootHash: 'root',
         },
         anchor: {
           txid: 'txid',
           timestamp: Date.now(),
+          rootHash: 'root',
+          commitmentCount: 1,
         },
       };
       
@@ -137,6 +143,17 @@ describe('P2P Protocol', () => {
       expect(result.valid).toBe(false);
       expect(result.error).toContain('limit');
     });
+    
+    it('should reject malformed tag and metadata filters', () => {
+      expect(validateRequest(createProofRequest({ query: { where: "tags contains 'billing'" } })).valid).toBe(true);
+      
+      const badWhere = validateRequest(createProofRequest({ query: { where: 'metadata.priceSats >= ' } }));
+      expect(badWhere.valid).toBe(false);
+      expect(badWhere.error).toContain('Invalid filter');
+      
+      const badTags = validateRequest(createProofRequest({ query: { tags: 'billing' as never } }));
+      expect(badTags.error).toContain('tags');
+    });
   });
 });
 
@@ -219,6 +236,79 @@ describe('ProofHandler', () => {
       expect(decoded.proofs).toHaveLength(2);
     });
     
+    it('should filter queries by tags and metadata', async () => {
+      await store.commit({
+        type: 'agreement',
+        payload: { subject: 'audit', content: 'Audit', metadata: { priceSats: 5000 }, tags: ['billing'] },
+      });
+      await store.commit({
+        type: 'agreement',
+        payload: { subject: 'review', content: 'Review', metadata: { priceSats: 50 }, tags: ['billing'] },
+      });
+      await store.commit({
+        type: 'agreement',
+        payload: { subject: 'gift', content: 'Gift', metadata: { priceSats: 9000 } },
+      });
+      await store.recordAnchor('test_txid');
+      
+      const request = createProofRequest({
+        query: { tags: ['billing'], where: 'metadata.priceSats >= 100' },
+      });
+      const response = await handler.handleMessage(encodeMessage(request), 'peer123');
+      
+      const decoded = decodeMessage(response!) as ProofResponse;
+      expect(decoded.proofs.map(p => p.commitment.payload.subject)).toEqual(['audit']);
+    });
+    
+    it('should handle batch query request', async () => {
+      for (let i = 0; i < 5; i++) {
+        await store.commit({
+          type: i % 2 === 0 ? 'agreement' : 'state',
+          payload: { subject: `subject ${i}`, content: `Content ${i}` },
+        });
+      }
+      await store.recordAnchor('test_txid');
+      
+      const request = createProofRequest({
+        query: { type: 'agreement' },
+        options: { batch: true },
+      });
+      const response = await handler.handleMessage(
+        encodeMessage(request),
+        'peer123'
+      );
+      
+      const decoded = decodeMessage(response!) as ProofResponse;
+      expect(decoded.proofs).toHaveLength(0);
+      expect(decoded.total).toBe(3);
+      expect(decoded.batch!.commitments).toHaveLength(3);
+      expect(await AnchorStore.verifyBatch(decoded.batch!, decoded.publicKey!)).toBe(true);
+    });
+    
+    it('should skip matches without a block height in both single and batch answers', async () => {
+      const confirmed = await store.commit({ type: 'agreement', payload: { subject: 'first', content: 'One' } });
+      await store.recordAnchor('txid_confirmed');
+      await store.commit({ type: 'agreement', payload: { subject: 'second', content: 'Two' } });
+      await store.recordAnchor('txid_pending');
+      
+      const db = new AnchorDatabase(tempDir);
+      db.updateAnchorBlock('txid_confirmed', 800000);
+      db.close();
+      
+      const ask = async (batch: boolean) => decodeMessage((await handler.handleMessage(
+        encodeMessage(createProofRequest({ query: { type: 'agreement' }, options: { requireAnchored: true, batch } })),
+        'peer123'
+      ))!) as ProofResponse;
+      
+      const single = await ask(false);
+      expect(single.proofs.map(p => p.commitment.id)).toEqual([confirmed.id]);
+      
+      const batched = await ask(true);
+      expect(batched.batch!.commitments.map(c => c.id)).toEqual([confirmed.id]);
+      expect(batched.batch!.anchor.blockHeight).toBe(800000);
+      expect(batched.total).toBe(1);
+    });
+    
     it('should include public key when requested', async () => {
       await store.commit({
         type: 'agreement',
@@ -291,6 +381,87 @@ describe('ProofHandler', () => {
   });
 });
 
+describe('Co-signing over P2P', () => {
+  let proposerDir: string;
+  let counterpartyDir: string;
+  let proposer: AnchorStore;
+  let counterparty: AnchorStore;
+  let approve: boolean;
+  let client: ProofClient;
+  
+  beforeEach(async () => {
+    proposerDir = mkdtempSync(join(tmpdir(), 'bsv-anchors-p2p-test-'));
+    counterpartyDir = mkdtempSync(join(tmpdir(), 'bsv-anchors-p2p-test-'));
+    proposer = await AnchorStore.open(proposerDir);
+    counterparty = await AnchorStore.open(counterpartyDir);
+    approve = true;
+    
+    const handler = new ProofHandler({
+      store: counterparty,
+      onCosignProposal: (proposal) => approve && proposal.payload.subject === 'code-review',
+    });
+    client = new ProofClient({
+      store: proposer,
+      transport: {
+        request: async (_peerId, _protocolId, data) => (await handler.handleMessage(data, 'peer_proposer'))!,
+      },
+    });
+  });
+  
+  afterEach(() => {
+    proposer.close();
+    counterparty.close();
+    rmSync(proposerDir, { recursive: true, force: true });
+    rmSync(counterpartyDir, { recursive: true, force: true });
+  });
+  
+  it('should store the co-signed commitment on both sides', async () => {
+    const commitment = await client.proposeCosigned('peer_counterparty', {
+      type: 'agreement',
+      payload: { subject: 'code-review', content: '100 sats', counterparty: 'peer_counterparty' },
+    });
+    
+    expect(commitment.signers!.map(s => s.publicKey)).toEqual([
+      proposer.getPublicKey(),
+      counterparty.getPublicKey(),
+    ]);
+    
+    const theirs = await counterparty.get(commitment.id);
+    expect(theirs!.leafHash).toBe(commitment.leafHash);
+    
+    await proposer.recordAnchor('txid_1');
+    const proof = await proposer.prove(commitment.id);
+    expect(await AnchorStore.verify(proof!, proposer.getPublicKey())).toBe(true);
+    expect(await AnchorStore.verify(proof!, counterparty.getPublicKey())).toBe(true);
+  });
+  
+  it('should fail when the peer declines', async () => {
+    approve = false;
+    
+    await expect(client.proposeCosigned('peer_counterparty', {
+      type: 'agreement',
+      payload: { subject: 'code-review', content: '100 sats' },
+    })).rejects.toThrow('Proposal declined');
+    
+    expect(await proposer.count()).toBe(0);
+    expect(await counterparty.count()).toBe(0);
+  });
+  
+  it('should decline by default', async () => {
+    const handler = new ProofHandler({ store: counterparty });
+    const proposal = await proposer.propose({
+      type: 'agreement',
+      payload: { subject: 'code-review', content: '100 sats' },
+    });
+    
+    const response = await handler.handleMessage(encodeMessage(createCosignProposal(proposal)), 'peer');
+    const decoded = decodeMessage(response!);
+    
+    expect(decoded.type).toBe('COSIGN_ACCEPTANCE');
+    expect(decoded.type === 'COSIGN_ACCEPTANCE' && decoded.accepted).toBe(false);
+  });
+});
+
 describe('Protocol constants', () => {
   it('should have correct protocol ID', () => {
     expect(PROTOCOL_ID).toBe('/bsv-anchors/proof/1.0.0');
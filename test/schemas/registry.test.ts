@@ -0,0 +1,86 @@
+/**
+ * Commitment Schema Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SchemaRegistry, validateMetadata, renderFields } from '../../src/schemas/registry.js';
+import type { CommitmentSchema } from '../../src/types.js';
+
+const delivery: CommitmentSchema = {
+  id: 'agreement/delivery-v1',
+  type: 'agreement',
+  description: 'Delivery of goods',
+  fields: {
+    item: { type: 'string', label: 'Item', required: true },
+    speed: { type: 'string', label: 'Speed', enum: ['standard', 'express'] },
+    weightKg: { type: 'number', label: 'Weight (kg)', min: 0, max: 30 },
+  },
+};
+
+describe('SchemaRegistry', () => {
+  it('should include the built-in schemas', () => {
+    const registry = new SchemaRegistry();
+    
+    expect(registry.get('agreement/service-v1')?.fields.priceSats.type).toBe('integer');
+  });
+  
+  it('should list registered schemas by ID', () => {
+    const registry = new SchemaRegistry([delivery]);
+    
+    expect(registry.list().map(s => s.id)).toEqual(['agreement/delivery-v1', 'agreement/service-v1']);
+  });
+  
+  it('should refuse to redefine a schema', () => {
+    const registry = new SchemaRegistry([delivery]);
+    
+    registry.register({ ...delivery, fields: { ...delivery.fields } });
+    expect(() => registry.register({ ...delivery, description: 'Changed' })).toThrow('new version');
+  });
+  
+  it('should reject invalid definitions', () => {
+    const registry = new SchemaRegistry();
+    
+    expect(() => registry.register({ ...delivery, id: 'x', fields: { dueAt: { type: 'timestamp', label: 'Due' } } }))
+      .toThrow('reserved');
+    expect(() => registry.register({ ...delivery, id: 'y', type: 'revocation' })).toThrow("can't have a schema");
+  });
+});
+
+describe('validateMetadata', () => {
+  it('should accept matching metadata', () => {
+    expect(validateMetadata(delivery, { item: 'Book', speed: 'express', weightKg: 1.2 })).toEqual([]);
+  });
+  
+  it('should report every problem', () => {
+    const problems = validateMetadata(delivery, { speed: 'overnight', weightKg: 31, colour: 'red' });
+    
+    expect(problems).toEqual([
+      'item is required',
+      'speed must be one of: standard, express',
+      'weightKg must be at most 30',
+      'colour is not a field of agreement/delivery-v1',
+    ]);
+  });
+  
+  it('should check integers and timestamps', () => {
+    const service = new SchemaRegistry().get('agreement/service-v1')!;
+    
+    expect(validateMetadata(service, { priceSats: 1.5, deadline: '2025-01-01', deliverable: 'PR' })).toEqual([
+      'priceSats must be an integer',
+      'deadline must be a Unix timestamp in milliseconds',
+    ]);
+  });
+});
+
+describe('renderFields', () => {
+  it('should label fields in schema order and format timestamps', () => {
+    const service = new SchemaRegistry().get('agreement/service-v1')!;
+    
+    expect(renderFields(service, { deliverable: 'Review PR #42', priceSats: 4200, deadline: 1735689600000 }))
+      .toEqual([
+        { label: 'Price (sats)', value: '4200' },
+        { label: 'Deadline', value: '2025-01-01T00:00:00.000Z' },
+        { label: 'Deliverable', value: 'Review PR #42' },
+      ]);
+  });
+});
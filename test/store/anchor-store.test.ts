@@ -2,9 +2,15 @@
  * Anchor Store Tests
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { AnchorStore } from '../../src/store/anchor-store.js';
-import { mkdtempSync, rmSync } from 'fs';
+import Database from 'better-sqlite3';
+import { AnchorDatabase } from '../../src/store/database.js';
+import { parseAnchorPayload } from '../../src/wallet/integration.js';
+import { generateKeyPair, sign } from '../../src/crypto/signing.js';
+import { MerkleTree, canonicalizeCommitment, sortObjectKeys } from '../../src/merkle/tree.js';
+import type { CommitmentProposal, CommitmentSignature } from '../../src/types.js';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
 
@@ -189,6 +195,987 @@ describe('AnchorStore', () => {
     });
   });
   
+  describe('revoke', () => {
+    it('should append a revocation and keep the original', async () => {
+      const c = await store.commit({
+        type: 'agreement',
+        payload: { subject: 'code-review', content: 'Review', counterparty: 'peer_A' },
+      });
+      
+      const revocation = await store.revoke(c.id, 'Wrong counterparty');
+      
+      expect(revocation.type).toBe('revocation');
+      expect(revocation.treeIndex).toBe(1);
+      expect(revocation.payload.subject).toBe('code-review');
+      expect(revocation.payload.content).toBe('Wrong counterparty');
+      expect(revocation.payload.metadata).toEqual({ revokes: c.id, revokedLeafHash: c.leafHash });
+      expect(await store.count()).toBe(2);
+      
+      const original = await store.get(c.id);
+      expect(original!.leafHash).toBe(c.leafHash);
+      expect(original!.revocation).toEqual({
+        revocationId: revocation.id,
+        reason: 'Wrong counterparty',
+        timestamp: revocation.timestamp,
+      });
+    });
+    
+    it('should report status and filter in queries', async () => {
+      const kept = await store.commit({ type: 'state', payload: { subject: 'a', content: 'A' } });
+      const dropped = await store.commit({ type: 'state', payload: { subject: 'b', content: 'B' } });
+      await store.revoke(dropped.id, 'Mistake');
+      
+      const states = await store.query({ type: 'state' });
+      expect(states.find(c => c.id === dropped.id)!.revocation).toBeDefined();
+      expect(states.find(c => c.id === kept.id)!.revocation).toBeUndefined();
+      
+      const active = await store.query({ type: 'state', revoked: false });
+      expect(active.map(c => c.id)).toEqual([kept.id]);
+      
+      const revoked = await store.query({ revoked: true });
+      expect(revoked.map(c => c.id)).toEqual([dropped.id]);
+    });
+    
+    it('should reject invalid revocations', async () => {
+      const c = await store.commit({ type: 'state', payload: { subject: 'a', content: 'A' } });
+      const revocation = await store.revoke(c.id, 'Mistake');
+      
+      await expect(store.revoke('commit_missing', 'x')).rejects.toThrow('not found');
+      await expect(store.revoke(c.id, 'Again')).rejects.toThrow('already revoked');
+      await expect(store.revoke(revocation.id, 'x')).rejects.toThrow('Cannot revoke a revocation');
+      await expect(store.commit({
+        type: 'revocation',
+        payload: { subject: 'a', content: 'A', metadata: { revokes: c.id } },
+      })).rejects.toThrow('revoke()');
+    });
+    
+    it('should look up status for more IDs than SQLite binds at once', async () => {
+      const c = await store.commit({ type: 'state', payload: { subject: 'a', content: 'A' } });
+      const revocation = await store.revoke(c.id, 'Mistake');
+      const ids = [...Array.from({ length: 40_000 }, (_, i) => `commit_${i}`), c.id];
+      
+      const db = new AnchorDatabase(tempDir);
+      expect(db.getRevocations(ids).get(c.id)?.id).toBe(revocation.id);
+      expect(db.getFulfillments(ids).size).toBe(0);
+      expect(db.getSupersessions(ids).size).toBe(0);
+      db.close();
+    });
+  });
+  
+  describe('supersedes', () => {
+    const terms = (content: string) => ({ subject: 'code-review', content, counterparty: 'peer_A' });
+    
+    it('should link an amendment to the commitment it supersedes', async () => {
+      const original = await store.commit({ type: 'agreement', payload: terms('100 sats') });
+      const amended = await store.commit({
+        type: 'agreement',
+        payload: terms('150 sats'),
+        supersedes: original.id,
+      });
+      
+      expect(amended.payload.metadata).toEqual({
+        supersedes: original.id,
+        supersededLeafHash: original.leafHash,
+      });
+    });
+    
+    it('should return the whole chain with proofs', async () => {
+      const v1 = await store.commit({ type: 'agreement', payload: terms('100 sats') });
+      await store.recordAnchor('txid_1');
+      const v2 = await store.commit({ type: 'agreement', payload: terms('150 sats'), supersedes: v1.id });
+      const v3 = await store.commit({ type: 'agreement', payload: terms('175 sats'), supersedes: v2.id });
+      
+      for (const id of [v1.id, v2.id, v3.id]) {
+        const lineage = await store.getLineage(id);
+        expect(lineage!.map(e => e.commitment.id)).toEqual([v1.id, v2.id, v3.id]);
+      }
+      
+      const lineage = await store.getLineage(v1.id);
+      expect(await AnchorStore.verify(lineage![0].proof!, store.getPublicKey())).toBe(true);
+      expect(lineage![1].proof).toBeNull();
+      expect(await store.getLineage('commit_missing')).toBeNull();
+    });
+    
+    it('should query only the latest version of each chain', async () => {
+      const v1 = await store.commit({ type: 'agreement', payload: terms('100 sats') });
+      const v2 = await store.commit({ type: 'agreement', payload: terms('150 sats'), supersedes: v1.id });
+      const other = await store.commit({ type: 'state', payload: { subject: 'state', content: 'State' } });
+      
+      const latest = await store.query({ latestOnly: true });
+      expect(latest.map(c => c.id).sort()).toEqual([v2.id, other.id].sort());
+    });
+    
+    it('should reject invalid amendments', async () => {
+      const v1 = await store.commit({ type: 'agreement', payload: terms('100 sats') });
+      await store.commit({ type: 'agreement', payload: terms('150 sats'), supersedes: v1.id });
+      const revoked = await store.commit({ type: 'state', payload: { subject: 'state', content: 'State' } });
+      const revocation = await store.revoke(revoked.id, 'Mistake');
+      
+      const amend = (supersedes: string) => store.commit({ type: 'agreement', payload: terms('x'), supersedes });
+      await expect(amend('commit_missing')).rejects.toThrow('not found');
+      await expect(amend(v1.id)).rejects.toThrow('already superseded');
+      await expect(amend(revoked.id)).rejects.toThrow('revoked');
+      await expect(amend(revocation.id)).rejects.toThrow('Cannot supersede a revocation');
+      await expect(store.commit({
+        type: 'agreement',
+        payload: { ...terms('x'), metadata: { supersedes: v1.id } },
+      })).rejects.toThrow('not in metadata');
+    });
+    
+    it('should reject commitments made by a different signer', async () => {
+      const foreign = await store.commit({ type: 'agreement', payload: terms('100 sats') });
+      store.close();
+      rmSync(join(tempDir, 'identity-key.json'));
+      store = await AnchorStore.open(tempDir);
+      
+      await expect(store.commit({
+        type: 'agreement',
+        payload: terms('150 sats'),
+        supersedes: foreign.id,
+      })).rejects.toThrow('different signer');
+    });
+  });
+  
+  describe('fulfillment', () => {
+    const HOUR = 60 * 60 * 1000;
+    const review = (dueAt: number) => store.commit({
+      type: 'agreement',
+      payload: { subject: 'code-review', content: 'Review PR #42', counterparty: 'peer_A' },
+      dueAt,
+    });
+    
+    it('should sign the deadline and record a linked fulfillment', async () => {
+      const dueAt = Date.now() + 24 * HOUR;
+      const c = await review(dueAt);
+      expect(c.payload.metadata).toEqual({ dueAt });
+      
+      const fulfillment = await store.fulfill(c.id, { txid: 'ab'.repeat(32), note: 'Merged' });
+      expect(fulfillment.type).toBe('fulfillment');
+      expect(fulfillment.payload.metadata).toEqual({
+        fulfills: c.id,
+        fulfilledLeafHash: c.leafHash,
+        txid: 'ab'.repeat(32),
+      });
+      
+      const fetched = await store.get(c.id);
+      expect(fetched?.fulfillment).toEqual({
+        fulfillmentId: fulfillment.id,
+        evidence: { txid: 'ab'.repeat(32), note: 'Merged' },
+        timestamp: fulfillment.timestamp,
+        late: false,
+      });
+    });
+    
+    it('should query overdue and fulfilled commitments', async () => {
+      const missed = await review(Date.now() - HOUR);
+      const lateDone = await review(Date.now() - HOUR);
+      const revoked = await review(Date.now() - HOUR);
+      const pending = await review(Date.now() + HOUR);
+      await store.commit({ type: 'state', payload: { subject: 's', content: 'no deadline' } });
+      
+      await store.fulfill(lateDone.id);
+      await store.revoke(revoked.id, 'Cancelled');
+      
+      const overdue = await store.query({ overdue: true });
+      expect(overdue.map(c => c.id)).toEqual([missed.id]);
+      
+      const notOverdue = await store.query({ overdue: false, type: 'agreement' });
+      expect(notOverdue.map(c => c.id).sort()).toEqual([lateDone.id, revoked.id, pending.id].sort());
+      
+      const fulfilled = await store.query({ fulfilled: true });
+      expect(fulfilled.map(c => c.id)).toEqual([lateDone.id]);
+      expect(fulfilled[0].fulfillment?.late).toBe(true);
+      
+      expect(await store.query({ fulfilled: false, type: 'agreement' })).toHaveLength(3);
+    });
+    
+    it('should not count an amended version as overdue', async () => {
+      const v1 = await review(Date.now() - HOUR);
+      const v2 = await store.commit({
+        type: 'agreement',
+        payload: { subject: 'code-review', content: 'Review PR #42 and #43', counterparty: 'peer_A' },
+        supersedes: v1.id,
+        dueAt: Date.now() - HOUR,
+      });
+      expect((await store.query({ overdue: true })).map(c => c.id)).toEqual([v2.id]);
+      expect((await store.get(v1.id))!.supersededBy).toBe(v2.id);
+      
+      await store.fulfill(v2.id);
+      expect(await store.query({ overdue: true })).toEqual([]);
+      expect((await store.query({ overdue: false, type: 'agreement' })).map(c => c.id).sort())
+        .toEqual([v1.id, v2.id].sort());
+    });
+    
+    it('should reject invalid fulfillments', async () => {
+      const c = await review(Date.now() + HOUR);
+      const amended = await store.commit({
+        type: 'agreement',
+        payload: { subject: 'code-review', content: 'Review PR #43' },
+        supersedes: c.id,
+      });
+      const revoked = await review(Date.now() + HOUR);
+      await store.revoke(revoked.id, 'Cancelled');
+      
+      await expect(store.fulfill('commit_missing')).rejects.toThrow('not found');
+      await expect(store.fulfill(c.id)).rejects.toThrow('fulfill the latest version');
+      await expect(store.fulfill(revoked.id)).rejects.toThrow('revoked');
+      
+      const fulfillment = await store.fulfill(amended.id);
+      await expect(store.fulfill(amended.id)).rejects.toThrow('already fulfilled');
+      await expect(store.fulfill(fulfillment.id)).rejects.toThrow('Cannot fulfill a fulfillment');
+    });
+    
+    it('should reject invalid deadlines', async () => {
+      await expect(review(1.5)).rejects.toThrow('dueAt');
+      await expect(store.commit({
+        type: 'state',
+        payload: { subject: 's', content: 'c', metadata: { dueAt: 1 } },
+      })).rejects.toThrow('Set dueAt on the commitment input');
+      await expect(store.commit({
+        type: 'fulfillment',
+        payload: { subject: 's', content: 'c' },
+      })).rejects.toThrow('fulfill()');
+    });
+  });
+  
+  describe('search', () => {
+    beforeEach(async () => {
+      await store.commit({
+        type: 'agreement',
+        payload: {
+          subject: 'logging',
+          content: 'Refactor the logging module to emit structured events',
+          counterparty: 'peer_A',
+        },
+      });
+      await store.commit({
+        type: 'attestation',
+        payload: { subject: 'deploy', content: 'Deployed release 1.2', metadata: { environment: 'staging' } },
+      });
+    });
+    
+    it('should rank commitments by the words they match', async () => {
+      const results = await store.search('what did I promise about the logging refactor?');
+      
+      expect(results[0].commitment.payload.subject).toBe('logging');
+      expect(results[0].score).toBeGreaterThan(0);
+      expect(results[0].snippet).toContain('[Refactor]');
+    });
+    
+    it('should match stemmed words in content and metadata', async () => {
+      expect((await store.search('refactoring')).map(r => r.commitment.payload.subject)).toEqual(['logging']);
+      expect((await store.search('staging')).map(r => r.commitment.payload.subject)).toEqual(['deploy']);
+    });
+    
+    it('should apply query filters and attach status', async () => {
+      const [logging] = await store.search('logging');
+      await store.revoke(logging.commitment.id, 'Dropped');
+      
+      expect(await store.search('logging', { type: 'attestation' })).toEqual([]);
+      expect((await store.search('logging', { type: 'agreement' }))[0].commitment.revocation?.reason).toBe('Dropped');
+    });
+    
+    it('should not index encrypted content', async () => {
+      await store.commit({
+        type: 'agreement',
+        payload: { subject: 'secret', content: 'Confidential logging budget' },
+        recipients: [generateKeyPair().publicKey],
+      });
+      
+      expect((await store.search('confidential budget'))).toEqual([]);
+      expect((await store.search('secret')).map(r => r.commitment.payload.subject)).toEqual(['secret']);
+    });
+    
+    it('should treat query syntax as plain words', async () => {
+      expect(await store.search('')).toEqual([]);
+      expect(await store.search('?!')).toEqual([]);
+      expect((await store.search('logging AND "NEAR( *')).length).toBeGreaterThan(0);
+    });
+  });
+  
+  describe('tags and metadata filters', () => {
+    const subjects = (commitments: { payload: { subject: string } }[]) =>
+      commitments.map(c => c.payload.subject).sort();
+    
+    beforeEach(async () => {
+      await store.commit({
+        type: 'agreement',
+        payload: {
+          subject: 'audit',
+          content: 'Security audit',
+          metadata: { priceSats: 5000, client: { tier: 'gold' }, paid: true, labels: ['urgent'] },
+          tags: ['billing', 'security'],
+        },
+      });
+      await store.commit({
+        type: 'agreement',
+        payload: { subject: 'review', content: 'Code review', metadata: { priceSats: 50, paid: false }, tags: ['billing'] },
+      });
+      await store.commit({
+        type: 'agreement',
+        payload: { subject: 'quote', content: 'Price quoted as text', metadata: { priceSats: '9000', note: 'urgent fix' } },
+      });
+      await store.commit({
+        type: 'state',
+        payload: { subject: 'status', content: 'No metadata' },
+      });
+    });
+    
+    it('should filter by tags', async () => {
+      expect(subjects(await store.query({ tags: ['billing'] }))).toEqual(['audit', 'review']);
+      expect(subjects(await store.query({ tags: ['billing', 'security'] }))).toEqual(['audit']);
+      expect(await store.query({ tags: ['missing'] })).toEqual([]);
+    });
+    
+    it('should compare metadata values of the same type', async () => {
+      expect(subjects(await store.query({ where: 'metadata.priceSats >= 100' }))).toEqual(['audit']);
+      expect(subjects(await store.query({ where: "metadata.priceSats = '9000'" }))).toEqual(['quote']);
+      expect(subjects(await store.query({ where: "metadata.client.tier = 'gold'" }))).toEqual(['audit']);
+      expect(subjects(await store.query({ where: 'metadata.paid = false' }))).toEqual(['review']);
+    });
+    
+    it('should match missing paths with !=', async () => {
+      expect(subjects(await store.query({ where: 'metadata.paid != true' }))).toEqual(['quote', 'review', 'status']);
+    });
+    
+    it('should match array elements and substrings with contains', async () => {
+      expect(subjects(await store.query({ where: "metadata.labels contains 'urgent'" }))).toEqual(['audit']);
+      expect(subjects(await store.query({ where: "metadata.note contains 'urgent'" }))).toEqual(['quote']);
+      expect(subjects(await store.query({ where: "tags contains 'security'" }))).toEqual(['audit']);
+    });
+    
+    it('should combine filters with the rest of the query', async () => {
+      expect(subjects(await store.query({
+        type: 'agreement',
+        tags: ['billing'],
+        where: [{ path: 'metadata.priceSats', op: '<', value: 100 }],
+      }))).toEqual(['review']);
+      expect((await store.search('audit', { where: 'metadata.priceSats < 100' }))).toEqual([]);
+      await expect(store.query({ where: 'metadata.priceSats >> 1' })).rejects.toThrow('Invalid filter');
+    });
+    
+    it('should keep tags readable on encrypted commitments', async () => {
+      await store.commit({
+        type: 'agreement',
+        payload: { subject: 'secret', content: 'Hidden', metadata: { priceSats: 10 }, tags: ['billing'] },
+        recipients: [generateKeyPair().publicKey],
+      });
+      
+      expect(subjects(await store.query({ tags: ['billing'] }))).toEqual(['audit', 'review', 'secret']);
+      expect(subjects(await store.query({ where: 'metadata.priceSats = 10' }))).toEqual([]);
+    });
+    
+    it('should reject invalid tags', async () => {
+      const commit = (tags: unknown) => store.commit({
+        type: 'state',
+        payload: { subject: 's', content: 'c', tags: tags as string[] },
+      });
+      
+      await expect(commit('billing')).rejects.toThrow('array of strings');
+      await expect(commit([''])).rejects.toThrow('non-empty');
+      await expect(commit(['a', 'a'])).rejects.toThrow('Duplicate tag');
+    });
+    
+    it('should index metadata paths', async () => {
+      expect(await store.getMetadataIndexes()).toEqual([]);
+      expect(await store.indexMetadata('metadata.priceSats')).toBe(true);
+      expect(await store.indexMetadata('metadata.priceSats')).toBe(false);
+      expect(await store.getMetadataIndexes()).toEqual(['metadata.priceSats']);
+      await expect(store.indexMetadata('priceSats')).rejects.toThrow('Invalid filter path');
+      
+      // Queries still return the same results through the index
+      expect(subjects(await store.query({ where: 'metadata.priceSats >= 100' }))).toEqual(['audit']);
+      
+      expect(await store.dropMetadataIndex('metadata.priceSats')).toBe(true);
+      expect(await store.dropMetadataIndex('metadata.priceSats')).toBe(false);
+    });
+    
+    it('should leave the built-in schema index alone', async () => {
+      expect(await store.indexMetadata('metadata.schema')).toBe(false);
+      await expect(store.dropMetadataIndex('metadata.schema')).rejects.toThrow('built-in index');
+      
+      const sqlite = new Database(join(tempDir, 'anchors.db'), { readonly: true });
+      const indexes = sqlite.prepare("SELECT name FROM sqlite_master WHERE name = 'idx_metadata.schema'").all();
+      sqlite.close();
+      expect(indexes).toHaveLength(1);
+    });
+    
+    it('should create indexes requested when opening', async () => {
+      store.close();
+      store = await AnchorStore.open(tempDir, { metadataIndexes: ['metadata.client.tier'] });
+      
+      expect(await store.getMetadataIndexes()).toContain('metadata.client.tier');
+      await expect(AnchorStore.open(tempDir, { metadataIndexes: ['client'] })).rejects.toThrow('Invalid filter path');
+    });
+  });
+  
+  describe('schemas', () => {
+    const service = {
+      priceSats: 4200,
+      deadline: Date.parse('2025-01-01T00:00:00Z'),
+      deliverable: 'Review PR #42',
+    };
+    
+    it('should validate metadata and record the schema ID', async () => {
+      const c = await store.commit({
+        type: 'agreement',
+        payload: { subject: 'code-review', content: 'Review PR #42', metadata: service },
+        schema: 'agreement/service-v1',
+      });
+      
+      expect(c.payload.metadata).toEqual({ ...service, schema: 'agreement/service-v1' });
+      expect((await store.query({ schema: 'agreement/service-v1' })).map(q => q.id)).toEqual([c.id]);
+    });
+    
+    it('should reject metadata that does not match', async () => {
+      await expect(store.commit({
+        type: 'agreement',
+        payload: { subject: 'code-review', content: 'Review', metadata: { priceSats: 'lots' } },
+        schema: 'agreement/service-v1',
+      })).rejects.toThrow('priceSats must be a number; deadline is required; deliverable is required');
+      
+      await expect(store.commit({
+        type: 'state',
+        payload: { subject: 's', content: 'c', metadata: service },
+        schema: 'agreement/service-v1',
+      })).rejects.toThrow('for agreement commitments');
+      
+      await expect(store.commit({
+        type: 'agreement',
+        payload: { subject: 's', content: 'c' },
+        schema: 'agreement/unknown-v1',
+      })).rejects.toThrow('Unknown schema');
+      
+      expect(await store.count()).toBe(0);
+    });
+    
+    it('should persist registered schemas', async () => {
+      store.registerSchema({
+        id: 'attestation/skill-v1',
+        type: 'attestation',
+        description: 'A skill the agent claims',
+        fields: { skill: { type: 'string', label: 'Skill', required: true } },
+      });
+      store.close();
+      
+      store = await AnchorStore.open(tempDir);
+      expect(store.listSchemas().map(s => s.id)).toEqual(['agreement/service-v1', 'attestation/skill-v1']);
+      
+      const c = await store.commit({
+        type: 'attestation',
+        payload: { subject: 'skills', content: 'I review code', metadata: { skill: 'code-review' } },
+        schema: 'attestation/skill-v1',
+      });
+      expect(c.payload.metadata?.schema).toBe('attestation/skill-v1');
+    });
+  });
+  
+  describe('attachments', () => {
+    const commitWith = async (text: string) => {
+      const ref = await store.addAttachment(text, { name: 'review.diff', mediaType: 'text/x-diff' });
+      return store.commit({
+        type: 'attestation',
+        payload: { subject: 'code-review', content: 'Reviewed PR #42', attachments: [ref] },
+      });
+    };
+    
+    it('should commit to attachments by hash and size', async () => {
+      const c = await commitWith('+ fixed the bug');
+      const [ref] = c.payload.attachments!;
+      
+      expect(ref).toMatchObject({ size: 15, name: 'review.diff', mediaType: 'text/x-diff' });
+      expect(new TextDecoder().decode((await store.getAttachment(ref.hash))!)).toBe('+ fixed the bug');
+    });
+    
+    it('should reject references to unknown or mis-sized blobs', async () => {
+      const ref = await store.addAttachment('data');
+      const commit = (attachments: typeof ref[]) => store.commit({
+        type: 'state',
+        payload: { subject: 's', content: 'c', attachments },
+      });
+      
+      await expect(commit([{ hash: 'ab'.repeat(32), size: 4 }])).rejects.toThrow('Attachment not found');
+      await expect(commit([{ ...ref, size: 5 }])).rejects.toThrow('is 4 bytes, not 5');
+      await expect(commit([{ hash: 'nothex', size: 4 }])).rejects.toThrow('Invalid attachment hash');
+    });
+    
+    it('should bundle attachments in proofs for verifiers to check', async () => {
+      const c = await commitWith('+ fixed the bug');
+      await store.recordAnchor('txid_1');
+      
+      const plain = await store.prove(c.id);
+      expect(plain!.attachments).toBeUndefined();
+      
+      const proof = (await store.prove(c.id, { attachments: true }))!;
+      expect(Object.keys(proof.attachments!)).toEqual([c.payload.attachments![0].hash]);
+      expect(await AnchorStore.verify(proof, store.getPublicKey())).toBe(true);
+      
+      const tampered = structuredClone(proof);
+      tampered.attachments![c.payload.attachments![0].hash] = Buffer.from('+ added a bug').toString('base64');
+      expect(await AnchorStore.verifyInclusion(tampered)).toBe(false);
+      
+      const missing = structuredClone(proof);
+      missing.attachments = {};
+      expect(await AnchorStore.verifyInclusion(missing)).toBe(false);
+    });
+    
+    it('should collect only unreferenced blobs', async () => {
+      const c = await commitWith('+ fixed the bug');
+      const orphan = await store.addAttachment('never committed');
+      
+      expect(await store.gcAttachments()).toEqual({ removed: [], freedBytes: 0 });
+      
+      const result = await store.gcAttachments({ minAgeMs: 0 });
+      expect(result).toEqual({ removed: [orphan.hash], freedBytes: orphan.size });
+      expect(await store.getAttachment(orphan.hash)).toBeNull();
+      expect(await store.getAttachment(c.payload.attachments![0].hash)).not.toBeNull();
+    });
+    
+    it('should keep attachment references readable in encrypted commitments', async () => {
+      const ref = await store.addAttachment('invoice');
+      const c = await store.commit({
+        type: 'agreement',
+        payload: { subject: 'invoice', content: 'Pay 4200 sats', attachments: [ref] },
+        recipients: [generateKeyPair().publicKey],
+      });
+      
+      expect(c.payload.attachments).toEqual([ref]);
+      expect((await store.decrypt(c.id)).attachments).toEqual([ref]);
+      expect((await store.gcAttachments({ minAgeMs: 0 })).removed).toEqual([]);
+    });
+  });
+  
+  describe('selective disclosure', () => {
+    const commitSalted = () => store.commit({
+      type: 'agreement',
+      payload: {
+        subject: 'code-review',
+        content: 'Review PR #42',
+        counterparty: 'peer_A',
+        metadata: { priceSats: 4200 },
+      },
+      salted: true,
+    });
+    
+    it('should still prove and verify the full commitment', async () => {
+      const c = await commitSalted();
+      await store.recordAnchor('txid_1');
+      
+      expect(Object.keys(c.salts!).sort()).toEqual(['content', 'counterparty', 'metadata', 'subject']);
+      
+      const proof = await store.prove(c.id);
+      expect(await AnchorStore.verify(proof!, store.getPublicKey())).toBe(true);
+    });
+    
+    it('should reject fields added to or removed from a full proof', async () => {
+      const c = await store.commit({
+        type: 'agreement',
+        payload: { subject: 'code-review', content: 'Review PR #42' },
+        salted: true,
+      });
+      await store.recordAnchor('txid_1');
+      const proof = (await store.prove(c.id))!;
+      
+      const priced = structuredClone(proof);
+      priced.commitment.payload.metadata = { priceSats: 1 };
+      const redirected = structuredClone(proof);
+      redirected.commitment.payload.counterparty = 'mallory';
+      const unsalted = structuredClone(proof);
+      unsalted.commitment.salts!.counterparty = c.salts!.subject;
+      
+      for (const tampered of [priced, redirected, unsalted]) {
+        expect(await AnchorStore.verifyInclusion(tampered)).toBe(false);
+        expect(await AnchorStore.verify(tampered, store.getPublicKey())).toBe(false);
+      }
+    });
+    
+    it('should reveal only the chosen fields', async () => {
+      const c = await commitSalted();
+      await store.recordAnchor('txid_1');
+      
+      const proof = await store.proveRedacted(c.id, ['subject', 'counterparty']);
+      
+      expect(proof!.commitment.payload).toEqual({ subject: 'code-review', counterparty: 'peer_A' });
+      expect(Object.keys(proof!.commitment.withheld).sort()).toEqual(['content', 'metadata']);
+      expect(JSON.stringify(proof)).not.toContain('4200');
+      expect(JSON.stringify(proof)).not.toContain(c.salts!.metadata);
+      expect(await AnchorStore.verifyRedacted(proof!, store.getPublicKey())).toBe(true);
+    });
+    
+    it('should reject altered redacted proofs', async () => {
+      const c = await commitSalted();
+      await store.recordAnchor('txid_1');
+      const proof = (await store.proveRedacted(c.id, ['subject', 'counterparty']))!;
+      
+      const altered = structuredClone(proof);
+      altered.commitment.payload.counterparty = 'peer_B';
+      expect(await AnchorStore.verifyRedactedInclusion(altered)).toBe(false);
+      
+      // Claiming a withheld field as disclosed without its real salt
+      const claimed = structuredClone(proof);
+      claimed.commitment.payload.content = 'Review PR #42';
+      claimed.commitment.salts.content = c.salts!.subject;
+      delete claimed.commitment.withheld.content;
+      expect(await AnchorStore.verifyRedactedInclusion(claimed)).toBe(false);
+      
+      // A field both disclosed and withheld
+      const doubled = structuredClone(proof);
+      doubled.commitment.withheld.subject = 'ff'.repeat(32);
+      expect(await AnchorStore.verifyRedactedInclusion(doubled)).toBe(false);
+    });
+    
+    it('should only redact salted commitments', async () => {
+      const plain = await store.commit({ type: 'state', payload: { subject: 's', content: 'c' } });
+      const salted = await commitSalted();
+      await store.recordAnchor('txid_1');
+      
+      await expect(store.proveRedacted(plain.id, ['subject'])).rejects.toThrow('salted');
+      await expect(store.proveRedacted(salted.id, ['price'])).rejects.toThrow('price');
+    });
+  });
+  
+  describe('encryption', () => {
+    const counterparty = generateKeyPair();
+    
+    const commitEncrypted = () => store.commit({
+      type: 'agreement',
+      payload: {
+        subject: 'code-review',
+        content: 'Review PR #42',
+        counterparty: 'peer_A',
+        metadata: { priceSats: 4200 },
+      },
+      recipients: [counterparty.publicKey],
+    });
+    
+    it('should commit only the ciphertext', async () => {
+      const c = await commitEncrypted();
+      
+      expect(c.payload.subject).toBe('code-review');
+      expect(c.payload.counterparty).toBe('peer_A');
+      expect(JSON.stringify(c)).not.toContain('Review PR #42');
+      expect(JSON.stringify(c)).not.toContain('4200');
+    });
+    
+    it('should decrypt for this store and the recipients', async () => {
+      const c = await commitEncrypted();
+      const expected = {
+        subject: 'code-review',
+        content: 'Review PR #42',
+        counterparty: 'peer_A',
+        metadata: { priceSats: 4200 },
+      };
+      
+      expect(await store.decrypt(c.id)).toEqual(expected);
+      expect(AnchorStore.decryptPayload(c.payload, counterparty.privateKey)).toEqual(expected);
+      expect(() => AnchorStore.decryptPayload(c.payload, generateKeyPair().privateKey))
+        .toThrow('not a recipient');
+    });
+    
+    it('should verify proofs against the ciphertext', async () => {
+      const c = await commitEncrypted();
+      await store.recordAnchor('txid_1');
+      
+      const proof = await store.prove(c.id);
+      expect(JSON.stringify(proof)).not.toContain('Review PR #42');
+      expect(await AnchorStore.verify(proof!, store.getPublicKey())).toBe(true);
+      expect(AnchorStore.decryptPayload(proof!.commitment.payload, counterparty.privateKey).content)
+        .toBe('Review PR #42');
+    });
+    
+    it('should keep the supersedes link readable', async () => {
+      const original = await commitEncrypted();
+      const amended = await store.commit({
+        type: 'agreement',
+        payload: { subject: 'code-review', content: 'Review PR #43' },
+        supersedes: original.id,
+        recipients: [counterparty.publicKey],
+      });
+      
+      expect(amended.payload.metadata?.supersedes).toBe(original.id);
+      expect((await store.decrypt(amended.id)).metadata).toEqual({
+        supersedes: original.id,
+        supersededLeafHash: original.leafHash,
+      });
+    });
+    
+    it('should reject plaintext commitments and forged envelopes', async () => {
+      const plain = await store.commit({ type: 'state', payload: { subject: 's', content: 'c' } });
+      await expect(store.decrypt(plain.id)).rejects.toThrow('not encrypted');
+      
+      await expect(store.commit({
+        type: 'state',
+        payload: { subject: 's', content: 'c', metadata: { encryption: {} } },
+      })).rejects.toThrow('recipients');
+      await expect(store.commit({
+        type: 'state',
+        payload: { subject: 's', content: 'c' },
+        recipients: ['02' + 'ff'.repeat(32)],
+      })).rejects.toThrow('Invalid public key');
+    });
+  });
+  
+  describe('co-signing', () => {
+    let otherDir: string;
+    let other: AnchorStore;
+    
+    beforeEach(async () => {
+      otherDir = mkdtempSync(join(tmpdir(), 'bsv-anchors-test-'));
+      other = await AnchorStore.open(otherDir);
+    });
+    
+    afterEach(() => {
+      other.close();
+      rmSync(otherDir, { recursive: true, force: true });
+    });
+    
+    const propose = () => store.propose({
+      type: 'agreement',
+      payload: { subject: 'code-review', content: '100 sats', counterparty: 'peer_B' },
+    });
+    
+    // A proposal built by hand, so it can carry metadata prepare() rejects
+    const forge = (metadata: Record<string, unknown>): CommitmentProposal => {
+      const mallory = generateKeyPair();
+      const unsigned = {
+        id: 'commit_forged',
+        type: 'agreement' as const,
+        payload: { subject: 'code-review', content: '1 sat', metadata },
+        timestamp: Date.now(),
+        signature: '',
+      };
+      const signature = sign(canonicalizeCommitment(unsigned), mallory.privateKey);
+      return { ...unsigned, signature, signers: [{ publicKey: mallory.publicKey, signature }] };
+    };
+    
+    it('should not store a proposal until it is co-signed', async () => {
+      const proposal = await propose();
+      expect(await store.count()).toBe(0);
+      
+      const cosigned = await other.cosign(proposal);
+      const recorded = await store.recordCosigned(cosigned);
+      
+      expect(recorded.leafHash).toBe(cosigned.leafHash);
+      expect(recorded.signature).toBe(proposal.signature);
+      expect(await store.count()).toBe(1);
+    });
+    
+    it('should check every signature', async () => {
+      const cosigned = await other.cosign(await propose());
+      await other.recordAnchor('txid_1');
+      const proof = (await other.prove(cosigned.id))!;
+      
+      expect(await AnchorStore.verify(proof, store.getPublicKey())).toBe(true);
+      expect(await AnchorStore.verify(proof, other.getPublicKey())).toBe(true);
+      
+      // A forged counter-signature fails even when the proposer's is valid
+      const forged = structuredClone(proof);
+      forged.commitment.signers![1].signature = proof.commitment.signature;
+      expect(await AnchorStore.verify(forged, store.getPublicKey())).toBe(false);
+      
+      // A key that did not sign is rejected
+      expect(await AnchorStore.verify(proof, generateKeyPair().publicKey)).toBe(false);
+    });
+    
+    it('should reject bad proposals and acceptances', async () => {
+      const proposal = await propose();
+      
+      await expect(store.cosign(proposal)).rejects.toThrow('own proposal');
+      await expect(other.cosign({
+        ...proposal,
+        payload: { ...proposal.payload, content: '1 sat' },
+      })).rejects.toThrow('Invalid proposer signature');
+      
+      const cosigned = await other.cosign(proposal);
+      await expect(other.cosign(proposal)).rejects.toThrow('already stored');
+      await expect(other.recordCosigned(cosigned)).rejects.toThrow('not proposed by this store');
+      await expect(store.recordCosigned({
+        ...cosigned,
+        payload: { ...cosigned.payload, content: '1 sat' },
+      })).rejects.toThrow('Invalid co-signed');
+    });
+    
+    it('should reject proposals with hostile link metadata', async () => {
+      const ours = await other.commit({ type: 'agreement', payload: { subject: 'hosting', content: '50 sats' } });
+      
+      await expect(other.cosign(forge({ supersedes: ours.id, supersededLeafHash: ours.leafHash })))
+        .rejects.toThrow('not signed by the proposer');
+      await expect(other.cosign(forge({ supersedes: ours.id }))).rejects.toThrow('invalid supersedes link');
+      await expect(other.cosign(forge({ dueAt: 'tomorrow' }))).rejects.toThrow('dueAt');
+      await expect(other.cosign(forge({ encryption: { scheme: 'none' } }))).rejects.toThrow('encryption envelope');
+      await expect(other.cosign(forge({ schema: 'agreement/unknown' }))).rejects.toThrow('Unknown schema');
+      await expect(other.cosign(forge({ schema: 'agreement/service-v1', bogus: 1 }))).rejects.toThrow('bogus');
+      
+      // Our commitment is still the latest version, and we can amend it
+      expect((await other.query({ latestOnly: true })).map(c => c.id)).toEqual([ours.id]);
+      await other.commit({ type: 'agreement', payload: { subject: 'hosting', content: '60 sats' }, supersedes: ours.id });
+    });
+    
+    it('should co-sign an amendment of a commitment both parties signed', async () => {
+      const v1 = await other.cosign(await propose());
+      await store.recordCosigned(v1);
+      
+      const v2 = await store.propose({
+        type: 'agreement',
+        payload: { subject: 'code-review', content: '150 sats', counterparty: 'peer_B' },
+        supersedes: v1.id,
+      });
+      const cosigned = await other.cosign(v2);
+      expect(cosigned.payload.metadata?.supersedes).toBe(v1.id);
+      expect((await other.query({ latestOnly: true })).map(c => c.id)).toEqual([v2.id]);
+    });
+  });
+  
+  describe('group commitments', () => {
+    let dirs: string[];
+    let b: AnchorStore;
+    let c: AnchorStore;
+    let outsider: string;
+    let participants: string[];
+    
+    beforeEach(async () => {
+      dirs = [0, 1].map(() => mkdtempSync(join(tmpdir(), 'bsv-anchors-test-')));
+      b = await AnchorStore.open(dirs[0]);
+      c = await AnchorStore.open(dirs[1]);
+      outsider = generateKeyPair().publicKey;
+      participants = [store.getPublicKey(), b.getPublicKey(), c.getPublicKey(), generateKeyPair().publicKey];
+    });
+    
+    afterEach(() => {
+      b.close();
+      c.close();
+      dirs.forEach(dir => rmSync(dir, { recursive: true, force: true }));
+    });
+    
+    const proposeGroup = () => store.proposeGroup(
+      { type: 'agreement', payload: { subject: 'release-plan', content: 'Ship v2 on Friday' } },
+      { participants, threshold: 3 }
+    );
+    
+    it('should stay pending until the threshold is met', async () => {
+      const proposal = await proposeGroup();
+      expect(await store.count()).toBe(0);
+      
+      expect(await store.addSignature(proposal.id, b.signProposal(proposal))).toBeNull();
+      
+      // Pending signatures survive a reopen
+      store.close();
+      store = await AnchorStore.open(tempDir);
+      const pending = await store.listPending();
+      expect(pending.map(p => p.signers.length)).toEqual([2]);
+      
+      const commitment = await store.addSignature(proposal.id, c.signProposal(proposal));
+      expect(commitment!.group).toEqual({ participants, threshold: 3 });
+      expect(commitment!.signers).toHaveLength(3);
+      expect(await store.count()).toBe(1);
+      expect(await store.getPending(proposal.id)).toBeNull();
+    });
+    
+    it('should store the commitment and clear the proposal together', async () => {
+      const proposal = await proposeGroup();
+      await store.addSignature(proposal.id, b.signProposal(proposal));
+      
+      const failure = vi.spyOn(AnchorDatabase.prototype, 'deletePendingCommitment')
+        .mockImplementationOnce(() => { throw new Error('disk I/O error'); });
+      await expect(store.addSignature(proposal.id, c.signProposal(proposal))).rejects.toThrow('disk I/O error');
+      failure.mockRestore();
+      
+      store.close();
+      store = await AnchorStore.open(tempDir);
+      expect(await store.count()).toBe(0);
+      expect((await store.getPending(proposal.id))!.signers).toHaveLength(2);
+    });
+    
+    it('should verify quorum against the listed keys', async () => {
+      const proposal = await proposeGroup();
+      await store.addSignature(proposal.id, b.signProposal(proposal));
+      const commitment = await store.addSignature(proposal.id, c.signProposal(proposal));
+      await store.recordAnchor('txid_1');
+      const proof = (await store.prove(commitment!.id))!;
+      
+      // Any participant's key, including one that did not sign
+      for (const key of participants) {
+        expect(await AnchorStore.verify(proof, key)).toBe(true);
+      }
+      expect(await AnchorStore.verify(proof, outsider)).toBe(false);
+      
+      // Anchored as-is, without enough distinct signers: inclusion holds
+      // but the signatures do not
+      const reanchor = (signers: CommitmentSignature[]) => {
+        const forged = structuredClone(proof);
+        forged.commitment.signers = signers;
+        const tree = new MerkleTree();
+        tree.addLeaf(canonicalizeCommitment(forged.commitment));
+        forged.merkleProof = tree.generateProof(0)!;
+        forged.anchor = { ...forged.anchor, rootHash: tree.getRoot()!, commitmentCount: 1 };
+        return forged;
+      };
+      const [s1, s2] = proof.commitment.signers!;
+      
+      for (const forged of [reanchor([s1, s2]), reanchor([s1, s2, s2])]) {
+        expect(await AnchorStore.verifyInclusion(forged)).toBe(true);
+        expect(await AnchorStore.verify(forged, store.getPublicKey())).toBe(false);
+      }
+    });
+    
+    it('should reject invalid policies and signatures', async () => {
+      const input = { type: 'agreement' as const, payload: { subject: 's', content: 'c' } };
+      await expect(store.proposeGroup(input, { participants, threshold: 1 })).rejects.toThrow('threshold');
+      await expect(store.proposeGroup(input, { participants, threshold: 5 })).rejects.toThrow('threshold');
+      await expect(store.proposeGroup(input, {
+        participants: [participants[0], participants[0]],
+        threshold: 2,
+      })).rejects.toThrow('unique');
+      await expect(store.proposeGroup(input, {
+        participants: participants.slice(1),
+        threshold: 2,
+      })).rejects.toThrow('must be a group participant');
+      
+      const proposal = await proposeGroup();
+      const fromB = b.signProposal(proposal);
+      
+      await expect(store.addSignature(proposal.id, { ...fromB, publicKey: outsider })).rejects.toThrow('not a group participant');
+      await expect(store.addSignature(proposal.id, { ...fromB, publicKey: c.getPublicKey() })).rejects.toThrow('Invalid participant signature');
+      await store.addSignature(proposal.id, fromB);
+      await expect(store.addSignature(proposal.id, fromB)).rejects.toThrow('already signed');
+      
+      expect(() => c.signProposal({ ...proposal, payload: { ...proposal.payload, content: 'Changed' } }))
+        .toThrow('Invalid proposer signature');
+    });
+    
+    it('should check link metadata when signing and completing', async () => {
+      // A participant won't sign an amendment of its commitment by someone else
+      const theirs = await b.commit({ type: 'agreement', payload: { subject: 'release-plan', content: 'Ship v1' } });
+      const mallory = generateKeyPair();
+      const unsigned = {
+        id: 'commit_forged',
+        type: 'agreement' as const,
+        payload: {
+          subject: 'release-plan',
+          content: 'Cancel the release',
+          metadata: { supersedes: theirs.id, supersededLeafHash: theirs.leafHash },
+        },
+        timestamp: Date.now(),
+        signature: '',
+        group: { participants: [mallory.publicKey, b.getPublicKey(), c.getPublicKey()], threshold: 2 },
+      };
+      const signature = sign(canonicalizeCommitment(unsigned), mallory.privateKey);
+      const hostile = { ...unsigned, signature, signers: [{ publicKey: mallory.publicKey, signature }] };
+      expect(() => b.signProposal(hostile)).toThrow('not signed by the proposer');
+      
+      // An amendment superseded while signatures were collected can't complete
+      const v1 = await store.commit({ type: 'agreement', payload: { subject: 'release-plan', content: 'Ship v1' } });
+      const v2 = await store.proposeGroup(
+        { type: 'agreement', payload: { subject: 'release-plan', content: 'Ship v2' }, supersedes: v1.id },
+        { participants, threshold: 3 }
+      );
+      await store.addSignature(v2.id, b.signProposal(v2));
+      await store.commit({ type: 'agreement', payload: { subject: 'release-plan', content: 'Ship v3' }, supersedes: v1.id });
+      await expect(store.addSignature(v2.id, c.signProposal(v2))).rejects.toThrow('already superseded');
+      expect(await store.getPending(v2.id)).not.toBeNull();
+    });
+  });
+  
   describe('prove', () => {
     it('should return null for non-existent commitment', async () => {
       const proof = await store.prove('nonexistent_id');
@@ -229,27 +1216,134 @@ describe('AnchorStore', () => {
         payload: { subject: 'test', content: 'Test' },
       });
       
-      await store.recordAnchor('fake_txid_' + Date.now().toString(16));
+      await store.recordAnchor('fake_txid_' + Date.now().toString(16));
+      
+      const proof = await store.prove(commitment.id);
+      const publicKey = store.getPublicKey();
+      const isValid = await AnchorStore.verify(proof!, publicKey);
+      
+      expect(isValid).toBe(true);
+    });
+    
+    it('should verify inclusion without signature', async () => {
+      const commitment = await store.commit({
+        type: 'agreement',
+        payload: { subject: 'test', content: 'Test' },
+      });
+      
+      await store.recordAnchor('fake_txid_' + Date.now().toString(16));
+      
+      const proof = await store.prove(commitment.id);
+      const isValid = await AnchorStore.verifyInclusion(proof!);
+      
+      expect(isValid).toBe(true);
+    });
+    
+    it('should prove against the anchored root after later commits', async () => {
+      const commitment = await store.commit({
+        type: 'agreement',
+        payload: { subject: 'test', content: 'Test' },
+      });
+      
+      const anchor = await store.recordAnchor('txid_1');
+      
+      for (let i = 0; i < 3; i++) {
+        await store.commit({
+          type: 'state',
+          payload: { subject: `later ${i}`, content: 'Later' },
+        });
+      }
+      
+      const proof = await store.prove(commitment.id);
+      
+      expect(proof!.merkleProof.rootHash).toBe(anchor.rootHash);
+      expect(proof!.anchor.rootHash).toBe(anchor.rootHash);
+      expect(proof!.anchor.commitmentCount).toBe(1);
+      expect(await AnchorStore.verify(proof!, store.getPublicKey())).toBe(true);
+    });
+    
+    it('should reject proof whose root does not match the anchor', async () => {
+      const commitment = await store.commit({
+        type: 'agreement',
+        payload: { subject: 'test', content: 'Test' },
+      });
+      
+      await store.recordAnchor('txid_1');
+      
+      const proof = await store.prove(commitment.id);
+      proof!.anchor.rootHash = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+      
+      expect(await AnchorStore.verifyInclusion(proof!)).toBe(false);
+    });
+    
+    it('should prove several commitments in one batch', async () => {
+      const ids: string[] = [];
+      for (let i = 0; i < 4; i++) {
+        const c = await store.commit({
+          type: 'agreement',
+          payload: { subject: `test ${i}`, content: `Content ${i}` },
+        });
+        ids.push(c.id);
+      }
+      
+      await store.recordAnchor('txid_1');
+      await store.commit({
+        type: 'state',
+        payload: { subject: 'later', content: 'Later' },
+      });
+      
+      const batch = await store.proveBatch([ids[3], ids[0], ids[2]]);
       
-      const proof = await store.prove(commitment.id);
-      const publicKey = store.getPublicKey();
-      const isValid = await AnchorStore.verify(proof!, publicKey);
+      expect(batch).not.toBeNull();
+      expect(batch!.commitments.map(c => c.id)).toEqual([ids[0], ids[2], ids[3]]);
+      expect(batch!.multiProof.rootHash).toBe(batch!.anchor.rootHash);
+      expect(await AnchorStore.verifyBatch(batch!, store.getPublicKey())).toBe(true);
       
-      expect(isValid).toBe(true);
+      batch!.commitments[1].payload.content = 'Altered';
+      expect(await AnchorStore.verifyBatchInclusion(batch!)).toBe(false);
     });
     
-    it('should verify inclusion without signature', async () => {
-      const commitment = await store.commit({
+    it('should not batch unanchored commitments', async () => {
+      const c = await store.commit({
         type: 'agreement',
         payload: { subject: 'test', content: 'Test' },
       });
       
-      await store.recordAnchor('fake_txid_' + Date.now().toString(16));
+      expect(await store.proveBatch([c.id])).toBeNull();
+      expect(await store.proveBatch([])).toBeNull();
+    });
+    
+    it('should prove everything committed between two anchors', async () => {
+      for (let i = 0; i < 3; i++) {
+        await store.commit({
+          type: 'agreement',
+          payload: { subject: `before ${i}`, content: `Content ${i}` },
+        });
+      }
+      const first = await store.recordAnchor('txid_1');
       
-      const proof = await store.prove(commitment.id);
-      const isValid = await AnchorStore.verifyInclusion(proof!);
+      for (let i = 0; i < 4; i++) {
+        await store.commit({
+          type: 'agreement',
+          payload: { subject: `between ${i}`, content: `Content ${i}` },
+        });
+      }
+      const second = await store.recordAnchor('txid_2');
       
-      expect(isValid).toBe(true);
+      const range = await store.proveRange(first.commitmentCount, second.commitmentCount);
+      
+      expect(range).not.toBeNull();
+      expect(range!.anchor.txid).toBe('txid_2');
+      expect(range!.commitments.map(c => c.payload.subject)).toEqual([
+        'between 0', 'between 1', 'between 2', 'between 3',
+      ]);
+      expect(await AnchorStore.verifyRange(range!, store.getPublicKey())).toBe(true);
+      
+      // Leaving a commitment out breaks the proof
+      const partial = { ...range!, commitments: range!.commitments.slice(1) };
+      expect(await AnchorStore.verifyRangeInclusion(partial)).toBe(false);
+      
+      expect(await store.proveRange(5, 9)).toBeNull();
     });
     
     it('should reject proof with wrong public key', async () => {
@@ -304,6 +1398,44 @@ describe('AnchorStore', () => {
       expect(anchor2.commitmentCount).toBe(2);
     });
     
+    it('should prove consistency between anchors', async () => {
+      await store.commit({
+        type: 'agreement',
+        payload: { subject: 'test 1', content: 'Test 1' },
+      });
+      await store.recordAnchor('txid_1');
+      
+      for (let i = 0; i < 4; i++) {
+        await store.commit({
+          type: 'agreement',
+          payload: { subject: `test ${i + 2}`, content: 'More' },
+        });
+      }
+      await store.recordAnchor('txid_2');
+      
+      const proof = await store.proveConsistency(0, 1);
+      
+      expect(proof).not.toBeNull();
+      expect(proof!.fromAnchor.txid).toBe('txid_1');
+      expect(proof!.toAnchor.txid).toBe('txid_2');
+      expect(await AnchorStore.verifyConsistency(proof!)).toBe(true);
+      
+      // Swapping in a different root must fail
+      proof!.toAnchor.rootHash = proof!.fromAnchor.rootHash;
+      expect(await AnchorStore.verifyConsistency(proof!)).toBe(false);
+    });
+    
+    it('should return null for unknown or reversed anchors', async () => {
+      await store.commit({
+        type: 'agreement',
+        payload: { subject: 'test', content: 'Test' },
+      });
+      await store.recordAnchor('txid_1');
+      
+      expect(await store.proveConsistency(0, 5)).toBeNull();
+      expect(await store.proveConsistency(1, 0)).toBeNull();
+    });
+    
     it('should track unanchored count', async () => {
       expect(await store.getUnanchoredCount()).toBe(0);
       
@@ -382,6 +1514,497 @@ describe('AnchorStore', () => {
     });
   });
   
+  describe('sparse index', () => {
+    let sparseDir: string;
+    let sparseStore: AnchorStore;
+    
+    beforeEach(async () => {
+      sparseDir = mkdtempSync(join(tmpdir(), 'bsv-anchors-test-'));
+      sparseStore = await AnchorStore.open(sparseDir, { sparseIndex: true });
+    });
+    
+    afterEach(() => {
+      sparseStore.close();
+      rmSync(sparseDir, { recursive: true, force: true });
+    });
+    
+    it('should anchor a sparse root next to the Merkle root', async () => {
+      await sparseStore.commit({
+        type: 'agreement',
+        payload: { subject: 'code-review', content: 'Review', counterparty: 'peer_A' },
+      });
+      
+      const payload = await sparseStore.buildAnchorPayload();
+      const anchor = await sparseStore.recordAnchor('txid_1');
+      const parsed = parseAnchorPayload(payload);
+      
+      expect(payload.length).toBe(111);
+      expect(parsed.valid).toBe(true);
+      expect(parsed.sparseRoot).toBe(anchor.sparseRoot);
+    });
+    
+    it('should prove an agreement was absent at an earlier anchor', async () => {
+      await sparseStore.commit({
+        type: 'agreement',
+        payload: { subject: 'other', content: 'Other', counterparty: 'peer_A' },
+      });
+      await sparseStore.recordAnchor('txid_1');
+      
+      await sparseStore.commit({
+        type: 'agreement',
+        payload: { subject: 'code-review', content: 'Review', counterparty: 'peer_A' },
+      });
+      await sparseStore.recordAnchor('txid_2');
+      
+      const before = await sparseStore.proveAgreementKey('peer_A', 'code-review', 0);
+      const after = await sparseStore.proveAgreementKey('peer_A', 'code-review', 1);
+      
+      expect(before!.sparseProof.value).toBeNull();
+      expect(await AnchorStore.verifySparse(before!)).toBe(true);
+      expect(after!.sparseProof.value).not.toBeNull();
+      expect(await AnchorStore.verifySparse(after!)).toBe(true);
+      
+      // A non-membership claim against the later anchor must fail
+      const forged = { ...after!, sparseProof: { ...after!.sparseProof, value: null } };
+      expect(await AnchorStore.verifySparse(forged)).toBe(false);
+    });
+    
+    it('should prove commitment IDs by key', async () => {
+      const c = await sparseStore.commit({
+        type: 'state',
+        payload: { subject: 'state', content: 'State' },
+      });
+      await sparseStore.recordAnchor('txid_1');
+      
+      const proof = await sparseStore.proveCommitmentKey(c.id);
+      
+      expect(proof!.sparseProof.value).toBe(c.leafHash);
+      expect(await AnchorStore.verifySparse(proof!)).toBe(true);
+    });
+    
+    it('should prove a commitment was not revoked as of the latest anchor', async () => {
+      const c = await sparseStore.commit({
+        type: 'agreement',
+        payload: { subject: 'code-review', content: 'Review', counterparty: 'peer_A' },
+      });
+      await sparseStore.recordAnchor('txid_1');
+      
+      const proof = await sparseStore.prove(c.id, { notRevoked: true });
+      expect(proof!.notRevoked!.sparseProof.value).toBeNull();
+      expect(await AnchorStore.verify(proof!, sparseStore.getPublicKey())).toBe(true);
+      
+      await sparseStore.revoke(c.id, 'Wrong counterparty');
+      await sparseStore.recordAnchor('txid_2');
+      
+      await expect(sparseStore.prove(c.id, { notRevoked: true })).rejects.toThrow('revoked');
+      
+      // The old not-revoked proof cannot be passed off against the newer anchor
+      const latest = await sparseStore.proveRevocationKey(c.id);
+      const forged = {
+        ...proof!,
+        notRevoked: { ...latest!, sparseProof: { ...latest!.sparseProof, value: null } },
+      };
+      expect(await AnchorStore.verifyInclusion(forged)).toBe(false);
+    });
+    
+    it('should return null for anchors without a sparse root', async () => {
+      await store.commit({
+        type: 'agreement',
+        payload: { subject: 'test', content: 'Test' },
+      });
+      await store.recordAnchor('txid_1');
+      
+      expect(await store.proveCommitmentKey('commit_x')).toBeNull();
+    });
+  });
+  
+  describe('tree node persistence', () => {
+    it('should load the tree from stored nodes', async () => {
+      for (let i = 0; i < 6; i++) {
+        await store.commit({
+          type: 'agreement',
+          payload: { subject: `test ${i}`, content: `Content ${i}` },
+        });
+      }
+      
+      const rootBefore = await store.getRoot();
+      store.close();
+      
+      const db = new AnchorDatabase(tempDir);
+      expect(db.getTreeNodes().filter(n => n.level === 0)).toHaveLength(6);
+      db.close();
+      
+      store = await AnchorStore.open(tempDir);
+      expect(await store.getRoot()).toBe(rootBefore);
+    });
+    
+    it('should rebuild when stored nodes are out of date', async () => {
+      for (let i = 0; i < 5; i++) {
+        await store.commit({
+          type: 'agreement',
+          payload: { subject: `test ${i}`, content: `Content ${i}` },
+        });
+      }
+      
+      const rootBefore = await store.getRoot();
+      store.close();
+      
+      const db = new AnchorDatabase(tempDir);
+      db.clearTreeNodes();
+      db.close();
+      
+      store = await AnchorStore.open(tempDir);
+      expect(await store.getRoot()).toBe(rootBefore);
+      
+      await store.commit({
+        type: 'agreement',
+        payload: { subject: 'after rebuild', content: 'More' },
+      });
+      expect((await store.getTreeState()).leafCount).toBe(6);
+    });
+  });
+  
+  describe('audit', () => {
+    const commitSome = async (count: number) => {
+      const commitments = [];
+      for (let i = 0; i < count; i++) {
+        commitments.push(await store.commit({
+          type: 'agreement',
+          payload: { subject: `test ${i}`, content: `Content ${i}` },
+        }));
+      }
+      return commitments;
+    };
+    
+    it('should report nothing for an intact store', async () => {
+      await commitSome(5);
+      await store.recordAnchor('txid_1');
+      
+      const report = await store.audit();
+      
+      expect(report.commitmentCount).toBe(5);
+      expect(report.anchorCount).toBe(1);
+      expect(report.issues).toEqual([]);
+    });
+    
+    it('should detect and repair a wrong leaf hash', async () => {
+      const [, second] = await commitSome(4);
+      await store.recordAnchor('txid_1');
+      store.close();
+      
+      const db = new AnchorDatabase(tempDir);
+      db.updateCommitmentTree(second.id, 'ff'.repeat(32), 1);
+      db.close();
+      
+      store = await AnchorStore.open(tempDir);
+      const report = await store.audit({ repair: true });
+      
+      expect(report.issues).toEqual([
+        expect.objectContaining({ kind: 'leaf_hash', commitmentId: second.id, repairable: true }),
+      ]);
+      expect(report.repaired).toBe(true);
+      expect((await store.get(second.id))!.leafHash).toBe(second.leafHash);
+      expect((await store.audit()).issues).toEqual([]);
+    });
+    
+    it('should report edited commitments against anchored roots', async () => {
+      const [first] = await commitSome(3);
+      await store.recordAnchor('txid_1');
+      store.close();
+      
+      const sqlite = new Database(join(tempDir, 'anchors.db'));
+      sqlite.prepare('UPDATE commitments SET payload = ? WHERE id = ?')
+        .run(JSON.stringify({ subject: 'test 0', content: 'Edited' }), first.id);
+      sqlite.close();
+      
+      store = await AnchorStore.open(tempDir);
+      const report = await store.audit({ repair: true });
+      const kinds = report.issues.map(issue => issue.kind);
+      
+      expect(kinds).toContain('leaf_hash');
+      expect(kinds).toContain('tree_nodes');
+      expect(kinds).toContain('tree_state');
+      expect(report.issues).toContainEqual(
+        expect.objectContaining({ kind: 'anchor_root', anchorIndex: 0, repairable: false })
+      );
+      
+      // Derived tables follow the commitments; the anchor mismatch remains
+      expect(report.repaired).toBe(true);
+      expect((await store.audit()).issues.map(issue => issue.kind)).toEqual(['anchor_root']);
+    });
+    
+    it('should report tampered tree tables without touching them', async () => {
+      await commitSome(4);
+      await store.recordAnchor('txid_1');
+      store.close();
+      
+      const sqlite = new Database(join(tempDir, 'anchors.db'));
+      sqlite.prepare("UPDATE tree_state SET value = ? WHERE key = 'root_hash'").run('ff'.repeat(32));
+      sqlite.prepare('DELETE FROM tree_nodes WHERE level = 0 AND idx = 2').run();
+      sqlite.close();
+      
+      store = await AnchorStore.open(tempDir, { repairTree: false });
+      const report = await store.audit();
+      
+      expect(report.issues).toEqual([
+        expect.objectContaining({ kind: 'tree_nodes', repairable: true }),
+        expect.objectContaining({ kind: 'tree_state', repairable: true }),
+      ]);
+      expect(report.repaired).toBe(false);
+      expect((await store.audit()).issues).toHaveLength(2);
+      
+      // Opened as usual, the tables are rebuilt
+      store.close();
+      store = await AnchorStore.open(tempDir);
+      expect((await store.audit()).issues).toEqual([]);
+    });
+    
+    it('should not repair when tree indices have gaps', async () => {
+      const [, second] = await commitSome(3);
+      store.close();
+      
+      const db = new AnchorDatabase(tempDir);
+      db.updateCommitmentTree(second.id, second.leafHash!, 7);
+      db.close();
+      
+      store = await AnchorStore.open(tempDir);
+      const report = await store.audit({ repair: true });
+      
+      expect(report.issues).toContainEqual(
+        expect.objectContaining({ kind: 'tree_index', commitmentId: second.id })
+      );
+      expect(report.repaired).toBe(false);
+    });
+  });
+  
+  describe('export and import', () => {
+    let importDir: string;
+    
+    const commitSome = async (count: number) => {
+      const commitments = [];
+      for (let i = 0; i < count; i++) {
+        commitments.push(await store.commit({
+          type: 'agreement',
+          payload: { subject: `test ${i}`, content: `Content ${i}`, counterparty: 'peer_A' },
+        }));
+      }
+      return commitments;
+    };
+    
+    beforeEach(() => {
+      importDir = mkdtempSync(join(tmpdir(), 'bsv-anchors-import-'));
+    });
+    
+    afterEach(() => {
+      rmSync(importDir, { recursive: true, force: true });
+    });
+    
+    it('should restore commitments, anchors and the tree', async () => {
+      const [first] = await commitSome(3);
+      await store.recordAnchor('txid_1');
+      await commitSome(2);
+      store.registerSchema({
+        id: 'attestation/review-v1',
+        type: 'attestation',
+        description: 'A code review',
+        fields: { score: { type: 'integer', label: 'Score', required: true } },
+      });
+      
+      const bundle = await store.exportBundle();
+      expect(bundle.key).toBeUndefined();
+      
+      // Bundles travel as JSON files
+      const imported = await AnchorStore.importBundle(JSON.parse(JSON.stringify(bundle)), importDir);
+      
+      expect(await imported.count()).toBe(5);
+      expect(await imported.getRoot()).toBe(await store.getRoot());
+      expect(await imported.listAnchors()).toEqual(await store.listAnchors());
+      expect(imported.getSchema('attestation/review-v1')).not.toBeNull();
+      expect((await imported.audit()).issues).toEqual([]);
+      
+      const proof = await imported.prove(first.id);
+      expect(await AnchorStore.verify(proof!, store.getPublicKey())).toBe(true);
+      
+      // Without the key the new store signs with its own
+      expect(imported.getPublicKey()).not.toBe(store.getPublicKey());
+      imported.close();
+    });
+    
+    it('should carry the key encrypted with a passphrase', async () => {
+      await commitSome(1);
+      const bundle = await store.exportBundle({ passphrase: 'correct horse' });
+      
+      const { privateKey } = JSON.parse(readFileSync(join(tempDir, 'identity-key.json'), 'utf-8'));
+      expect(JSON.stringify(bundle)).not.toContain(privateKey);
+      await expect(AnchorStore.importBundle(bundle, importDir)).rejects.toThrow('passphrase is required');
+      await expect(AnchorStore.importBundle(bundle, importDir, { passphrase: 'wrong' }))
+        .rejects.toThrow('wrong passphrase');
+      
+      const imported = await AnchorStore.importBundle(bundle, importDir, { passphrase: 'correct horse' });
+      expect(imported.getPublicKey()).toBe(store.getPublicKey());
+      imported.close();
+    });
+    
+    it('should reject a tampered bundle or an unexpected signer', async () => {
+      await commitSome(2);
+      const bundle = await store.exportBundle();
+      
+      const tampered = structuredClone(bundle);
+      tampered.commitments[0].payload.content = 'Edited';
+      await expect(AnchorStore.importBundle(tampered, importDir)).rejects.toThrow('signature is invalid');
+      
+      await expect(AnchorStore.importBundle(bundle, importDir, { publicKey: '02' + 'ab'.repeat(32) }))
+        .rejects.toThrow('expected');
+    });
+    
+    it('should reject a bundle re-signed by another key', async () => {
+      await commitSome(2);
+      await store.recordAnchor('txid_1');
+      const bundle = await store.exportBundle();
+      
+      const mallory = generateKeyPair();
+      const resigned = { ...bundle, publicKey: mallory.publicKey };
+      resigned.signature = sign(JSON.stringify(sortObjectKeys({ ...resigned, signature: undefined })), mallory.privateKey);
+      
+      await expect(AnchorStore.importBundle(resigned, importDir)).rejects.toThrow("not signed by the bundle's key");
+    });
+    
+    it('should reject commitments that no longer match an anchor', async () => {
+      const [first] = await commitSome(3);
+      await store.recordAnchor('txid_1');
+      store.close();
+      
+      const sqlite = new Database(join(tempDir, 'anchors.db'));
+      sqlite.prepare('UPDATE commitments SET payload = ? WHERE id = ?')
+        .run(JSON.stringify({ subject: 'test 0', content: 'Edited' }), first.id);
+      sqlite.close();
+      
+      store = await AnchorStore.open(tempDir);
+      const bundle = await store.exportBundle();
+      
+      await expect(AnchorStore.importBundle(bundle, importDir)).rejects.toThrow('Anchor #0 root');
+      
+      // Nothing was written
+      const target = await AnchorStore.open(importDir);
+      expect(await target.count()).toBe(0);
+      target.close();
+    });
+    
+    it('should only import into an empty store', async () => {
+      await commitSome(1);
+      const bundle = await store.exportBundle();
+      
+      await expect(AnchorStore.importBundle(bundle, tempDir)).rejects.toThrow('empty store');
+    });
+    
+    it('should restore the sparse index and attachments', async () => {
+      const sparseStore = await AnchorStore.open(importDir, { sparseIndex: true });
+      const ref = await sparseStore.addAttachment('diff --git a/x b/x', { name: 'change.diff' });
+      await sparseStore.commit({
+        type: 'attestation',
+        payload: { subject: 'review', content: 'Reviewed', counterparty: 'peer_B', attachments: [ref] },
+      });
+      await sparseStore.recordAnchor('txid_1');
+      
+      const bundle = await sparseStore.exportBundle({ attachments: true });
+      sparseStore.close();
+      expect(Object.keys(bundle.attachments!)).toEqual([ref.hash]);
+      
+      const restoreDir = mkdtempSync(join(tmpdir(), 'bsv-anchors-import-'));
+      try {
+        const imported = await AnchorStore.importBundle(bundle, restoreDir);
+        const proof = await imported.proveAgreementKey('peer_B', 'review');
+        
+        expect(proof!.sparseProof.value).not.toBeNull();
+        expect(await AnchorStore.verifySparse(proof!)).toBe(true);
+        expect(new TextDecoder().decode((await imported.getAttachment(ref.hash))!)).toBe('diff --git a/x b/x');
+        imported.close();
+      } finally {
+        rmSync(restoreDir, { recursive: true, force: true });
+      }
+    });
+  });
+  
+  describe('mmr mode', () => {
+    let mmrDir: string;
+    let mmrStore: AnchorStore;
+    
+    beforeEach(async () => {
+      mmrDir = mkdtempSync(join(tmpdir(), 'bsv-anchors-mmr-'));
+      mmrStore = await AnchorStore.open(mmrDir, { treeMode: 'mmr' });
+    });
+    
+    afterEach(() => {
+      mmrStore.close();
+      rmSync(mmrDir, { recursive: true, force: true });
+    });
+    
+    it('should use tree version 2 and persist only peaks', async () => {
+      for (let i = 0; i < 7; i++) {
+        await mmrStore.commit({
+          type: 'agreement',
+          payload: { subject: `test ${i}`, content: `Content ${i}` },
+        });
+      }
+      
+      expect(mmrStore.getTreeMode()).toBe('mmr');
+      expect(mmrStore.getTreeVersion()).toBe(2);
+      
+      const rootBefore = await mmrStore.getRoot();
+      mmrStore.close();
+      
+      const db = new AnchorDatabase(mmrDir);
+      expect(db.getTreeNodes().map(n => n.level).sort()).toEqual([0, 1, 2]);
+      db.close();
+      
+      mmrStore = await AnchorStore.open(mmrDir);
+      expect(mmrStore.getTreeMode()).toBe('mmr');
+      expect(await mmrStore.getRoot()).toBe(rootBefore);
+    });
+    
+    it('should prove against old anchors', async () => {
+      const first = await mmrStore.commit({
+        type: 'agreement',
+        payload: { subject: 'first', content: 'One' },
+      });
+      await mmrStore.commit({
+        type: 'agreement',
+        payload: { subject: 'second', content: 'Two' },
+      });
+      await mmrStore.recordAnchor('txid_1');
+      
+      for (let i = 0; i < 5; i++) {
+        await mmrStore.commit({
+          type: 'agreement',
+          payload: { subject: `later ${i}`, content: `Content ${i}` },
+        });
+      }
+      await mmrStore.recordAnchor('txid_2');
+      
+      const proof = await mmrStore.prove(first.id);
+      expect(proof.anchor.txid).toBe('txid_1');
+      expect(await AnchorStore.verifyInclusion(proof)).toBe(true);
+      
+      const consistency = await mmrStore.proveConsistency(0, 1);
+      expect(await AnchorStore.verifyConsistency(consistency!)).toBe(true);
+    });
+    
+    it('should not switch mode on an existing store', async () => {
+      mmrStore.close();
+      await expect(AnchorStore.open(mmrDir, { treeMode: 'full' })).rejects.toThrow('tree mode mmr');
+      mmrStore = await AnchorStore.open(mmrDir);
+    });
+    
+    it('should reject tree version 1', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'bsv-anchors-mmr-'));
+      try {
+        await expect(AnchorStore.open(dir, { treeMode: 'mmr', treeVersion: 1 })).rejects.toThrow('requires tree version 2');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+  
   describe('buildAnchorPayload', () => {
     it('should build valid OP_RETURN payload', async () => {
       await store.commit({
@@ -402,6 +2025,37 @@ describe('AnchorStore', () => {
       expect(payload[10]).toBe(0x01);
     });
     
+    it('should mark the tree version in the payload', async () => {
+      const v2Dir = mkdtempSync(join(tmpdir(), 'bsv-anchors-test-'));
+      const v2Store = await AnchorStore.open(v2Dir, { treeVersion: 2 });
+      
+      try {
+        await v2Store.commit({
+          type: 'agreement',
+          payload: { subject: 'test', content: 'Test' },
+        });
+        
+        const payload = await v2Store.buildAnchorPayload();
+        expect(payload[10]).toBe(0x02);
+        expect(parseAnchorPayload(payload).version).toBe(2);
+        
+        await v2Store.recordAnchor('txid_v2');
+        const commitments = await v2Store.list();
+        const proof = await v2Store.prove(commitments[0].id);
+        expect(await AnchorStore.verify(proof!, v2Store.getPublicKey())).toBe(true);
+      } finally {
+        v2Store.close();
+      }
+      
+      // Version is fixed when the store is created
+      const reopened = await AnchorStore.open(v2Dir);
+      expect(reopened.getTreeVersion()).toBe(2);
+      reopened.close();
+      
+      await expect(AnchorStore.open(v2Dir, { treeVersion: 1 })).rejects.toThrow('tree version 2');
+      rmSync(v2Dir, { recursive: true, force: true });
+    });
+    
     it('should throw for empty tree', async () => {
       await expect(store.buildAnchorPayload()).rejects.toThrow('empty tree');
     });
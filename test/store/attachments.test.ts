@@ -0,0 +1,61 @@
+/**
+ * Attachment Store Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AttachmentStore, hashAttachment } from '../../src/store/attachments.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('AttachmentStore', () => {
+  let tempDir: string;
+  let attachments: AttachmentStore;
+  
+  const diff = new TextEncoder().encode('--- a/file\n+++ b/file\n');
+  
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'bsv-anchors-attachments-'));
+    attachments = new AttachmentStore(tempDir);
+  });
+  
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+  
+  it('should store blobs under their SHA-256', () => {
+    const { hash, size } = attachments.add(diff);
+    
+    expect(hash).toBe(hashAttachment(diff));
+    expect(size).toBe(diff.length);
+    expect(attachments.get(hash)).toEqual(diff);
+    expect(attachments.sizeOf(hash)).toBe(diff.length);
+  });
+  
+  it('should store identical blobs once', () => {
+    attachments.add(diff);
+    attachments.add(diff);
+    
+    expect(attachments.list()).toHaveLength(1);
+  });
+  
+  it('should return null for unknown blobs and reject bad hashes', () => {
+    expect(attachments.get('ab'.repeat(32))).toBeNull();
+    expect(() => attachments.get('../../etc/passwd')).toThrow('Invalid attachment hash');
+  });
+  
+  it('should detect corrupted blobs', () => {
+    const { hash } = attachments.add(diff);
+    writeFileSync(join(tempDir, 'attachments', hash.slice(0, 2), hash), 'tampered');
+    
+    expect(() => attachments.get(hash)).toThrow('corrupted');
+  });
+  
+  it('should delete blobs', () => {
+    const { hash } = attachments.add(diff);
+    
+    expect(attachments.delete(hash)).toBe(true);
+    expect(attachments.delete(hash)).toBe(false);
+    expect(attachments.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Backup & Restore Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import { AnchorStore } from '../../src/store/anchor-store.js';
+import {
+  BackupScheduler,
+  BACKUP_DIR,
+  backupFileName,
+  listBackups,
+  findBackup,
+  pruneBackups,
+} from '../../src/store/backup.js';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('backups', () => {
+  let tempDir: string;
+  let store: AnchorStore;
+  
+  const commitSome = async (count: number) => {
+    const commitments = [];
+    for (let i = 0; i < count; i++) {
+      commitments.push(await store.commit({
+        type: 'state',
+        payload: { subject: `state ${i}`, content: `Content ${i}` },
+      }));
+    }
+    return commitments;
+  };
+  
+  beforeEach(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'bsv-anchors-backup-'));
+    store = await AnchorStore.open(tempDir);
+  });
+  
+  afterEach(() => {
+    vi.useRealTimers();
+    store.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+  
+  describe('backup files', () => {
+    const backupDir = () => join(tempDir, BACKUP_DIR);
+    const at = (iso: string) => Date.parse(iso);
+    
+    beforeEach(() => {
+      mkdirSync(backupDir(), { recursive: true });
+      for (const time of ['2025-01-01T00:00:00.000Z', '2025-01-02T00:00:00.000Z', '2025-01-03T00:00:00.000Z']) {
+        writeFileSync(join(backupDir(), backupFileName(at(time))), 'db');
+      }
+      writeFileSync(join(backupDir(), 'notes.txt'), 'not a backup');
+    });
+    
+    it('should list backups oldest first', () => {
+      expect(listBackups(backupDir()).map(b => b.createdAt)).toEqual([
+        at('2025-01-01T00:00:00.000Z'),
+        at('2025-01-02T00:00:00.000Z'),
+        at('2025-01-03T00:00:00.000Z'),
+      ]);
+    });
+    
+    it('should find the latest backup at or before a time', () => {
+      expect(findBackup(backupDir(), at('2025-01-02T12:00:00.000Z'))!.createdAt).toBe(at('2025-01-02T00:00:00.000Z'));
+      expect(findBackup(backupDir(), at('2025-01-02T00:00:00.000Z'))!.createdAt).toBe(at('2025-01-02T00:00:00.000Z'));
+      expect(findBackup(backupDir(), at('2024-12-31T00:00:00.000Z'))).toBeNull();
+    });
+    
+    it('should prune all but the newest backups', () => {
+      expect(pruneBackups(backupDir(), 2)).toHaveLength(1);
+      expect(listBackups(backupDir()).map(b => b.createdAt)).toEqual([
+        at('2025-01-02T00:00:00.000Z'),
+        at('2025-01-03T00:00:00.000Z'),
+      ]);
+      expect(() => pruneBackups(backupDir(), 0)).toThrow('at least one');
+    });
+  });
+  
+  it('should back up while the store stays open', async () => {
+    await commitSome(2);
+    const backup = await store.backup();
+    await commitSome(1);
+    
+    expect(backup.path).toBe(join(tempDir, BACKUP_DIR, backupFileName(backup.createdAt)));
+    expect(backup.size).toBeGreaterThan(0);
+    
+    const copy = new Database(backup.path, { readonly: true });
+    expect((copy.prepare('SELECT COUNT(*) AS count FROM commitments').get() as { count: number }).count).toBe(2);
+    copy.close();
+    
+    expect(await store.count()).toBe(3);
+  });
+  
+  it('should restore a backup and keep the replaced database', async () => {
+    await commitSome(3);
+    const anchor = await store.recordAnchor('txid_1');
+    const backup = await store.backup();
+    await commitSome(2);
+    store.close();
+    
+    store = await AnchorStore.restoreBackup(backup.path, tempDir);
+    
+    expect(await store.count()).toBe(3);
+    expect(await store.getRoot()).toBe(anchor.rootHash);
+    expect((await store.audit()).issues).toEqual([]);
+    
+    // The replaced database, with all five commitments, was backed up
+    const backups = listBackups(join(tempDir, BACKUP_DIR));
+    expect(backups).toHaveLength(2);
+    
+    const replaced = new Database(backups[1].path, { readonly: true });
+    expect((replaced.prepare('SELECT COUNT(*) AS count FROM commitments').get() as { count: number }).count).toBe(5);
+    replaced.close();
+  });
+  
+  it('should refuse a backup that does not match its anchors', async () => {
+    const [first] = await commitSome(3);
+    await store.recordAnchor('txid_1');
+    const backup = await store.backup();
+    await commitSome(1);
+    store.close();
+    
+    const copy = new Database(backup.path);
+    copy.prepare('UPDATE commitments SET payload = ? WHERE id = ?')
+      .run(JSON.stringify({ subject: 'state 0', content: 'Edited' }), first.id);
+    copy.close();
+    
+    await expect(AnchorStore.restoreBackup(backup.path, tempDir)).rejects.toThrow('does not match its anchors');
+    
+    // The current database is untouched
+    store = await AnchorStore.open(tempDir);
+    expect(await store.count()).toBe(4);
+  });
+  
+  it('should back up on a schedule and keep only the newest', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const backups: string[] = [];
+    const scheduler = new BackupScheduler({
+      store,
+      retain: 2,
+      onBackup: backup => backups.push(backup.path),
+    });
+    
+    for (const day of ['01', '02', '03']) {
+      vi.setSystemTime(new Date(`2025-01-${day}T00:00:00.000Z`));
+      await scheduler.backup();
+    }
+    
+    expect(backups).toHaveLength(3);
+    expect(listBackups(join(tempDir, BACKUP_DIR)).map(b => b.path)).toEqual(backups.slice(1));
+    expect(() => new BackupScheduler({ store, retain: 0 })).toThrow('at least one');
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Metadata Filter Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseFilter, checkFilter } from '../../src/store/filter.js';
+
+describe('metadata filters', () => {
+  describe('parseFilter', () => {
+    it('should parse conditions joined with and', () => {
+      expect(parseFilter("metadata.priceSats >= 100 and tags contains 'billing'")).toEqual([
+        { path: 'metadata.priceSats', op: '>=', value: 100 },
+        { path: 'tags', op: 'contains', value: 'billing' },
+      ]);
+    });
+    
+    it('should parse every kind of value', () => {
+      expect(parseFilter(`
+        metadata.a = "it's" AND metadata.b != -1.5e3 and metadata.c.d = true
+        and metadata.e = false and metadata.f = null and metadata.g CONTAINS 'x\\'y'
+      `).map(f => f.value)).toEqual(["it's", -1500, true, false, null, "x'y"]);
+    });
+    
+    it('should reject malformed expressions', () => {
+      expect(() => parseFilter('')).toThrow('empty');
+      expect(() => parseFilter('metadata.priceSats >=')).toThrow('expected a value');
+      expect(() => parseFilter('metadata.priceSats ~ 1')).toThrow('unexpected');
+      expect(() => parseFilter('metadata.priceSats like 1')).toThrow('expected an operator');
+      expect(() => parseFilter('metadata.status = open')).toThrow('quote strings');
+      expect(() => parseFilter('metadata.a = 1 or metadata.b = 2')).toThrow('expected "and"');
+      expect(() => parseFilter("metadata.a = 'unterminated")).toThrow('unexpected');
+    });
+    
+    it('should reject unknown paths and mismatched values', () => {
+      expect(() => parseFilter("subject = 'x'")).toThrow('Invalid filter path');
+      expect(() => parseFilter('metadata = 1')).toThrow('Invalid filter path');
+      expect(() => parseFilter("tags = 'billing'")).toThrow('tags only supports contains');
+      expect(() => parseFilter('metadata.paid > true')).toThrow('needs a string or number');
+      expect(() => parseFilter('metadata.notes contains null')).toThrow('contains needs');
+    });
+  });
+  
+  describe('checkFilter', () => {
+    it('should check parsed clauses passed directly', () => {
+      expect(() => checkFilter({ path: 'metadata.priceSats', op: '<', value: 5 })).not.toThrow();
+      expect(() => checkFilter({ path: "metadata.x') OR 1=1 --", op: '=', value: 1 })).toThrow('Invalid filter path');
+      expect(() => checkFilter({ path: 'metadata.x', op: 'like' as never, value: 1 })).toThrow('unknown operator');
+      expect(() => checkFilter({ path: 'metadata.x', op: '=', value: Infinity })).toThrow('finite');
+      expect(() => checkFilter({ path: 'metadata.x', op: '=', value: {} as never })).toThrow('must be compared');
+    });
+  });
+});
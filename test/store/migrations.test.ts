@@ -0,0 +1,141 @@
+/**
+ * Schema Migration Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { MIGRATIONS, SCHEMA_VERSION, migrate, getSchemaVersion } from '../../src/store/migrations.js';
+import { AnchorDatabase } from '../../src/store/database.js';
+import { AnchorStore } from '../../src/store/anchor-store.js';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('migrations', () => {
+  let tempDir: string;
+  
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'bsv-anchors-migrations-'));
+  });
+  
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+  
+  /**
+   * Create a database as an older release left it: migrations up to
+   * `version` applied, optionally without the version recorded.
+   */
+  function createDatabaseAt(version: number, recordVersion = true): void {
+    const db = new Database(join(tempDir, 'anchors.db'));
+    for (const migration of MIGRATIONS.filter(m => m.version <= version)) {
+      migration.up(db);
+    }
+    
+    if (version >= 1) {
+      db.prepare(`
+        INSERT INTO commitments (id, type, payload, signature, timestamp, leaf_hash, tree_index)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        'old-commitment',
+        'agreement',
+        JSON.stringify({ subject: 'hosting', content: 'Made before the upgrade' }),
+        'sig',
+        1700000000000,
+        '',
+        -1
+      );
+      if (recordVersion) {
+        db.prepare("INSERT INTO config (key, value) VALUES ('schema_version', ?)").run(version.toString());
+      }
+    }
+    
+    db.close();
+  }
+  
+  function columnsOf(db: Database.Database, table: string): string[] {
+    return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+  }
+  
+  it('should number migrations consecutively from 1', () => {
+    expect(MIGRATIONS.map(m => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1));
+    expect(SCHEMA_VERSION).toBe(MIGRATIONS.length);
+  });
+  
+  it('should create a new database at the latest version', () => {
+    const db = new AnchorDatabase(tempDir);
+    expect(db.getSchemaVersion()).toBe(SCHEMA_VERSION);
+    db.close();
+  });
+  
+  it('should leave an up-to-date database alone', () => {
+    new AnchorDatabase(tempDir).close();
+    
+    const raw = new Database(join(tempDir, 'anchors.db'));
+    expect(migrate(raw)).toEqual([]);
+    raw.close();
+  });
+  
+  for (let version = 1; version < SCHEMA_VERSION; version++) {
+    it(`should upgrade from version ${version}`, () => {
+      createDatabaseAt(version);
+      
+      const raw = new Database(join(tempDir, 'anchors.db'));
+      expect(migrate(raw)).toEqual(MIGRATIONS.filter(m => m.version > version).map(m => m.version));
+      expect(getSchemaVersion(raw)).toBe(SCHEMA_VERSION);
+      expect(columnsOf(raw, 'commitments')).toEqual(expect.arrayContaining(['revokes', 'supersedes', 'due_at', 'fulfills']));
+      expect(columnsOf(raw, 'anchors')).toContain('sparse_root');
+      raw.close();
+      
+      const db = new AnchorDatabase(tempDir);
+      expect(db.getCommitment('old-commitment')?.payload.content).toBe('Made before the upgrade');
+      expect(db.searchCommitments('upgrade').map(r => r.commitment.id)).toEqual(['old-commitment']);
+      db.close();
+    });
+  }
+  
+  // Version 1 is the layout of stores from the first release
+  for (const version of [1, 4]) {
+    it(`should upgrade a version ${version} database from before version tracking`, async () => {
+      createDatabaseAt(version, false);
+      
+      const store = await AnchorStore.open(tempDir);
+      expect(await store.get('old-commitment')).not.toBeNull();
+      
+      const commitment = await store.commit({
+        type: 'agreement',
+        payload: { subject: 'hosting', content: 'Made after' },
+        dueAt: Date.now() + 60_000,
+      });
+      expect((await store.query({ overdue: false })).map(c => c.id)).toContain(commitment.id);
+      store.close();
+      
+      const db = new AnchorDatabase(tempDir);
+      expect(db.getSchemaVersion()).toBe(SCHEMA_VERSION);
+      db.close();
+    });
+  }
+  
+  it('should refuse a database newer than the code', () => {
+    createDatabaseAt(SCHEMA_VERSION);
+    const raw = new Database(join(tempDir, 'anchors.db'));
+    raw.prepare("UPDATE config SET value = ? WHERE key = 'schema_version'").run((SCHEMA_VERSION + 1).toString());
+    raw.close();
+    
+    expect(() => new AnchorDatabase(tempDir)).toThrow(/newer than this version/);
+  });
+  
+  it('should roll back every migration if one fails', () => {
+    createDatabaseAt(1);
+    const raw = new Database(join(tempDir, 'anchors.db'));
+    
+    const failing = [
+      ...MIGRATIONS.slice(0, 2),
+      { version: 3, description: 'Broken', up: (db: Database.Database) => db.exec('ALTER TABLE missing ADD COLUMN x TEXT') },
+    ];
+    expect(() => migrate(raw, failing)).toThrow();
+    expect(getSchemaVersion(raw)).toBe(1);
+    expect(columnsOf(raw, 'anchors')).not.toContain('sparse_root');
+    raw.close();
+  });
+});
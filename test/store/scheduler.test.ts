@@ -0,0 +1,229 @@
+/**
+ * Anchoring Scheduler Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AnchorStore } from '../../src/store/anchor-store.js';
+import { AnchorScheduler } from '../../src/store/scheduler.js';
+import type { Anchor } from '../../src/types.js';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('AnchorScheduler', () => {
+  let store: AnchorStore;
+  let tempDir: string;
+  let scheduler: AnchorScheduler;
+  let anchored: Anchor[];
+  let txCount: number;
+  
+  const fakeAnchor = () => store.recordAnchor(`txid_${++txCount}`);
+  
+  const commit = (type: 'agreement' | 'state' = 'state') => store.commit({
+    type,
+    payload: { subject: 'test', content: 'Content' },
+  });
+  
+  beforeEach(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'bsv-anchors-scheduler-'));
+    store = await AnchorStore.open(tempDir);
+    anchored = [];
+    txCount = 0;
+  });
+  
+  afterEach(() => {
+    scheduler?.stop();
+    vi.useRealTimers();
+    store.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+  
+  it('should never anchor with the manual strategy', async () => {
+    scheduler = new AnchorScheduler({ store, anchor: fakeAnchor });
+    await commit();
+    
+    expect(await scheduler.check()).toBeNull();
+  });
+  
+  it('should anchor right after an immediate type commit', async () => {
+    store.setAnchorStrategy({ anchorStrategy: 'importance', immediateTypes: ['agreement'] });
+    scheduler = new AnchorScheduler({
+      store,
+      anchor: fakeAnchor,
+      onAnchor: (anchor) => anchored.push(anchor),
+    });
+    scheduler.start();
+    
+    await commit('state');
+    await scheduler.check();
+    expect(anchored).toHaveLength(0);
+    
+    await commit('agreement');
+    await vi.waitFor(() => expect(anchored).toHaveLength(1));
+    expect(anchored[0].commitmentCount).toBe(2);
+  });
+  
+  it('should anchor once the unanchored count reaches the threshold', async () => {
+    store.setAnchorStrategy({ anchorStrategy: 'count', anchorThreshold: 3 });
+    scheduler = new AnchorScheduler({ store, anchor: fakeAnchor });
+    
+    await commit();
+    await commit();
+    expect(await scheduler.check()).toBeNull();
+    
+    await commit();
+    const anchor = await scheduler.check();
+    expect(anchor?.commitmentCount).toBe(3);
+    expect(await store.getUnanchoredCount()).toBe(0);
+  });
+  
+  it('should anchor when the interval has passed since the last anchor', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    store.setAnchorStrategy({ anchorStrategy: 'time', anchorIntervalHours: 2 });
+    scheduler = new AnchorScheduler({ store, anchor: fakeAnchor });
+    
+    await commit();
+    await store.recordAnchor('txid_0');
+    await commit();
+    
+    vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+    expect(await scheduler.check()).toBeNull();
+    
+    vi.setSystemTime(Date.now() + 61 * 60 * 1000);
+    expect(await scheduler.check()).not.toBeNull();
+  });
+  
+  it('should back off after wallet failures', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    store.setAnchorStrategy({ anchorStrategy: 'count', anchorThreshold: 1 });
+    
+    const errors: number[] = [];
+    let failing = true;
+    const anchor = vi.fn(async () => {
+      if (failing) throw new Error('Wallet unavailable');
+      return fakeAnchor();
+    });
+    
+    scheduler = new AnchorScheduler({
+      store,
+      anchor,
+      initialBackoffMs: 1000,
+      maxBackoffMs: 3000,
+      onError: (_error, retryAt) => errors.push(retryAt - Date.now()),
+    });
+    
+    await commit();
+    expect(await scheduler.check()).toBeNull();
+    expect(await scheduler.check()).toBeNull();
+    expect(anchor).toHaveBeenCalledTimes(1);
+    
+    vi.setSystemTime(Date.now() + 1000);
+    await scheduler.check();
+    vi.setSystemTime(Date.now() + 2000);
+    await scheduler.check();
+    vi.setSystemTime(Date.now() + 3000);
+    failing = false;
+    
+    expect(await scheduler.check()).not.toBeNull();
+    expect(errors).toEqual([1000, 2000, 3000]);
+    expect(scheduler.nextRetryAt).toBeNull();
+  });
+  
+  it('should not retry when the onAnchor callback throws', async () => {
+    store.setAnchorStrategy({ anchorStrategy: 'count', anchorThreshold: 1 });
+    const anchor = vi.fn(fakeAnchor);
+    const onError = vi.fn();
+    scheduler = new AnchorScheduler({
+      store,
+      anchor,
+      onAnchor: () => { throw new Error('Callback failed'); },
+      onError,
+    });
+    
+    await commit();
+    expect(await scheduler.check()).not.toBeNull();
+    expect(scheduler.nextRetryAt).toBeNull();
+    expect(onError).not.toHaveBeenCalled();
+    expect(anchor).toHaveBeenCalledTimes(1);
+  });
+  
+  it('should report store errors from timer ticks instead of rejecting', async () => {
+    store.setAnchorStrategy({ anchorStrategy: 'importance', immediateTypes: ['agreement'] });
+    const onError = vi.fn(() => { throw new Error('Callback failed'); });
+    scheduler = new AnchorScheduler({ store, anchor: fakeAnchor, checkIntervalMs: 10, onError });
+    store.close();
+    scheduler.start();
+    
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(expect.any(Error), expect.any(Number)));
+    expect(scheduler.nextRetryAt).not.toBeNull();
+    
+    store = await AnchorStore.open(tempDir);
+  });
+  
+  it('should anchor an immediate commit made before it started', async () => {
+    store.setAnchorStrategy({ anchorStrategy: 'importance', immediateTypes: ['agreement'] });
+    await commit('agreement');
+    await commit('state');
+    
+    scheduler = new AnchorScheduler({
+      store,
+      anchor: fakeAnchor,
+      onAnchor: (anchor) => anchored.push(anchor),
+    });
+    scheduler.start();
+    
+    await vi.waitFor(() => expect(anchored).toHaveLength(1));
+    expect(anchored[0].commitmentCount).toBe(2);
+  });
+  
+  it('should stop reacting to commits when stopped', async () => {
+    store.setAnchorStrategy({ anchorStrategy: 'importance', immediateTypes: ['state'] });
+    const anchor = vi.fn(fakeAnchor);
+    scheduler = new AnchorScheduler({ store, anchor });
+    
+    scheduler.start();
+    expect(scheduler.isRunning).toBe(true);
+    scheduler.stop();
+    
+    await commit('state');
+    expect(anchor).not.toHaveBeenCalled();
+  });
+});
+
+describe('anchoring strategy settings', () => {
+  let tempDir: string;
+  
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'bsv-anchors-strategy-'));
+  });
+  
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+  
+  it('should persist across reopens', async () => {
+    const store = await AnchorStore.open(tempDir);
+    store.setAnchorStrategy({ anchorStrategy: 'importance', immediateTypes: ['agreement', 'attestation'] });
+    store.close();
+    
+    const reopened = await AnchorStore.open(tempDir);
+    expect(reopened.getAnchorStrategy()).toEqual({
+      anchorStrategy: 'importance',
+      anchorIntervalHours: undefined,
+      anchorThreshold: undefined,
+      immediateTypes: ['agreement', 'attestation'],
+    });
+    reopened.close();
+  });
+  
+  it('should reject incomplete settings', async () => {
+    const store = await AnchorStore.open(tempDir);
+    
+    expect(() => store.setAnchorStrategy({ anchorStrategy: 'time' })).toThrow('anchorIntervalHours');
+    expect(() => store.setAnchorStrategy({ anchorStrategy: 'count', anchorThreshold: 0 })).toThrow('positive integer');
+    expect(() => store.setAnchorStrategy({ anchorStrategy: 'importance' })).toThrow('immediateTypes');
+    expect(store.getAnchorStrategy().anchorStrategy).toBe('manual');
+    
+    store.close();
+  });
+});